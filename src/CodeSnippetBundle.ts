@@ -0,0 +1,106 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ICodeSnippet, ISnippetCell, SnippetKind } from './CodeSnippetService';
+
+/**
+ * The value of the `format` field of a bundle file.
+ */
+export const BUNDLE_FORMAT = 'jupyterlab-code-snippets';
+
+/**
+ * The version of the bundle format written by this extension.
+ */
+export const BUNDLE_VERSION = 1;
+
+/**
+ * A set of snippets exported to one file, with a header describing it.
+ */
+export interface ISnippetBundle {
+  format: string;
+  version: number;
+  // name of the exported set, e.g. the library or the filter
+  name: string;
+  // ISO 8601 date of the export
+  exported: string;
+  count: number;
+  snippets: IBundledSnippet[];
+}
+
+/**
+ * A snippet as written in a bundle, with its code as an array of lines like
+ * the files in `snippets_example/`.
+ */
+export interface IBundledSnippet {
+  name: string;
+  description: string;
+  language: string;
+  code: string[];
+  id: string;
+  tags: string[];
+  prefix?: string;
+  kind?: SnippetKind;
+  requires?: string[];
+  cells?: IBundledCell[];
+}
+
+/**
+ * A cell of a multi-cell snippet as written in a bundle, with its source as
+ * an array of lines.
+ */
+export interface IBundledCell extends Omit<ISnippetCell, 'source'> {
+  source: string[];
+}
+
+/**
+ * Create a bundle of snippets.
+ */
+export function createBundle(
+  snippets: ICodeSnippet[],
+  name: string,
+  date: Date = new Date()
+): ISnippetBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    name: name,
+    exported: date.toISOString(),
+    count: snippets.length,
+    snippets: snippets.map(toBundledSnippet),
+  };
+}
+
+/**
+ * Convert a snippet to the way it is exported, without the fields that only
+ * make sense where it comes from: its library, order, creation date and
+ * history.
+ */
+export function toBundledSnippet(snippet: ICodeSnippet): IBundledSnippet {
+  return {
+    name: snippet.name,
+    description: snippet.description ?? '',
+    language: snippet.language,
+    code: snippet.code.split('\n'),
+    id: snippet.id,
+    tags: snippet.tags ?? [],
+    prefix: snippet.prefix,
+    kind: snippet.kind,
+    requires: snippet.requires,
+    cells: snippet.cells?.map((cell) => ({
+      ...cell,
+      source: cell.source.split('\n'),
+    })),
+  };
+}
+
+/**
+ * Test whether a parsed JSON value is a snippet bundle.
+ */
+export function isBundle(value: unknown): value is ISnippetBundle {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as ISnippetBundle).format === BUNDLE_FORMAT &&
+    Array.isArray((value as ISnippetBundle).snippets)
+  );
+}
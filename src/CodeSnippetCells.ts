@@ -0,0 +1,121 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import * as nbformat from '@jupyterlab/nbformat';
+import { Notebook } from '@jupyterlab/notebook';
+
+import { ICodeSnippet, ISnippetCell } from './CodeSnippetService';
+import { expandTemplate, hasPlaceholders } from './CodeSnippetTemplate';
+
+/**
+ * The text between the sources of the cells in the code of a multi-cell
+ * snippet.
+ */
+const CELL_SEPARATOR = '\n\n';
+
+/**
+ * Convert notebook cells to the cells of a snippet. Raw cells are kept as
+ * code cells, and the outputs and execution counts are dropped.
+ */
+export function toSnippetCells(cells: nbformat.IBaseCell[]): ISnippetCell[] {
+  return cells.map((cell) => {
+    const snippetCell: ISnippetCell = {
+      cell_type: cell.cell_type === 'markdown' ? 'markdown' : 'code',
+      source: Array.isArray(cell.source) ? cell.source.join('') : cell.source,
+    };
+    const metadata = { ...cell.metadata };
+    // trust is given by the notebook the cells are inserted in
+    delete metadata.trusted;
+    if (Object.keys(metadata).length !== 0) {
+      snippetCell.metadata = metadata;
+    }
+    return snippetCell;
+  });
+}
+
+/**
+ * Convert the cells of a snippet to notebook cells, e.g. for the cell data
+ * of a drag.
+ */
+export function toNotebookCells(cells: ISnippetCell[]): nbformat.ICell[] {
+  return cells.map((cell) => {
+    const metadata = { ...(cell.metadata ?? {}) };
+    if (cell.cell_type === 'markdown') {
+      const markdownCell: nbformat.IMarkdownCell = {
+        cell_type: 'markdown',
+        source: cell.source,
+        metadata: metadata,
+      };
+      return markdownCell;
+    }
+    const codeCell: nbformat.ICodeCell = {
+      cell_type: 'code',
+      source: cell.source,
+      metadata: metadata,
+      outputs: [],
+      execution_count: null,
+    };
+    return codeCell;
+  });
+}
+
+/**
+ * Join the sources of cells into the code of a snippet, which is previewed,
+ * searched and inserted in editors.
+ */
+export function joinCells(cells: ISnippetCell[]): string {
+  return cells.map((cell) => cell.source).join(CELL_SEPARATOR);
+}
+
+/**
+ * Test whether a snippet is inserted in notebooks as its own cells.
+ */
+export function isMultiCellSnippet(snippet: ICodeSnippet): boolean {
+  return !!snippet.cells && snippet.cells.length !== 0;
+}
+
+/**
+ * Fill the placeholders of the cells of a snippet with the same values.
+ */
+export function fillCells(
+  cells: ISnippetCell[],
+  values: { [key: string]: string }
+): ISnippetCell[] {
+  return cells.map((cell) =>
+    hasPlaceholders(cell.source)
+      ? { ...cell, source: expandTemplate(cell.source, values) }
+      : cell
+  );
+}
+
+/**
+ * Insert cells in a notebook and select them, the way the notebook inserts
+ * the cells dropped onto it.
+ *
+ * @param index - the index of the first inserted cell
+ */
+export function insertCells(
+  notebook: Notebook,
+  cells: ISnippetCell[],
+  index: number
+): void {
+  const model = notebook.model;
+  if (!model) {
+    return;
+  }
+  const factory = model.contentFactory;
+  let next = index;
+  model.cells.beginCompoundOperation();
+  for (const cell of toNotebookCells(cells)) {
+    model.cells.insert(
+      next++,
+      cell.cell_type === 'markdown'
+        ? factory.createMarkdownCell({ cell })
+        : factory.createCodeCell({ cell })
+    );
+  }
+  model.cells.endCompoundOperation();
+  notebook.deselectAll();
+  notebook.activeCellIndex = index;
+  notebook.extendContiguousSelectionTo(next - 1);
+}
@@ -0,0 +1,504 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { JupyterFrontEnd } from '@jupyterlab/application';
+import { ISessionContext } from '@jupyterlab/apputils';
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { Mode } from '@jupyterlab/codemirror';
+import {
+  Completer,
+  CompletionConnector,
+  CompletionHandler,
+  ContextConnector,
+  ICompletionManager,
+} from '@jupyterlab/completer';
+import { IConsoleTracker } from '@jupyterlab/console';
+import { IEditorTracker } from '@jupyterlab/fileeditor';
+import { INotebookTracker } from '@jupyterlab/notebook';
+import { Session } from '@jupyterlab/services';
+import { DataConnector, IDataConnector } from '@jupyterlab/statedb';
+
+import { find, toArray } from '@lumino/algorithm';
+import { Widget } from '@lumino/widgets';
+
+import { getContextValues, getSessionContext } from './CodeSnippetContext';
+import { matchSnippets, tokenBefore } from './CodeSnippetPrefix';
+import { CodeSnippetService, ICodeSnippet } from './CodeSnippetService';
+import { SnippetSession } from './CodeSnippetSession';
+import { expandTemplate } from './CodeSnippetTemplate';
+import { fillTemplate } from './CodeSnippetTemplateDialog';
+
+/**
+ * The type of the completion items of snippets.
+ */
+const SNIPPET_ITEM_TYPE = 'snippet';
+
+/**
+ * A completion connector offering the snippets whose prefix starts with the
+ * token before the cursor, next to the completions of a base connector.
+ */
+export class SnippetCompletionConnector
+  extends DataConnector<
+    CompletionHandler.ICompletionItemsReply,
+    void,
+    CompletionHandler.IRequest
+  >
+  implements CompletionHandler.ICompletionItemsConnector
+{
+  readonly responseType = CompletionHandler.ICompletionItemsResponseType;
+
+  constructor(options: SnippetCompletionConnector.IOptions) {
+    super();
+    this.connector = options.connector;
+    this._snippets = options.snippets;
+    this._language = options.language;
+  }
+
+  /**
+   * Find the snippet of an item of the last reply by its id.
+   */
+  findSnippet(id: string): ICodeSnippet | undefined {
+    return this._items.get(id);
+  }
+
+  async fetch(
+    request: CompletionHandler.IRequest
+  ): Promise<CompletionHandler.ICompletionItemsReply> {
+    const token = tokenBefore(request.text, request.offset);
+    const snippets = matchSnippets(this._snippets(), token, this._language());
+    const base: Private.BaseReply = await (
+      this.connector.fetch(request) as Promise<Private.BaseReply>
+    ).catch((): undefined => {
+      // the kernel may be busy or gone, snippets are still offered
+      return undefined;
+    });
+
+    this._items.clear();
+    const items = snippets.map((snippet) => {
+      this._items.set(snippet.id, snippet);
+      return Private.toItem(snippet, expandTemplate(snippet.code));
+    });
+
+    const start = request.offset - token.length;
+    if (!base) {
+      return { start, end: request.offset, items };
+    }
+    const baseItems = Private.toItems(base);
+    if (items.length === 0) {
+      return { start: base.start, end: base.end, items: baseItems };
+    }
+    if (baseItems.length === 0) {
+      return { start, end: request.offset, items };
+    }
+    if (base.start !== start) {
+      // the items of a reply share one range, keep the base completions
+      return { start: base.start, end: base.end, items: baseItems };
+    }
+    return { start, end: base.end, items: items.concat(baseItems) };
+  }
+
+  /**
+   * The connector of the kernel or context completions, replaced when the
+   * active cell or the session changes.
+   */
+  connector: SnippetCompletionConnector.BaseConnector;
+
+  private _snippets: () => ICodeSnippet[];
+  private _language: () => string | undefined;
+  // the snippets of the last reply by id
+  private _items = new Map<string, ICodeSnippet>();
+}
+
+/**
+ * A namespace for snippet completion connector statics.
+ */
+export namespace SnippetCompletionConnector {
+  /**
+   * A connector of the kernel or context completions, or of richer
+   * completion items.
+   */
+  export type BaseConnector =
+    | IDataConnector<CompletionHandler.IReply, void, CompletionHandler.IRequest>
+    | CompletionHandler.ICompletionItemsConnector;
+
+  /**
+   * The instantiation options of a snippet completion connector.
+   */
+  export interface IOptions {
+    // the connector of the kernel or context completions
+    connector: BaseConnector;
+    snippets: () => ICodeSnippet[];
+    // the language of the kernel, or undefined if it is not known
+    language: () => string | undefined;
+  }
+}
+
+/**
+ * The command IDs of the completers of notebooks, consoles and file editors,
+ * used by the shortcuts of the default completer plugins.
+ *
+ * #### Notes
+ * The default completer plugins of notebooks, consoles and file editors are
+ * disabled in package.json, the functions below register their completers.
+ */
+namespace CommandIDs {
+  export const invoke = 'completer:invoke';
+  export const invokeConsole = 'completer:invoke-console';
+  export const invokeNotebook = 'completer:invoke-notebook';
+  export const invokeFile = 'completer:invoke-file';
+  export const select = 'completer:select';
+  export const selectConsole = 'completer:select-console';
+  export const selectNotebook = 'completer:select-notebook';
+  export const selectFile = 'completer:select-file';
+}
+
+/**
+ * Register a completer offering the snippets with a prefix for a widget, and
+ * finish the expansion of the snippets chosen in it.
+ */
+export function registerSnippetCompleter(
+  manager: ICompletionManager,
+  parent: Widget,
+  editor: CodeEditor.IEditor | null,
+  connector: SnippetCompletionConnector
+): ICompletionManager.ICompletableAttributes {
+  const handler = manager.register({ connector, editor, parent });
+  if (handler instanceof CompletionHandler) {
+    const findItem = Private.trackItems(handler.completer);
+    handler.completer.selected.connect((sender, value) => {
+      const item = findItem(value);
+      const snippet = item?.snippetId
+        ? connector.findSnippet(item.snippetId)
+        : undefined;
+      if (snippet && handler.editor) {
+        void CodeSnippetService.getCodeSnippetService().recordUsage(snippet.id);
+        void expandCompletedSnippet(handler.editor, parent, snippet, value);
+      }
+    });
+  }
+  return handler;
+}
+
+/**
+ * Offer the snippets with a prefix in the completers of notebooks, next to
+ * the kernel completions, in place of the default notebook completer.
+ */
+export function completeNotebooks(
+  app: JupyterFrontEnd,
+  manager: ICompletionManager,
+  notebooks: INotebookTracker,
+  snippets: () => ICodeSnippet[]
+): void {
+  notebooks.widgetAdded.connect((sender, panel) => {
+    const editor = panel.content.activeCell?.editor ?? null;
+    const connector = new SnippetCompletionConnector({
+      connector: new CompletionConnector({
+        session: panel.sessionContext.session,
+        editor,
+      }),
+      snippets,
+      language: trackKernelLanguage(panel.sessionContext),
+    });
+    const handler = registerSnippetCompleter(manager, panel, editor, connector);
+
+    const update = (): void => {
+      const editor = panel.content.activeCell?.editor ?? null;
+      handler.editor = editor;
+      connector.connector = new CompletionConnector({
+        session: panel.sessionContext.session,
+        editor,
+      });
+    };
+    panel.content.activeCellChanged.connect(update);
+    panel.sessionContext.sessionChanged.connect(update);
+  });
+
+  Private.addCommands(
+    app,
+    CommandIDs.invokeNotebook,
+    CommandIDs.selectNotebook,
+    () => {
+      const panel = notebooks.currentWidget;
+      return panel?.content.activeCell?.model.type === 'code' ? panel : null;
+    },
+    '.jp-Notebook .jp-mod-completer-active'
+  );
+}
+
+/**
+ * Offer the snippets with a prefix in the completers of consoles, next to
+ * the kernel completions, in place of the default console completer.
+ */
+export function completeConsoles(
+  app: JupyterFrontEnd,
+  manager: ICompletionManager,
+  consoles: IConsoleTracker,
+  snippets: () => ICodeSnippet[]
+): void {
+  consoles.widgetAdded.connect((sender, panel) => {
+    const editor = panel.console.promptCell?.editor ?? null;
+    const connector = new SnippetCompletionConnector({
+      connector: new CompletionConnector({
+        session: panel.sessionContext.session,
+        editor,
+      }),
+      snippets,
+      language: trackKernelLanguage(panel.sessionContext),
+    });
+    const handler = registerSnippetCompleter(manager, panel, editor, connector);
+
+    const update = (): void => {
+      const editor = panel.console.promptCell?.editor ?? null;
+      handler.editor = editor;
+      connector.connector = new CompletionConnector({
+        session: panel.sessionContext.session,
+        editor,
+      });
+    };
+    panel.console.promptCellCreated.connect(update);
+    panel.sessionContext.sessionChanged.connect(update);
+  });
+
+  Private.addCommands(
+    app,
+    CommandIDs.invokeConsole,
+    CommandIDs.selectConsole,
+    () => consoles.currentWidget,
+    '.jp-ConsolePanel .jp-mod-completer-active'
+  );
+}
+
+/**
+ * Offer the snippets with a prefix in the completers of file editors, in
+ * place of the default file editor completer.
+ *
+ * #### Notes
+ * Like the default completer, the completions come from the kernel of a
+ * session opened on the same path if there is one, e.g. a console opened
+ * from the file, and from the words of the file otherwise.
+ */
+export function completeFiles(
+  app: JupyterFrontEnd,
+  manager: ICompletionManager,
+  editors: IEditorTracker,
+  snippets: () => ICodeSnippet[]
+): void {
+  editors.widgetAdded.connect((sender, widget) => {
+    const sessions = app.serviceManager.sessions;
+    const editor = widget.content.editor;
+    const contextConnector = new ContextConnector({ editor });
+    const connector = new SnippetCompletionConnector({
+      connector: contextConnector,
+      snippets,
+      // a file has no kernel, use the language of its editor mode
+      language: () => Mode.findByMIME(editor.model.mimeType)?.name,
+    });
+    registerSnippetCompleter(manager, widget, editor, connector);
+
+    let session: Session.ISessionConnection | null = null;
+    const onRunningChanged = (
+      sender: Session.IManager,
+      models: Session.IModel[]
+    ): void => {
+      const model = find(models, (m) => m.path === widget.context.path);
+      if (model && session?.id === model.id) {
+        return;
+      }
+      session?.dispose();
+      session = model ? sessions.connectTo({ model }) : null;
+      connector.connector = session
+        ? new CompletionConnector({ session, editor })
+        : contextConnector;
+    };
+    onRunningChanged(sessions, toArray(sessions.running()));
+    sessions.runningChanged.connect(onRunningChanged);
+
+    widget.disposed.connect(() => {
+      sessions.runningChanged.disconnect(onRunningChanged);
+      session?.dispose();
+    });
+  });
+
+  Private.addCommands(
+    app,
+    CommandIDs.invokeFile,
+    CommandIDs.selectFile,
+    () => editors.currentWidget,
+    '.jp-FileEditor .jp-mod-completer-active'
+  );
+}
+
+/**
+ * Get the language of the kernel of a session, kept up to date when the
+ * kernel changes.
+ */
+export function trackKernelLanguage(
+  sessionContext: ISessionContext
+): () => string | undefined {
+  let language: string | undefined;
+  const update = (): void => {
+    language = undefined;
+    void sessionContext.session?.kernel?.info
+      .then((info) => (language = info.language_info.name))
+      .catch(() => undefined);
+  };
+  sessionContext.kernelChanged.connect(update);
+  update();
+  return (): string | undefined => language;
+}
+
+/**
+ * Finish the expansion of a snippet the completer just inserted with the
+ * defaults of its placeholders: fill the context variables and ask for the
+ * other values, then start a session on the numbered placeholders.
+ */
+async function expandCompletedSnippet(
+  editor: CodeEditor.IEditor,
+  parent: Widget,
+  snippet: ICodeSnippet,
+  insertText: string
+): Promise<void> {
+  // the completer leaves the cursor at the end of the inserted text
+  const end = editor.getOffsetAt(editor.getCursorPosition());
+  const start = end - insertText.length;
+  if (start < 0 || editor.model.value.text.slice(start, end) !== insertText) {
+    return;
+  }
+
+  const context = await getContextValues(parent, snippet.code);
+  const template = await fillTemplate(
+    snippet,
+    context,
+    'Insert',
+    getSessionContext(parent)
+  );
+  if (!template) {
+    return;
+  }
+  // the completer inserted the defaults, replace them with the given values
+  if (template.text !== insertText) {
+    editor.model.value.remove(start, end);
+    editor.model.value.insert(start, template.text);
+  }
+  SnippetSession.start(editor, start, template.fields);
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The reply of a base connector, undefined if it failed.
+   */
+  export type BaseReply =
+    | CompletionHandler.IReply
+    | CompletionHandler.ICompletionItemsReply
+    | undefined;
+
+  /**
+   * A completion item, which may be the item of a snippet.
+   */
+  export interface ISnippetItem extends CompletionHandler.ICompletionItem {
+    snippetId?: string;
+  }
+
+  /**
+   * Create the completion item of a snippet.
+   */
+  export function toItem(
+    snippet: ICodeSnippet,
+    insertText: string
+  ): ISnippetItem {
+    const description = snippet.description
+      ? `${snippet.name}: ${snippet.description}`
+      : snippet.name;
+    return {
+      label: snippet.prefix ?? snippet.name,
+      insertText: insertText,
+      type: SNIPPET_ITEM_TYPE,
+      documentation: `${description}\n\n${insertText}`,
+      // snippets with the same code insert the same text
+      snippetId: snippet.id,
+    };
+  }
+
+  /**
+   * Follow the items shown by a completer to find the one it inserts.
+   *
+   * #### Notes
+   * The completer only tells the text it inserts, and may reset its items
+   * while inserting it, so the shown items are kept as they change. The
+   * active item is preferred, a clicked item is found by its text.
+   */
+  export function trackItems(
+    completer: Completer
+  ): (value: string) => ISnippetItem | undefined {
+    let items: ISnippetItem[] = [];
+    let active: ISnippetItem | undefined;
+    completer.indexChanged.connect((sender, index) => {
+      items = completer.model?.completionItems?.().slice() ?? [];
+      active = items[index];
+    });
+    const textOf = (item: ISnippetItem): string =>
+      item.insertText || item.label;
+    return (value: string): ISnippetItem | undefined =>
+      active && textOf(active) === value
+        ? active
+        : items.find((item) => textOf(item) === value);
+  }
+
+  /**
+   * Add the commands invoking and selecting in the completer of the current
+   * widget of a kind, unless the default completer plugin added them.
+   */
+  export function addCommands(
+    app: JupyterFrontEnd,
+    invoke: string,
+    select: string,
+    current: () => Widget | null,
+    activeSelector: string
+  ): void {
+    if (app.commands.hasCommand(invoke)) {
+      return;
+    }
+    app.commands.addCommand(invoke, {
+      execute: () => {
+        const id = current()?.id;
+        if (id) {
+          return app.commands.execute(CommandIDs.invoke, { id });
+        }
+      },
+    });
+    app.commands.addCommand(select, {
+      execute: () => {
+        const id = current()?.id;
+        if (id) {
+          return app.commands.execute(CommandIDs.select, { id });
+        }
+      },
+    });
+    app.commands.addKeyBinding({
+      command: select,
+      keys: ['Enter'],
+      selector: activeSelector,
+    });
+  }
+
+  /**
+   * Convert the reply of a base connector to completion items.
+   */
+  export function toItems(
+    reply: CompletionHandler.IReply | CompletionHandler.ICompletionItemsReply
+  ): CompletionHandler.ICompletionItem[] {
+    if ('items' in reply) {
+      return reply.items.slice();
+    }
+    const types = reply.metadata._jupyter_types_experimental as
+      | { text: string; type?: string }[]
+      | undefined;
+    if (types && types.length === reply.matches.length) {
+      return types.map((item) => ({ label: item.text, type: item.type }));
+    }
+    return reply.matches.map((match) => ({ label: match }));
+  }
+}
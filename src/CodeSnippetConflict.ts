@@ -0,0 +1,82 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { Dialog, showDialog } from '@jupyterlab/apputils';
+
+import { Widget } from '@lumino/widgets';
+
+import { ISnippetConflict } from './CodeSnippetMerge';
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * The CSS class of the conflict dialog body.
+ */
+const CONFLICT_BODY = 'jp-codeSnippet-conflict';
+
+/**
+ * The version kept of a snippet changed in two places: the one changed here,
+ * the one from the storage, or both as two snippets. Keeping both keeps the
+ * changed version of a snippet deleted on one side.
+ */
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+/**
+ * Ask which version to keep of a snippet changed here and in another tab,
+ * the settings editor or the snippet folder. Dismissing the dialog loses no
+ * change: it keeps both versions, or the changed one if the other side
+ * deleted the snippet.
+ */
+export async function resolveEditConflict(
+  conflict: ISnippetConflict
+): Promise<ConflictChoice> {
+  // the choices that throw away a version are warnings
+  const buttons = [
+    (conflict.local ? Dialog.warnButton : Dialog.okButton)({
+      label: 'Keep Theirs',
+    }),
+    (conflict.remote ? Dialog.warnButton : Dialog.okButton)({
+      label: 'Keep Mine',
+    }),
+  ];
+  let defaultButton = conflict.local ? 1 : 0;
+  if (conflict.local && conflict.remote) {
+    buttons.push(Dialog.okButton({ label: 'Keep Both' }));
+    defaultButton = 2;
+  }
+  const result = await showDialog({
+    title: 'Snippet changed in two places',
+    body: new ConflictHandler(conflict),
+    buttons: buttons,
+    defaultButton: defaultButton,
+  });
+
+  if (result.button.label === 'Keep Mine') {
+    return 'local';
+  } else if (result.button.label === 'Keep Theirs') {
+    return 'remote';
+  }
+  return 'both';
+}
+
+/**
+ * The body of the conflict dialog.
+ */
+class ConflictHandler extends Widget {
+  constructor(conflict: ISnippetConflict) {
+    super({ node: document.createElement('div') });
+    this.addClass(CONFLICT_BODY);
+
+    const name = (
+      (conflict.local ?? conflict.remote ?? conflict.base) as ICodeSnippet
+    ).name;
+    const message = document.createElement('p');
+    if (!conflict.local) {
+      message.textContent = `"${name}" was deleted here and changed elsewhere.`;
+    } else if (!conflict.remote) {
+      message.textContent = `"${name}" was changed here and deleted elsewhere.`;
+    } else {
+      message.textContent = `"${name}" was changed here and elsewhere, e.g. in another tab or the settings editor, and the changes cannot be merged.`;
+    }
+    this.node.appendChild(message);
+  }
+}
@@ -42,4 +42,25 @@ export class CodeSnippetContentsService {
       return error;
     }
   }
+
+  /**
+   * Get a file or directory.
+   * @param path path to a file/directory
+   * @param options options for the fetch, e.g. whether to include the content
+   * Usage: get('snippets', { content: true }) to list a directory
+   */
+  async get(
+    path: string,
+    options?: Contents.IFetchOptions
+  ): Promise<Contents.IModel> {
+    return this.contentsManager.get(path, options);
+  }
+
+  /**
+   * Delete a file.
+   * @param path path to a file
+   */
+  async delete(path: string): Promise<void> {
+    return this.contentsManager.delete(path);
+  }
 }
@@ -0,0 +1,254 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ISessionContext } from '@jupyterlab/apputils';
+import { Cell, CodeCell } from '@jupyterlab/cells';
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { ConsolePanel } from '@jupyterlab/console';
+import { DocumentWidget } from '@jupyterlab/docregistry';
+import { FileEditor } from '@jupyterlab/fileeditor';
+import * as nbformat from '@jupyterlab/nbformat';
+import { NotebookPanel } from '@jupyterlab/notebook';
+
+import { toArray } from '@lumino/algorithm';
+import { Widget } from '@lumino/widgets';
+
+import { getPlaceholders } from './CodeSnippetTemplate';
+
+/**
+ * The template variables filled from the widget a snippet is inserted in.
+ */
+export const CONTEXT_VARIABLES = [
+  'selection',
+  'cell',
+  'previous_cell',
+  'last_output',
+  'notebook_path',
+  'kernel_language',
+  'date',
+  'clipboard',
+];
+
+/**
+ * Get the editor of the active cell of a notebook, of the prompt cell of a
+ * console, or of a file editor.
+ */
+export function getActiveEditor(widget: Widget): CodeEditor.IEditor | null {
+  if (widget instanceof NotebookPanel) {
+    return widget.content.activeCell?.editor ?? null;
+  }
+  if (widget instanceof ConsolePanel) {
+    return widget.console.promptCell?.editor ?? null;
+  }
+  if (
+    widget instanceof DocumentWidget &&
+    widget.content instanceof FileEditor
+  ) {
+    return widget.content.editor;
+  }
+  return null;
+}
+
+/**
+ * Get the session of the kernel of a notebook or console, whose kernel
+ * evaluates the template expressions.
+ */
+export function getSessionContext(
+  widget: Widget | null
+): ISessionContext | null {
+  return widget instanceof NotebookPanel || widget instanceof ConsolePanel
+    ? widget.sessionContext
+    : null;
+}
+
+/**
+ * Get the code of a notebook, console or file editor, e.g. to find the
+ * snippets it already holds.
+ *
+ * @returns the text of all the cells or of the file, or null if the widget
+ * has no code.
+ */
+export function getWidgetText(widget: Widget | null): string | null {
+  let cells: Cell[];
+  if (widget instanceof NotebookPanel) {
+    cells = widget.content.widgets.slice();
+  } else if (widget instanceof ConsolePanel) {
+    cells = toArray(widget.console.cells);
+    if (widget.console.promptCell) {
+      cells.push(widget.console.promptCell);
+    }
+  } else if (
+    widget instanceof DocumentWidget &&
+    widget.content instanceof FileEditor
+  ) {
+    return widget.content.model.value.text;
+  } else {
+    return null;
+  }
+  return cells.map((cell) => cell.model.value.text).join('\n');
+}
+
+/**
+ * Resolve the context variables used by a template.
+ *
+ * @param widget - the notebook or editor the snippet is inserted in
+ *
+ * @returns the values of the variables used by the template, which are not
+ * asked for when filling it.
+ */
+export async function getContextValues(
+  widget: Widget | null,
+  code: string
+): Promise<{ [key: string]: string }> {
+  const used = getPlaceholders(code)
+    .map((placeholder) => placeholder.key)
+    .filter((key) => CONTEXT_VARIABLES.includes(key));
+  const values: { [key: string]: string } = {};
+  for (const key of used) {
+    values[key] = await Private.resolve(key, widget);
+  }
+  return values;
+}
+
+/**
+ * Get the text of an output: the text of a stream, the plain text of a
+ * result, or the name, value and traceback of an error without their colors.
+ */
+export function getOutputText(output: nbformat.IOutput): string {
+  let text = '';
+  switch (output.output_type) {
+    case 'stream':
+      text = Private.join((output as nbformat.IStream).text);
+      break;
+    case 'error': {
+      const error = output as nbformat.IError;
+      text = [`${error.ename}: ${error.evalue}`]
+        .concat(error.traceback)
+        .join('\n');
+      break;
+    }
+    case 'execute_result':
+    case 'display_data':
+      text = Private.join(
+        (output as nbformat.IExecuteResult | nbformat.IDisplayData).data[
+          'text/plain'
+        ] as nbformat.MultilineString
+      );
+      break;
+  }
+  return text.replace(Private.ANSI_COLORS, '');
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The escape sequences coloring the tracebacks.
+   */
+  export const ANSI_COLORS = new RegExp(
+    String.fromCharCode(27) + '\\[[\\d;]*m',
+    'g'
+  );
+
+  /**
+   * Resolve one context variable.
+   */
+  export async function resolve(
+    key: string,
+    widget: Widget | null
+  ): Promise<string> {
+    const editor = widget ? getActiveEditor(widget) : null;
+    const notebook = widget instanceof NotebookPanel ? widget : null;
+
+    switch (key) {
+      case 'selection':
+        return editor ? getSelectedText(editor) : '';
+      case 'cell':
+        return editor ? editor.model.value.text : '';
+      case 'previous_cell': {
+        const index = notebook?.content.activeCellIndex ?? 0;
+        return notebook && index > 0
+          ? notebook.content.widgets[index - 1].model.value.text
+          : '';
+      }
+      case 'last_output':
+        return notebook ? getLastOutput(notebook) : '';
+      case 'notebook_path':
+        return widget instanceof DocumentWidget ? widget.context.path : '';
+      case 'kernel_language': {
+        const info = await getSessionContext(widget)?.session?.kernel?.info;
+        return info?.language_info.name ?? '';
+      }
+      case 'date':
+        return formatDate(new Date());
+      case 'clipboard':
+        return navigator.clipboard
+          ? navigator.clipboard.readText().catch(() => '')
+          : '';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Get the selected text of an editor.
+   */
+  export function getSelectedText(editor: CodeEditor.IEditor): string {
+    const selection = editor.getSelection();
+    const start = editor.getOffsetAt(selection.start);
+    const end = editor.getOffsetAt(selection.end);
+    return editor.model.value.text.slice(
+      Math.min(start, end),
+      Math.max(start, end)
+    );
+  }
+
+  /**
+   * Get the last output of the active cell, or of the code cell run last
+   * when the active cell has none, e.g. after Shift-Enter.
+   */
+  export function getLastOutput(notebook: NotebookPanel): string {
+    const cells = notebook.content.widgets.filter(
+      (cell): cell is CodeCell =>
+        cell instanceof CodeCell && cell.model.outputs.length !== 0
+    );
+    const active = notebook.content.activeCell;
+    let cell = cells.find((item) => item === active);
+    if (!cell) {
+      cell = cells.reduce<CodeCell | undefined>(
+        (last, item) =>
+          !last ||
+          (item.model.executionCount ?? 0) > (last.model.executionCount ?? 0)
+            ? item
+            : last,
+        undefined
+      );
+    }
+    if (!cell) {
+      return '';
+    }
+    const outputs = cell.model.outputs;
+    return getOutputText(outputs.get(outputs.length - 1).toJSON());
+  }
+
+  /**
+   * Format a date as `YYYY-MM-DD` in the local time zone.
+   */
+  export function formatDate(date: Date): string {
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+      date.getDate()
+    )}`;
+  }
+
+  /**
+   * Join a multiline string of a notebook output.
+   */
+  export function join(text: nbformat.MultilineString | undefined): string {
+    if (text === undefined) {
+      return '';
+    }
+    return Array.isArray(text) ? text.join('') : text;
+  }
+}
@@ -0,0 +1,88 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ICodeSnippet } from './CodeSnippetService';
+import { hasPlaceholders } from './CodeSnippetTemplate';
+
+/**
+ * The snippets a snippet requires, directly or through other snippets.
+ */
+export interface IDependencies {
+  // the required snippets, each after the snippets it requires
+  snippets: ICodeSnippet[];
+  // ids of the required snippets that do not exist
+  missing: string[];
+  // names of the snippets of a cycle, starting and ending with the same
+  // snippet, or null if there is none
+  cycle: string[] | null;
+}
+
+/**
+ * Resolve the snippets required by a snippet.
+ *
+ * @param snippets - the snippets that may be required. A snippet with the
+ * id of the resolved snippet is replaced by it, e.g. while it is edited.
+ */
+export function resolveDependencies(
+  snippet: ICodeSnippet,
+  snippets: ICodeSnippet[]
+): IDependencies {
+  const byId = new Map<string, ICodeSnippet>();
+  snippets.forEach((item) => byId.set(item.id, item));
+  byId.set(snippet.id, snippet);
+
+  const result: IDependencies = { snippets: [], missing: [], cycle: null };
+  const done = new Set<string>();
+  const path: ICodeSnippet[] = [];
+
+  const visit = (current: ICodeSnippet): void => {
+    const index = path.indexOf(current);
+    if (index !== -1) {
+      result.cycle = path
+        .slice(index)
+        .concat(current)
+        .map((item) => item.name);
+      return;
+    }
+    if (done.has(current.id)) {
+      return;
+    }
+    path.push(current);
+    for (const id of current.requires ?? []) {
+      const required = byId.get(id);
+      if (!required) {
+        if (!result.missing.includes(id)) {
+          result.missing.push(id);
+        }
+        continue;
+      }
+      visit(required);
+      if (result.cycle) {
+        return;
+      }
+    }
+    path.pop();
+    done.add(current.id);
+    if (current !== snippet) {
+      result.snippets.push(current);
+    }
+  };
+  visit(snippet);
+  return result;
+}
+
+/**
+ * Test whether the code of a snippet is already in a notebook or file: all
+ * its lines without placeholders are lines of the text, whatever their
+ * indentation.
+ */
+export function isSnippetPresent(snippet: ICodeSnippet, text: string): boolean {
+  const lines = new Set(text.split('\n').map((line) => line.trim()));
+  const snippetLines = snippet.code
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !hasPlaceholders(line));
+  return (
+    snippetLines.length !== 0 && snippetLines.every((line) => lines.has(line))
+  );
+}
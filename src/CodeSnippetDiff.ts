@@ -0,0 +1,101 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+/**
+ * A range of lines that are the same in two texts, or that differ. Ranges
+ * include their start and exclude their end.
+ */
+export interface IDiffHunk {
+  type: 'equal' | 'change';
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+/**
+ * A row of a side-by-side diff. A line missing on one side is null.
+ */
+export interface IDiffRow {
+  type: 'equal' | 'removed' | 'added' | 'changed';
+  oldLine: string | null;
+  newLine: string | null;
+}
+
+/**
+ * Compute the line diff of two texts, the lines they have in common being a
+ * longest common subsequence.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): IDiffHunk[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // length of the longest common subsequence of the line suffixes
+  const lengths: number[][] = [];
+  for (let i = n; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = m; j >= 0; j--) {
+      if (i === n || j === m) {
+        lengths[i][j] = 0;
+      } else if (oldLines[i] === newLines[j]) {
+        lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      } else {
+        lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+  }
+
+  const hunks: IDiffHunk[] = [];
+  const push = (type: IDiffHunk['type'], i: number, j: number): void => {
+    const last = hunks[hunks.length - 1];
+    if (last && last.type === type) {
+      last.oldEnd = i;
+      last.newEnd = j;
+    } else {
+      hunks.push({
+        type,
+        oldStart: last ? last.oldEnd : 0,
+        oldEnd: i,
+        newStart: last ? last.newEnd : 0,
+        newEnd: j,
+      });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      push('equal', ++i, ++j);
+    } else if (j === m || (i < n && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('change', ++i, j);
+    } else {
+      push('change', i, ++j);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Compute the rows of a side-by-side diff of two texts. The lines removed
+ * and added by a change are paired in order.
+ */
+export function sideBySide(oldText: string, newText: string): IDiffRow[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const rows: IDiffRow[] = [];
+  for (const hunk of diffLines(oldLines, newLines)) {
+    const removed = oldLines.slice(hunk.oldStart, hunk.oldEnd);
+    const added = newLines.slice(hunk.newStart, hunk.newEnd);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const oldLine = k < removed.length ? removed[k] : null;
+      const newLine = k < added.length ? added[k] : null;
+      let type: IDiffRow['type'] = 'equal';
+      if (hunk.type === 'change') {
+        type =
+          oldLine === null ? 'added' : newLine === null ? 'removed' : 'changed';
+      }
+      rows.push({ type, oldLine, newLine });
+    }
+  }
+  return rows;
+}
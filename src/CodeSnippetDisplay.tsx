@@ -18,16 +18,21 @@
 import {
   Clipboard,
   Dialog,
+  ISessionContext,
   InputDialog,
+  MainAreaWidget,
   showDialog,
 } from '@jupyterlab/apputils';
+import { ConsolePanel } from '@jupyterlab/console';
 import { PathExt } from '@jupyterlab/coreutils';
 import { DocumentWidget } from '@jupyterlab/docregistry';
 import { FileEditor } from '@jupyterlab/fileeditor';
-import { Notebook, NotebookPanel } from '@jupyterlab/notebook';
+import { ITerminal } from '@jupyterlab/terminal';
+import { Notebook, NotebookActions, NotebookPanel } from '@jupyterlab/notebook';
 import {
   LabIcon,
   addIcon,
+  downloadIcon,
   pythonIcon,
   fileIcon,
   rKernelIcon,
@@ -39,17 +44,79 @@ import { JupyterFrontEnd } from '@jupyterlab/application';
 import { CodeCellModel, MarkdownCell, CodeCell } from '@jupyterlab/cells';
 
 import { Widget } from '@lumino/widgets';
-import { find, StringExt } from '@lumino/algorithm';
+import { find } from '@lumino/algorithm';
 import { Drag } from '@lumino/dragdrop';
-import { MimeData, ReadonlyPartialJSONObject } from '@lumino/coreutils';
+import { MimeData, ReadonlyPartialJSONObject, UUID } from '@lumino/coreutils';
 
 import React from 'react';
-import { CodeSnippetService, ICodeSnippet } from './CodeSnippetService';
+import {
+  CodeSnippetService,
+  ICodeSnippet,
+  ICodeSnippetLibrary,
+  PERSONAL_LIBRARY_ID,
+} from './CodeSnippetService';
 import { FilterTools } from './CodeSnippetFilterTools';
 import { showPreview } from './CodeSnippetPreview';
 import { showMoreOptions } from './CodeSnippetMenu';
+import { exportSnippets } from './CodeSnippetExport';
+import { toBundledSnippet } from './CodeSnippetBundle';
+import {
+  IExpandedTemplate,
+  expandTemplateFields,
+  hasPlaceholders,
+} from './CodeSnippetTemplate';
+import { SnippetSession } from './CodeSnippetSession';
+import { askTemplateValues, fillTemplate } from './CodeSnippetTemplateDialog';
+import {
+  getActiveEditor,
+  getContextValues,
+  getSessionContext,
+  getWidgetText,
+} from './CodeSnippetContext';
+import {
+  isSnippetPresent,
+  resolveDependencies,
+} from './CodeSnippetDependencies';
+
+import {
+  fillCells,
+  insertCells,
+  isMultiCellSnippet,
+  toNotebookCells,
+} from './CodeSnippetCells';
+
+import {
+  IInsertionOptions,
+  askInsertionOptions,
+  getInsertionIndex,
+  getInsertionOptions,
+  insertIntoConsole,
+  insertTemplate,
+  sendToTerminal,
+} from './CodeSnippetInsertion';
+
+import {
+  getImportInsertion,
+  isImportLanguage,
+  missingImports,
+  splitImports,
+} from './CodeSnippetImports';
 
 import { CodeSnippetContentsService } from './CodeSnippetContentsService';
+import { getDaysLeft } from './CodeSnippetTrash';
+import { ISnippetQuery, matchesQuery } from './CodeSnippetQuery';
+import {
+  ITagFilter,
+  isEmptyTagFilter,
+  matchesTagFilter,
+} from './CodeSnippetTagFilter';
+import {
+  addSavedSearch,
+  getSavedQuery,
+  removeSavedSearch,
+} from './CodeSnippetSavedSearch';
+import { SORT_MODES, SortMode, sortSnippets } from './CodeSnippetSort';
+import { ISearchMatches, TextRange, searchSnippets } from './CodeSnippetSearch';
 
 import moreSVGstr from '../style/icon/jupyter_moreicon.svg';
 import {
@@ -91,13 +158,20 @@ import {
   qsharpIcon,
   sasIcon,
   powershellIcon,
+  promptIcon,
+  getLanguageTag,
+  isPromptSnippet,
+  isShellSnippet,
 } from './CodeSnippetLanguages';
 import { showMessage } from './CodeSnippetMessage';
+import { runPromptSnippet } from './CodeSnippetPromptPanel';
 
 /**
  * The CSS class added to code snippet widget.
  */
 const CODE_SNIPPETS_HEADER_CLASS = 'jp-codeSnippetsHeader';
+// the class of the terminal widgets of JupyterLab
+const TERMINAL_CLASS = 'jp-Terminal';
 const CODE_SNIPPET_TITLE = 'jp-codeSnippet-title';
 const CODE_SNIPPETS_CONTAINER = 'jp-codeSnippetsContainer';
 const DISPLAY_NAME_CLASS = 'jp-codeSnippetsContainer-name';
@@ -106,6 +180,9 @@ const TITLE_CLASS = 'jp-codeSnippetsContainer-title';
 const ACTION_BUTTONS_WRAPPER_CLASS = 'jp-codeSnippetsContainer-action-buttons';
 const ACTION_BUTTON_CLASS = 'jp-codeSnippetsContainer-actionButton';
 const SEARCH_BOLD = 'jp-codeSnippet-search-bolding';
+const SEARCH_MATCHES = 'jp-codeSnippet-search-matches';
+const SEARCH_MATCHES_TAG = 'jp-codeSnippet-search-matches-tag';
+const SEARCH_MATCHES_CODE = 'jp-codeSnippet-search-matches-code';
 const SNIPPET_DRAG_IMAGE = 'jp-codeSnippet-drag-image';
 const CODE_SNIPPET_DRAG_HOVER = 'jp-codeSnippet-drag-hover';
 const CODE_SNIPPET_DRAG_HOVER_SELECTED = 'jp-codeSnippet-drag-hover-selected';
@@ -116,11 +193,34 @@ const CODE_SNIPPET_MORE_OPTIONS = 'jp-codeSnippet-options';
 const CODE_SNIPPET_MORE_OTPIONS_CONTENT = 'jp-codeSnippet-more-options-content';
 const CODE_SNIPPET_MORE_OTPIONS_COPY = 'jp-codeSnippet-more-options-copy';
 const CODE_SNIPPET_MORE_OTPIONS_INSERT = 'jp-codeSnippet-more-options-insert';
+const CODE_SNIPPET_MORE_OTPIONS_INSERT_AS =
+  'jp-codeSnippet-more-options-insertAs';
+const CODE_SNIPPET_MORE_OTPIONS_RUN_PROMPT =
+  'jp-codeSnippet-more-options-runPrompt';
 const CODE_SNIPPET_MORE_OTPIONS_EDIT = 'jp-codeSnippet-more-options-edit';
 const CODE_SNIPPET_MORE_OTPIONS_DELETE = 'jp-codeSnippet-more-options-delete';
 const CODE_SNIPPET_MORE_OTPIONS_EXPORT = 'jp-codeSnippet-more-options-export';
+const CODE_SNIPPET_MORE_OTPIONS_COPY_TO_LIBRARY =
+  'jp-codeSnippet-more-options-copyToLibrary';
+const CODE_SNIPPET_MORE_OTPIONS_MOVE_TO_LIBRARY =
+  'jp-codeSnippet-more-options-moveToLibrary';
+const CODE_SNIPPET_LIBRARY_SELECT = 'jp-codeSnippet-library-select';
+const CODE_SNIPPET_LIBRARY_HEADER = 'jp-codeSnippet-library-header';
+const CODE_SNIPPET_LIBRARY_READONLY = 'jp-codeSnippet-library-readOnly';
 const CODE_SNIPPET_CREATE_NEW_BTN = 'jp-createSnippetBtn';
+const CODE_SNIPPET_HEADER_BUTTONS = 'jp-codeSnippet-header-buttons';
+const CODE_SNIPPET_SELECTED = 'jp-codeSnippet-item-selected';
 const CODE_SNIPPET_NAME = 'jp-codeSnippet-name';
+const CODE_SNIPPET_TRASH = 'jp-codeSnippet-trash';
+const CODE_SNIPPET_TRASH_HEADER = 'jp-codeSnippet-trash-header';
+const CODE_SNIPPET_TRASH_ITEM = 'jp-codeSnippet-trash-item';
+const CODE_SNIPPET_TRASH_DATE = 'jp-codeSnippet-trash-date';
+const CODE_SNIPPET_SORT_SELECT = 'jp-codeSnippet-sort-select';
+const CODE_SNIPPET_SEARCHES = 'jp-codeSnippet-searches';
+const CODE_SNIPPET_SEARCH_HEADER = 'jp-codeSnippet-search-header';
+const CODE_SNIPPET_SEARCH_COUNT = 'jp-codeSnippet-search-count';
+const CODE_SNIPPET_SEARCH_ITEM = 'jp-codeSnippet-search-item';
+const CODE_SNIPPET_UNDO = 'jp-codeSnippet-undo';
 const OPTIONS_BODY = 'jp-codeSnippet-options-body';
 
 /**
@@ -163,10 +263,30 @@ interface ICodeSnippetDisplayProps {
  * CodeSnippetDisplay state.
  */
 interface ICodeSnippetDisplayState {
-  searchValue: string;
-  filterTags: string[];
-  selectedLangTags: string[];
+  query: ISnippetQuery;
+  tagFilter: ITagFilter;
   searchOptions: string[];
+  // id of the library to show, empty for all libraries
+  library: string;
+  // ids of the snippets selected with Ctrl/Cmd or Shift click
+  selectedIds: string[];
+  // whether the deleted snippets are shown
+  trashOpen: boolean;
+  // names of the expanded smart folders
+  openSearches: string[];
+}
+
+/**
+ * The imports taken out of a snippet to be added to the imports of a
+ * notebook cell or file.
+ */
+interface IHoistedImports {
+  // the code of the snippet without its imports
+  code: string;
+  // the imports that are not in the notebook or file yet
+  imports: string[];
+  // the model of the import cell or of the file
+  model: CodeEditor.IModel;
 }
 
 /**
@@ -181,10 +301,13 @@ export class CodeSnippetDisplay extends React.Component<
   constructor(props: ICodeSnippetDisplayProps) {
     super(props);
     this.state = {
-      searchValue: '',
-      filterTags: [],
-      selectedLangTags: [],
+      query: { text: '', filters: [] },
+      tagFilter: { tags: [], excludedTags: [], languages: [], mode: 'any' },
       searchOptions: [],
+      library: '',
+      selectedIds: [],
+      trashOpen: false,
+      openSearches: [],
     };
     this._drag = null;
     this._dragData = null;
@@ -196,104 +319,33 @@ export class CodeSnippetDisplay extends React.Component<
 
   filterSnippets = (
     codeSnippets: ICodeSnippet[],
-    searchValue: string,
-    filterTags: string[],
-    selectedLangTags: string[]
+    query: ISnippetQuery,
+    tagFilter: ITagFilter
   ): {
     filteredCodeSnippets: ICodeSnippet[];
-    matchedIndices: { [id: number]: number[] };
+    matchedIndices: { [id: string]: ISearchMatches };
   } => {
-    // filter with search
-    let filteredSnippets = codeSnippets.slice();
-    const matchedIndices: { [id: number]: number[] } = {};
-
-    if (searchValue !== '') {
-      const matchResults: StringExt.IMatchResult[] = [];
-      const filteredSnippetsScore: {
-        score: number;
-        snippet: ICodeSnippet;
-      }[] = [];
-
-      // language, title, code
-      filteredSnippets.forEach((snippet) => {
-        const matchResult = StringExt.matchSumOfSquares(
-          (snippet.language + snippet.name + snippet.code).toLowerCase(),
-          searchValue.replace(' ', '').toLowerCase()
-        );
-        if (matchResult) {
-          matchResults.push(matchResult);
-          filteredSnippetsScore.push({
-            score: matchResult.score,
-            snippet: snippet,
-          });
-        }
-      });
-
-      // sort snippets by its score
-      filteredSnippetsScore.sort((a, b) => a.score - b.score);
-      const newFilteredSnippets: ICodeSnippet[] = [];
-      filteredSnippetsScore.forEach((snippetScore) =>
-        newFilteredSnippets.push(snippetScore.snippet)
-      );
-      filteredSnippets = newFilteredSnippets;
-
-      // sort the matchResults by its score
-      matchResults.sort((a, b) => a.score - b.score);
-
-      matchResults.forEach((res, id) => {
-        matchedIndices[filteredSnippets[id].id] = res.indices;
-      });
-    }
-
-    // filter with tags
-    if (filterTags.length !== 0) {
-      filteredSnippets = filteredSnippets.filter((codeSnippet) => {
-        return filterTags.some((filterTag) => {
-          if (codeSnippet.tags) {
-            if (selectedLangTags.length !== 0) {
-              // lang tags selected
-              if (
-                codeSnippet.tags.includes(filterTag) &&
-                selectedLangTags.includes(codeSnippet.language)
-              ) {
-                return true;
-              }
-              //if only language tags are selected
-              else if (
-                filterTags.length === selectedLangTags.length &&
-                filterTags.every((value) => selectedLangTags.includes(value))
-              ) {
-                if (selectedLangTags.includes(codeSnippet.language)) {
-                  return true;
-                }
-              }
-            } else {
-              // no lang tags selected
-              if (codeSnippet.tags.includes(filterTag)) {
-                return true;
-              }
-            }
-          }
-          return false;
-        });
+    // filter with tags and the qualifiers of the search
+    let filteredSnippets = codeSnippets.filter(
+      (codeSnippet) =>
+        (isEmptyTagFilter(tagFilter) ||
+          matchesTagFilter(
+            codeSnippet,
+            tagFilter,
+            getLanguageTag(codeSnippet)
+          )) &&
+        matchesQuery(codeSnippet, query, getLanguageTag(codeSnippet))
+    );
+    const matchedIndices: { [id: string]: ISearchMatches } = {};
+
+    // filter with the text of the search, sorting by relevance
+    if (query.text.trim() !== '') {
+      const results = searchSnippets(filteredSnippets, query.text);
+      filteredSnippets = results.map((result) => result.snippet);
+      results.forEach((result) => {
+        matchedIndices[result.snippet.id] = result.matches;
       });
     }
-    // find id's that are not in filteredSnippets
-    const willBeRemovedIds = [];
-    for (const key in matchedIndices) {
-      let hasKey = false;
-      for (const codeSnippet of filteredSnippets) {
-        if (codeSnippet.id === parseInt(key)) {
-          hasKey = true;
-        }
-      }
-      if (hasKey === false) {
-        willBeRemovedIds.push(parseInt(key));
-      }
-    }
-
-    // if the snippet does not have the tag, remove its mathed index
-    willBeRemovedIds.forEach((id: number) => delete matchedIndices[id]);
 
     return {
       filteredCodeSnippets: filteredSnippets,
@@ -301,10 +353,63 @@ export class CodeSnippetDisplay extends React.Component<
     };
   };
 
-  // Handle code snippet insert into a notebook or document
-  private insertCodeSnippet = async (snippet: ICodeSnippet): Promise<void> => {
+  // Handle code snippet insert into a notebook or document. The insertion
+  // options only apply to notebooks, where multi-cell snippets are always
+  // inserted as new cells, below the active cell unless told otherwise.
+  private insertCodeSnippet = async (
+    snippet: ICodeSnippet,
+    options: IInsertionOptions = getInsertionOptions()
+  ): Promise<void> => {
     const widget: Widget = this.props.getCurrentWidget();
 
+    if (!(await this.insertRequiredSnippets(widget, snippet))) {
+      return;
+    }
+
+    // the imports hoisted are only added once the rest of the snippet is
+    // inserted
+    const hoisted = await this.hoistImports(widget, snippet, options);
+    if (hoisted) {
+      snippet = { ...snippet, code: hoisted.code };
+    }
+
+    if (
+      widget instanceof NotebookPanel &&
+      (isMultiCellSnippet(snippet) || options.mode !== 'replace')
+    ) {
+      return this.insertSnippetCells(widget, snippet, options, hoisted);
+    }
+
+    // fill the context variables and ask for the values of the other
+    // placeholders before inserting
+    const context = await getContextValues(widget, snippet.code);
+    const template = await fillTemplate(
+      snippet,
+      context,
+      'Insert',
+      getSessionContext(widget)
+    );
+    if (
+      template === null ||
+      !(await this.insertIntoWidget(widget, snippet, template, options.run))
+    ) {
+      return;
+    }
+    if (hoisted) {
+      this.addImports(hoisted, snippet.language);
+    }
+    this.recordUsage(snippet);
+  };
+
+  // Insert a filled template in place of the selection of a file editor or
+  // notebook cell, or in a console or terminal. Returns false if nothing was
+  // inserted.
+  private async insertIntoWidget(
+    widget: Widget,
+    snippet: ICodeSnippet,
+    template: IExpandedTemplate,
+    run: boolean
+  ): Promise<boolean> {
     if (
       widget instanceof DocumentWidget &&
       (widget as DocumentWidget).content instanceof FileEditor
@@ -319,61 +424,415 @@ export class CodeSnippetDisplay extends React.Component<
         null
       ) {
         // Wrap snippet into a code block when inserting it into a markdown file
-        fileEditor.replaceSelection(
-          '```' + snippet.language + '\n' + snippet.code + '\n```'
+        insertTemplate(
+          fileEditor,
+          template,
+          '```' + snippet.language + '\n',
+          '\n```'
         );
       } else if (documentWidget.constructor.name === 'PythonFileEditor') {
-        this.verifyLanguageAndInsert(snippet, 'python', fileEditor);
+        return this.verifyLanguageAndInsert(
+          snippet,
+          template,
+          'python',
+          fileEditor
+        );
       } else {
-        fileEditor.replaceSelection(snippet.code);
+        insertTemplate(fileEditor, template);
       }
+      return true;
     } else if (widget instanceof NotebookPanel) {
       const notebookWidget = widget as NotebookPanel;
       const notebookCell = (notebookWidget.content as Notebook).activeCell;
       // editor
       const notebookCellEditor = notebookCell.editor;
 
-      if (notebookCell instanceof CodeCell) {
-        const kernelInfo = await notebookWidget.sessionContext.session?.kernel
-          ?.info;
-        const kernelLanguage: string = kernelInfo?.language_info.name || '';
-        this.verifyLanguageAndInsert(
+      if (notebookCell instanceof CodeCell && !isPromptSnippet(snippet)) {
+        return this.verifyLanguageAndInsert(
           snippet,
-          kernelLanguage,
+          template,
+          await this.getKernelLanguage(notebookWidget.sessionContext),
           notebookCellEditor
         );
       } else if (notebookCell instanceof MarkdownCell) {
         // Wrap snippet into a code block when inserting it into a markdown cell
-        notebookCellEditor.replaceSelection(
-          '```' + snippet.language + '\n' + snippet.code + '\n```'
+        insertTemplate(
+          notebookCellEditor,
+          template,
+          '```' + snippet.language + '\n',
+          '\n```'
         );
       } else {
-        notebookCellEditor.replaceSelection(snippet.code);
+        insertTemplate(notebookCellEditor, template);
       }
+      return true;
+    } else if (widget instanceof ConsolePanel) {
+      return this.insertConsoleSnippet(widget, snippet, template, run);
+    } else if (
+      widget instanceof MainAreaWidget &&
+      widget.content.hasClass(TERMINAL_CLASS)
+    ) {
+      return this.sendTerminalSnippet(
+        widget.content as ITerminal.ITerminal,
+        snippet,
+        template.text,
+        run
+      );
+    }
+    this.showErrDialog('Code snippet insert failed: Unsupported widget');
+    return false;
+  }
+
+  // Count an insertion of a snippet, for the sort modes by use
+  private recordUsage(snippet: ICodeSnippet): void {
+    this.props.codeSnippetManager
+      .recordUsage(snippet.id)
+      .then((res: boolean) => {
+        if (!res) {
+          console.log('Error in recording the use of the snippet');
+        }
+      });
+  }
+
+  // Insert a snippet as new cells, one per cell of a multi-cell snippet,
+  // with their placeholders filled with the same values, then run them if
+  // asked to
+  private async insertSnippetCells(
+    notebookWidget: NotebookPanel,
+    snippet: ICodeSnippet,
+    options: IInsertionOptions,
+    hoisted: IHoistedImports | null = null
+  ): Promise<void> {
+    const context = await getContextValues(notebookWidget, snippet.code);
+    const values = await askTemplateValues(
+      snippet,
+      context,
+      'Insert',
+      getSessionContext(notebookWidget)
+    );
+    if (
+      values === null ||
+      (!isPromptSnippet(snippet) &&
+        !(await this.confirmLanguage(
+          snippet,
+          await this.getKernelLanguage(notebookWidget.sessionContext)
+        )))
+    ) {
+      return;
+    }
+    if (hoisted && snippet.code.trim() === '') {
+      // the snippet was only imports
+      this.addImports(hoisted, snippet.language);
+      this.recordUsage(snippet);
+      return;
+    }
+
+    const notebook = notebookWidget.content;
+    const mode = options.mode === 'replace' ? 'below' : options.mode;
+    if (isMultiCellSnippet(snippet)) {
+      insertCells(
+        notebook,
+        fillCells(snippet.cells, values),
+        getInsertionIndex(notebook, mode)
+      );
     } else {
-      this.showErrDialog('Code snippet insert failed: Unsupported widget');
+      // a single new cell, whose numbered placeholders get a session
+      const template = hasPlaceholders(snippet.code)
+        ? expandTemplateFields(snippet.code, values)
+        : { text: snippet.code, fields: [] };
+      insertCells(
+        notebook,
+        [
+          {
+            cell_type: isPromptSnippet(snippet) ? 'markdown' : 'code',
+            source: template.text,
+          },
+        ],
+        getInsertionIndex(notebook, mode)
+      );
+      const editor = notebook.activeCell?.editor;
+      if (editor && !options.run) {
+        SnippetSession.start(editor, 0, template.fields);
+      }
+    }
+    if (hoisted) {
+      this.addImports(hoisted, snippet.language);
+    }
+    this.recordUsage(snippet);
+
+    if (options.run) {
+      await NotebookActions.run(notebook, notebookWidget.sessionContext);
+    }
+  }
+
+  // Offer to insert first the snippets required by a snippet that are not in
+  // the notebook, console or file yet. Returns false if the insertion of the
+  // snippet is cancelled.
+  private async insertRequiredSnippets(
+    widget: Widget,
+    snippet: ICodeSnippet
+  ): Promise<boolean> {
+    const text = getWidgetText(widget);
+    if (!snippet.requires || snippet.requires.length === 0 || text === null) {
+      return true;
+    }
+
+    const dependencies = resolveDependencies(
+      snippet,
+      this.props.codeSnippetManager.snippets
+    );
+    if (dependencies.cycle) {
+      await showDialog({
+        title: 'Snippet Dependency Cycle',
+        body:
+          'The required snippets form a cycle: ' +
+          dependencies.cycle.join(' → ') +
+          '. Remove one of the requirements in the code snippet editor.',
+        buttons: [Dialog.okButton()],
+      });
+      return false;
+    }
+    const missing = dependencies.snippets.filter(
+      (required) => !isSnippetPresent(required, text)
+    );
+    if (missing.length === 0) {
+      return true;
+    }
+
+    const result = await showDialog({
+      title: `Insert "${snippet.name}"`,
+      body:
+        `"${snippet.name}" requires ` +
+        missing.map((required) => `"${required.name}"`).join(', ') +
+        ', not found here. Insert ' +
+        (missing.length === 1 ? 'it' : 'them') +
+        ' first?',
+      buttons: [
+        Dialog.cancelButton(),
+        Dialog.createButton({ label: 'Skip' }),
+        Dialog.okButton({ label: 'Insert' }),
+      ],
+    });
+    if (!result.button.accept) {
+      return false;
+    }
+    if (result.button.label === 'Insert') {
+      for (const required of missing) {
+        if (!(await this.insertRequiredSnippet(widget, required))) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  // Insert a required snippet: in notebooks as new cells above the active
+  // cell, which stays active, elsewhere at the cursor on its own lines
+  private async insertRequiredSnippet(
+    widget: Widget,
+    snippet: ICodeSnippet
+  ): Promise<boolean> {
+    const context = await getContextValues(widget, snippet.code);
+    const values = await askTemplateValues(
+      snippet,
+      context,
+      'Insert',
+      getSessionContext(widget)
+    );
+    if (values === null) {
+      return false;
+    }
+
+    if (widget instanceof NotebookPanel) {
+      const notebook = widget.content;
+      const cells = isMultiCellSnippet(snippet)
+        ? fillCells(snippet.cells, values)
+        : fillCells(
+            [
+              {
+                cell_type: isPromptSnippet(snippet) ? 'markdown' : 'code',
+                source: snippet.code,
+              },
+            ],
+            values
+          );
+      const index = getInsertionIndex(notebook, 'above');
+      insertCells(notebook, cells, index);
+      notebook.deselectAll();
+      notebook.activeCellIndex = index + cells.length;
+      return true;
+    }
+
+    const editor = getActiveEditor(widget);
+    if (editor) {
+      const text = hasPlaceholders(snippet.code)
+        ? expandTemplateFields(snippet.code, values).text
+        : snippet.code;
+      editor.replaceSelection(text + '\n');
+    }
+    return true;
+  }
+
+  // Take the imports out of a Python or R snippet when the imports are
+  // hoisted into the first import cell of the notebook, or the top of the
+  // file. The imports that are already there are left out.
+  private async hoistImports(
+    widget: Widget,
+    snippet: ICodeSnippet,
+    options: IInsertionOptions
+  ): Promise<IHoistedImports | null> {
+    const language = snippet.language;
+    if (
+      !this.props.codeSnippetManager.settings.get('hoistImports').composite ||
+      isPromptSnippet(snippet) ||
+      isMultiCellSnippet(snippet) ||
+      !isImportLanguage(language)
+    ) {
+      return null;
+    }
+
+    let model: CodeEditor.IModel;
+    let existing: string;
+    if (widget instanceof NotebookPanel) {
+      const notebook = widget.content;
+      const kernelLanguage = await this.getKernelLanguage(
+        widget.sessionContext
+      );
+      if (
+        (kernelLanguage &&
+          kernelLanguage.toLowerCase() !== language.toLowerCase()) ||
+        (options.mode === 'replace' &&
+          !(notebook.activeCell instanceof CodeCell))
+      ) {
+        return null;
+      }
+      const codeCells = notebook.widgets.filter(
+        (cell) => cell.model.type === 'code'
+      );
+      const importCell = codeCells.find(
+        (cell) =>
+          splitImports(cell.model.value.text, language).imports.length !== 0
+      );
+      if (!importCell) {
+        return null;
+      }
+      model = importCell.model;
+      existing = codeCells.map((cell) => cell.model.value.text).join('\n');
+    } else if (
+      widget instanceof DocumentWidget &&
+      widget.content instanceof FileEditor
+    ) {
+      const extension = PathExt.extname(widget.context.path).toLowerCase();
+      if (extension !== (language.toLowerCase() === 'r' ? '.r' : '.py')) {
+        return null;
+      }
+      model = widget.content.model;
+      existing = model.value.text;
+    } else {
+      return null;
     }
-  };
 
-  // Handle language compatibility between code snippet and editor
+    const split = splitImports(snippet.code, language);
+    // imports with placeholders are filled with the rest of the snippet
+    if (
+      split.imports.length === 0 ||
+      split.imports.some((statement) => hasPlaceholders(statement))
+    ) {
+      return null;
+    }
+    return {
+      code: split.code,
+      imports: missingImports(split.imports, existing, language),
+      model: model,
+    };
+  }
+
+  // Add the hoisted imports of a snippet after the imports of their cell or
+  // file
+  private addImports(hoisted: IHoistedImports, language: string): void {
+    const value = hoisted.model.value;
+    const insertion = getImportInsertion(value.text, hoisted.imports, language);
+    if (insertion) {
+      value.insert(insertion.offset, insertion.text);
+    }
+  }
+
+  // Insert a snippet in the prompt cell of a console, and run it if asked to
+  private async insertConsoleSnippet(
+    consolePanel: ConsolePanel,
+    snippet: ICodeSnippet,
+    template: IExpandedTemplate,
+    run: boolean
+  ): Promise<boolean> {
+    if (
+      !consolePanel.console.promptCell ||
+      !(await this.confirmLanguage(
+        snippet,
+        await this.getKernelLanguage(consolePanel.sessionContext)
+      ))
+    ) {
+      return false;
+    }
+    return insertIntoConsole(consolePanel.console, template, run);
+  }
+
+  // Send a snippet to a terminal, warning first if it is not a shell snippet
+  private async sendTerminalSnippet(
+    terminal: ITerminal.ITerminal,
+    snippet: ICodeSnippet,
+    text: string,
+    run: boolean
+  ): Promise<boolean> {
+    if (!isShellSnippet(snippet)) {
+      const result = await this.showWarnDialog('the terminal', snippet.name);
+      if (!result.button.accept) {
+        return false;
+      }
+    }
+    sendToTerminal(terminal, text, run);
+    return true;
+  }
+
+  // Handle language compatibility between code snippet and editor. Returns
+  // false if the insertion was cancelled.
   private verifyLanguageAndInsert = async (
     snippet: ICodeSnippet,
+    template: IExpandedTemplate,
     editorLanguage: string,
     editor: CodeEditor.IEditor
-  ): Promise<void> => {
+  ): Promise<boolean> => {
+    if (!(await this.confirmLanguage(snippet, editorLanguage))) {
+      return false;
+    }
+    insertTemplate(editor, template);
+    return true;
+  };
+
+  // Ask whether to go on when the language of a snippet is not the language
+  // of the editor or kernel, if it is known
+  private async confirmLanguage(
+    snippet: ICodeSnippet,
+    editorLanguage: string
+  ): Promise<boolean> {
     if (
       editorLanguage &&
       snippet.language.toLowerCase() !== editorLanguage.toLowerCase()
     ) {
       const result = await this.showWarnDialog(editorLanguage, snippet.name);
-      if (result.button.accept) {
-        editor.replaceSelection(snippet.code);
-      }
-    } else {
-      // Language match or editorLanguage is unavailable
-      editor.replaceSelection(snippet.code);
+      return result.button.accept;
     }
-  };
+    // Language match or editorLanguage is unavailable
+    return true;
+  }
+
+  // Get the language of the kernel of a notebook or console, or an empty
+  // string if there is no kernel
+  private async getKernelLanguage(
+    sessionContext: ISessionContext
+  ): Promise<string> {
+    const kernelInfo = await sessionContext.session?.kernel?.info;
+    return kernelInfo?.language_info.name || '';
+  }
 
   // Display warning dialog when inserting a code snippet incompatible with editor's language
   private showWarnDialog = async (
@@ -402,7 +861,7 @@ export class CodeSnippetDisplay extends React.Component<
   };
 
   // Create 6 dots drag/drop image on hover
-  private dragHoverStyle = (id: number): void => {
+  private dragHoverStyle = (id: string): void => {
     document
       .querySelector(`#${CODE_SNIPPET_DRAG_HOVER}${id}`)
       .classList // .getElementsByClassName(CODE_SNIPPET_DRAG_HOVER)
@@ -411,7 +870,7 @@ export class CodeSnippetDisplay extends React.Component<
   };
 
   // Remove 6 dots off hover
-  private dragHoverStyleRemove = (id: number): void => {
+  private dragHoverStyleRemove = (id: string): void => {
     if (document.getElementsByClassName(CODE_SNIPPET_DRAG_HOVER_SELECTED)) {
       document
         .querySelector(`#${CODE_SNIPPET_DRAG_HOVER}${id}`)
@@ -419,107 +878,105 @@ export class CodeSnippetDisplay extends React.Component<
     }
   };
 
+  // Mark the matches of the search in a text
+  private highlightMatches(
+    id: string,
+    text: string,
+    ranges: TextRange[]
+  ): (string | JSX.Element)[] {
+    const elements: (string | JSX.Element)[] = [];
+    let end = 0;
+    for (const [start, rangeEnd] of ranges) {
+      elements.push(text.substring(end, start));
+      elements.push(
+        <mark key={id + '_' + start} className={SEARCH_BOLD}>
+          {text.substring(start, rangeEnd)}
+        </mark>
+      );
+      end = rangeEnd;
+    }
+    elements.push(text.substring(end));
+    return elements;
+  }
+
   // Bold text in snippet name based on search
   private boldNameOnSearch = (
-    id: number,
-    language: string,
+    id: string,
     name: string,
-    matchedIndices: number[]
+    matches: ISearchMatches | undefined
   ): JSX.Element => {
-    const displayName = language + name;
-
-    // check if the searchValue is not ''
-    if (this.state.searchValue !== '') {
-      const elements = [];
-      if (matchedIndices) {
-        // get first match index in the name
-        let i = 0;
-        while (i < matchedIndices.length) {
-          if (matchedIndices[i] >= language.length) {
-            elements.push(
-              displayName.substring(language.length, matchedIndices[i])
-            );
-            break;
-          }
-          i++;
-        }
-
-        // when there is no match in name but language
-        if (i >= matchedIndices.length) {
-          return <span>{name}</span>;
-        } else {
-          // current and next indices are bold indices
-          let currIndex = matchedIndices[i];
-          let nextIndex;
-          // check if the match is the end of the name
-          if (i < matchedIndices.length - 1) {
-            i++;
-            nextIndex = matchedIndices[i];
-          } else {
-            nextIndex = null;
-          }
-          while (nextIndex !== null) {
-            // make the current index bold
-            elements.push(
-              <mark key={id + '_' + currIndex} className={SEARCH_BOLD}>
-                {displayName.substring(currIndex, currIndex + 1)}
-              </mark>
-            );
-            // add the regular string until we reach the next bold index
-            elements.push(displayName.substring(currIndex + 1, nextIndex));
-            currIndex = nextIndex;
-            if (i < matchedIndices.length - 1) {
-              i++;
-              nextIndex = matchedIndices[i];
-            } else {
-              nextIndex = null;
-            }
-          }
-          if (nextIndex === null) {
-            elements.push(
-              <mark key={id + '_' + currIndex} className={SEARCH_BOLD}>
-                {displayName.substring(currIndex, currIndex + 1)}
-              </mark>
-            );
-            elements.push(
-              displayName.substring(currIndex + 1, displayName.length)
-            );
-          }
-          return <span>{elements}</span>;
-        }
-      }
-    }
     return (
       <span
         title={'Double click to rename'}
         className={CODE_SNIPPET_NAME}
-        onDoubleClick={this.handleRenameSnippet}
+        onDoubleClick={(event): Promise<void> =>
+          this.handleRenameSnippet(event, id)
+        }
       >
-        {name}
+        {matches ? this.highlightMatches(id, name, matches.name) : name}
       </span>
     );
   };
 
+  // Show the tags and the line of code matching the search
+  private renderSearchMatches(
+    id: string,
+    matches: ISearchMatches | undefined
+  ): JSX.Element {
+    if (!matches || (matches.tags.length === 0 && !matches.code)) {
+      return null;
+    }
+    return (
+      <div className={SEARCH_MATCHES}>
+        {matches.tags.map((match) => (
+          <span key={match.tag} className={SEARCH_MATCHES_TAG}>
+            {this.highlightMatches(
+              id + '_' + match.tag,
+              match.tag,
+              match.ranges
+            )}
+          </span>
+        ))}
+        {matches.code && (
+          <code className={SEARCH_MATCHES_CODE}>
+            {this.highlightMatches(
+              id + '_code',
+              matches.code.line,
+              matches.code.ranges
+            )}
+          </code>
+        )}
+      </div>
+    );
+  }
+
   // rename snippet on double click
   private async handleRenameSnippet(
-    event: React.MouseEvent<HTMLSpanElement, MouseEvent>
+    event: React.MouseEvent<HTMLSpanElement, MouseEvent>,
+    id: string
   ): Promise<void> {
-    const target = event.target as HTMLElement;
-    const oldName = target.innerHTML;
+    // the name may hold the highlighted matches of the search
+    const target = event.currentTarget;
+
+    // snippets of read-only libraries cannot be renamed
+    const snippet = this.props.codeSnippetManager.getSnippetById(id);
+    if (!snippet || this.props.codeSnippetManager.isReadOnly(snippet)) {
+      return;
+    }
+    const oldName = snippet.name;
 
     const new_element = document.createElement('input');
     new_element.setAttribute('type', 'text');
     new_element.id = 'jp-codeSnippet-rename';
-    new_element.innerHTML = target.innerHTML;
 
     target.replaceWith(new_element);
-    new_element.value = target.innerHTML;
+    new_element.value = oldName;
 
     new_element.focus();
     new_element.setSelectionRange(0, new_element.value.length);
 
     new_element.onblur = async (): Promise<void> => {
-      if (target.innerHTML !== new_element.value) {
+      if (oldName !== new_element.value) {
         const newName = new_element.value;
 
         const isDuplicateName =
@@ -533,10 +990,10 @@ export class CodeSnippetDisplay extends React.Component<
           });
         } else {
           this.props.codeSnippetManager
-            .renameSnippet(oldName, newName)
+            .renameSnippet(id, newName)
             .then(async (res: boolean) => {
               if (res) {
-                target.innerHTML = new_element.value;
+                target.textContent = new_element.value;
               } else {
                 console.log('Error in renaming snippet!');
               }
@@ -641,12 +1098,12 @@ export class CodeSnippetDisplay extends React.Component<
         event.clientY
       )
     ) {
-      const idx = (event.target as HTMLElement).id.slice(
+      const id = (event.target as HTMLElement).id.slice(
         CODE_SNIPPET_DRAG_HOVER.length
       );
 
       const codeSnippet = this.props.codeSnippets.filter(
-        (codeSnippet) => codeSnippet.id === parseInt(idx)
+        (codeSnippet) => codeSnippet.id === id
       )[0];
 
       void this.startDrag(
@@ -686,11 +1143,14 @@ export class CodeSnippetDisplay extends React.Component<
   ): Promise<void> {
     const target = event.target as HTMLElement;
 
-    const model = new CodeCellModel({});
-    model.value.text = codeSnippet.code;
-    model.metadata;
-
-    const selected: nbformat.ICell[] = [model.toJSON()];
+    let selected: nbformat.ICell[];
+    if (isMultiCellSnippet(codeSnippet)) {
+      selected = toNotebookCells(codeSnippet.cells);
+    } else {
+      const model = new CodeCellModel({});
+      model.value.text = codeSnippet.code;
+      selected = [model.toJSON()];
+    }
 
     this._drag = new Drag({
       mimeData: new MimeData(),
@@ -708,10 +1168,75 @@ export class CodeSnippetDisplay extends React.Component<
     target.removeEventListener('mousemove', this.handleDragMove, true);
     target.removeEventListener('mouseup', this._evtMouseUp, true);
 
-    return this._drag.start(clientX, clientY).then(() => {
+    return this._drag.start(clientX, clientY).then((action) => {
       this.dragHoverStyleRemove(codeSnippet.id);
       this._drag = null;
       this._dragData = null;
+
+      if (action === 'copy') {
+        this.recordUsage(codeSnippet);
+      }
+
+      if (action === 'copy' && hasPlaceholders(codeSnippet.code)) {
+        if (isMultiCellSnippet(codeSnippet)) {
+          void this.fillDroppedCells(codeSnippet);
+        } else {
+          void this.fillDroppedSnippet(codeSnippet);
+        }
+      }
+    });
+  }
+
+  // Fill in the placeholders of a snippet dropped into the current widget
+  private async fillDroppedSnippet(snippet: ICodeSnippet): Promise<void> {
+    const widget = this.props.getCurrentWidget();
+    const editor = getActiveEditor(widget);
+    if (!editor) {
+      return;
+    }
+
+    const context = await getContextValues(widget, snippet.code);
+    const template = await fillTemplate(
+      snippet,
+      context,
+      'Insert',
+      getSessionContext(widget)
+    );
+    const value = editor.model.value;
+    const start = value.text.indexOf(snippet.code);
+    if (template === null || start === -1) {
+      return;
+    }
+    value.remove(start, start + snippet.code.length);
+    value.insert(start, template.text);
+    SnippetSession.start(editor, start, template.fields);
+  }
+
+  // Fill in the placeholders of the cells of a snippet dropped into the
+  // current notebook, which makes the first dropped cell active
+  private async fillDroppedCells(snippet: ICodeSnippet): Promise<void> {
+    const widget = this.props.getCurrentWidget();
+    if (!(widget instanceof NotebookPanel)) {
+      return;
+    }
+
+    const context = await getContextValues(widget, snippet.code);
+    const values = await askTemplateValues(
+      snippet,
+      context,
+      'Insert',
+      getSessionContext(widget)
+    );
+    if (values === null) {
+      return;
+    }
+    const cells = widget.content.model.cells;
+    const start = widget.content.activeCellIndex;
+    fillCells(snippet.cells, values).forEach((cell, i) => {
+      const model = start + i < cells.length ? cells.get(start + i) : null;
+      if (model && model.value.text === snippet.cells[i].source) {
+        model.value.text = cell.source;
+      }
     });
   }
 
@@ -725,7 +1250,7 @@ export class CodeSnippetDisplay extends React.Component<
   }
 
   //Set the position of the preview to be next to the snippet title.
-  private _setPreviewPosition(id: number): void {
+  private _setPreviewPosition(id: string): void {
     const realTarget = document.querySelector(`#${TITLE_CLASS}${id}`);
     const newTarget = document.querySelector(`#${CODE_SNIPPET_ITEM}${id}`);
     // (CODE_SNIPPET_ITEM)[id];
@@ -771,6 +1296,19 @@ export class CodeSnippetDisplay extends React.Component<
     );
   }
 
+  private renderPromptIcon(): JSX.Element {
+    return (
+      <promptIcon.react
+        tag="span"
+        height="16px"
+        width="16px"
+        right="7px"
+        top="5px"
+        margin-right="3px"
+      />
+    );
+  }
+
   private renderLanguageIcon(language: string): JSX.Element {
     switch (language) {
       case 'Python': {
@@ -1295,11 +1833,12 @@ export class CodeSnippetDisplay extends React.Component<
   // Render display of code snippet list
   private renderCodeSnippet = (
     codeSnippet: ICodeSnippet,
-    matchedIndices: number[]
+    matches?: ISearchMatches
   ): JSX.Element => {
     const id = codeSnippet.id;
     const buttonClasses = BUTTON_CLASS;
-    const displayName = '[' + codeSnippet.language + '] ' + codeSnippet.name;
+    const displayName =
+      '[' + getLanguageTag(codeSnippet) + '] ' + codeSnippet.name;
     const name = codeSnippet.name;
     const language = codeSnippet.language;
 
@@ -1317,10 +1856,17 @@ export class CodeSnippetDisplay extends React.Component<
     ];
     return (
       <div
-        key={codeSnippet.name}
-        className={CODE_SNIPPET_ITEM}
+        key={codeSnippet.id}
+        className={
+          this.state.selectedIds.includes(id)
+            ? `${CODE_SNIPPET_ITEM} ${CODE_SNIPPET_SELECTED}`
+            : CODE_SNIPPET_ITEM
+        }
         id={`${CODE_SNIPPET_ITEM}${id}`}
-        title={'Right click for more options'}
+        title={'Right click for more options, Ctrl click to select'}
+        onClick={(event: React.MouseEvent<HTMLElement, MouseEvent>): void => {
+          this.handleSelect(event, id);
+        }}
         onMouseOver={(): void => {
           this.dragHoverStyle(id);
         }}
@@ -1339,7 +1885,11 @@ export class CodeSnippetDisplay extends React.Component<
       >
         <div
           className={CODE_SNIPPET_DRAG_HOVER}
-          title="Drag to move"
+          title={
+            this.props.codeSnippetManager.sortMode === 'manual'
+              ? 'Drag to move'
+              : 'Drag to insert'
+          }
           id={`${CODE_SNIPPET_DRAG_HOVER}${id}`}
           onMouseDown={(event): void => {
             this.handleDragSnippet(event);
@@ -1368,11 +1918,13 @@ export class CodeSnippetDisplay extends React.Component<
             className={TITLE_CLASS}
             id={`${TITLE_CLASS}${id}`}
           >
-            <div id={id.toString()} className={DISPLAY_NAME_CLASS}>
-              {this.renderLanguageIcon(language)}
-              {this.boldNameOnSearch(id, language, name, matchedIndices)}
+            <div id={id} className={DISPLAY_NAME_CLASS}>
+              {isPromptSnippet(codeSnippet)
+                ? this.renderPromptIcon()
+                : this.renderLanguageIcon(language)}
+              {this.boldNameOnSearch(id, name, matches)}
             </div>
-            <div className={ACTION_BUTTONS_WRAPPER_CLASS} id={id.toString()}>
+            <div className={ACTION_BUTTONS_WRAPPER_CLASS} id={id}>
               {actionButtons.map((btn) => {
                 return (
                   <button
@@ -1396,17 +1948,30 @@ export class CodeSnippetDisplay extends React.Component<
               })}
             </div>
           </div>
-          {this.renderDescription(codeSnippet, id)}
+          {this.renderDescription(codeSnippet, id, matches)}
+          {this.renderSearchMatches(id, matches)}
         </div>
       </div>
     );
   };
 
-  renderDescription(codeSnippet: ICodeSnippet, id: number): JSX.Element {
+  renderDescription(
+    codeSnippet: ICodeSnippet,
+    id: string,
+    matches?: ISearchMatches
+  ): JSX.Element {
     if (codeSnippet.description && codeSnippet.description.length !== 0) {
       return (
-        <div className={CODE_SNIPPET_DESC} id={id.toString()}>
-          <p id={id.toString()}>{`${codeSnippet.description}`}</p>
+        <div className={CODE_SNIPPET_DESC} id={id}>
+          <p id={id}>
+            {matches
+              ? this.highlightMatches(
+                  id + '_description',
+                  codeSnippet.description,
+                  matches.description
+                )
+              : codeSnippet.description}
+          </p>
         </div>
       );
     } else {
@@ -1414,15 +1979,10 @@ export class CodeSnippetDisplay extends React.Component<
     }
   }
 
-  handleFilter = (
-    searchValue: string,
-    filterTags: string[],
-    selectedLangTags: string[]
-  ): void => {
+  handleFilter = (query: ISnippetQuery, tagFilter: ITagFilter): void => {
     this.setState({
-      searchValue: searchValue,
-      filterTags: filterTags,
-      selectedLangTags: selectedLangTags,
+      query: query,
+      tagFilter: tagFilter,
     });
   };
 
@@ -1435,8 +1995,8 @@ export class CodeSnippetDisplay extends React.Component<
           codeSnippet.tags.filter((tag) => !tags.includes(tag))
         );
       }
-      if (!languages.includes(codeSnippet.language)) {
-        languages.push(codeSnippet.language);
+      if (!languages.includes(getLanguageTag(codeSnippet))) {
+        languages.push(getLanguageTag(codeSnippet));
       }
     }
     return [tags, languages];
@@ -1448,16 +2008,17 @@ export class CodeSnippetDisplay extends React.Component<
       if (codeSnippet.tags) {
         // check if tag is in dict, if it is add lang to value (if not already present)
         // if tag not in dict add tag as key and lang as first val
+        const language = getLanguageTag(codeSnippet);
         for (const tag of codeSnippet.tags) {
-          if (tag !== codeSnippet.language) {
+          if (tag !== language) {
             if (tagsAndLangs.has(tag)) {
               const langs = tagsAndLangs.get(tag);
-              if (!langs.includes(codeSnippet.language)) {
-                langs.push(codeSnippet.language);
+              if (!langs.includes(language)) {
+                langs.push(language);
               }
               tagsAndLangs.set(tag, langs);
             } else {
-              tagsAndLangs.set(tag, [codeSnippet.language]);
+              tagsAndLangs.set(tag, [language]);
             }
           }
         }
@@ -1490,8 +2051,11 @@ export class CodeSnippetDisplay extends React.Component<
           editor.dispose();
         }
         // deleting snippets when there is one snippet active
-        this.props.codeSnippetManager
-          .deleteSnippet(codeSnippet.id)
+        const manager = this.props.codeSnippetManager;
+        manager
+          .withUndo(`Deleted "${codeSnippet.name}"`, () =>
+            manager.deleteSnippet(codeSnippet.id)
+          )
           .then((result: boolean) => {
             if (result) {
               this.props.updateCodeSnippetWidget();
@@ -1533,13 +2097,137 @@ export class CodeSnippetDisplay extends React.Component<
         codeSnippetContentsManager.save(path, {
           type: 'file',
           format: 'text',
-          content: JSON.stringify(codeSnippet),
+          content: JSON.stringify(toBundledSnippet(codeSnippet)),
         });
         showMessage('export');
       }
     });
   }
 
+  /**
+   * Ask for a library other than the one of the snippet and copy or move the
+   * snippet to it.
+   */
+  private libraryCommand(codeSnippet: ICodeSnippet, move: boolean): void {
+    const manager = this.props.codeSnippetManager;
+    const libraries = manager.libraries.filter(
+      (library) => library.id !== codeSnippet.library && !library.readOnly
+    );
+    if (libraries.length === 0) {
+      return;
+    }
+
+    InputDialog.getItem({
+      title: move ? 'Move Snippet to Library' : 'Copy Snippet to Library',
+      label: 'Library: ',
+      items: libraries.map((library) => library.name),
+      okLabel: move ? 'Move' : 'Copy',
+    }).then((value: Dialog.IResult<string>) => {
+      if (!value.button.accept) {
+        return;
+      }
+      const library = libraries.find((library) => library.name === value.value);
+      if (!library) {
+        return;
+      }
+      const result = move
+        ? manager.withUndo(
+            `Moved "${codeSnippet.name}" to ${library.name}`,
+            () => manager.moveSnippetToLibrary(codeSnippet.id, library.id)
+          )
+        : manager.copySnippetToLibrary(codeSnippet.id, library.id);
+      result.then((res: boolean) => {
+        if (res) {
+          this.props.updateCodeSnippetWidget();
+        } else {
+          console.log('Error in copying the snippet to another library');
+        }
+      });
+    });
+  }
+
+  // toggle the selection of a snippet with Ctrl/Cmd or Shift click
+  private handleSelect(
+    event: React.MouseEvent<HTMLElement, MouseEvent>,
+    id: string
+  ): void {
+    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+      const selectedIds = this.state.selectedIds.includes(id)
+        ? this.state.selectedIds.filter((selectedId) => selectedId !== id)
+        : this.state.selectedIds.concat([id]);
+      this.setState({ selectedIds: selectedIds });
+    } else if (this.state.selectedIds.length !== 0) {
+      this.setState({ selectedIds: [] });
+    }
+  }
+
+  /**
+   * Export the whole library, the filtered view or the selected snippets to
+   * one bundle file.
+   */
+  private async exportBundleCommand(): Promise<void> {
+    const allSnippets = this.props.codeSnippets;
+    const { filteredCodeSnippets } = this.getVisibleSnippets();
+    const selectedSnippets = allSnippets.filter((codeSnippet) =>
+      this.state.selectedIds.includes(codeSnippet.id)
+    );
+
+    const choices = [
+      { label: `All snippets (${allSnippets.length})`, name: 'All snippets' },
+    ];
+    const choiceSnippets = [allSnippets];
+    if (filteredCodeSnippets.length !== allSnippets.length) {
+      choices.push({
+        label: `Filtered snippets (${filteredCodeSnippets.length})`,
+        name: 'Filtered snippets',
+      });
+      choiceSnippets.push(filteredCodeSnippets);
+    }
+    if (selectedSnippets.length !== 0) {
+      choices.push({
+        label: `Selected snippets (${selectedSnippets.length})`,
+        name: 'Selected snippets',
+      });
+      choiceSnippets.push(selectedSnippets);
+    }
+
+    let choice = 0;
+    if (choices.length > 1) {
+      const result = await InputDialog.getItem({
+        title: 'Export Snippets',
+        label: 'Snippets to Export: ',
+        items: choices.map((item) => item.label),
+        current: choices.length - 1,
+      });
+      if (!result.button.accept) {
+        return;
+      }
+      choice = choices.findIndex((item) => item.label === result.value);
+    }
+
+    const snippets = choiceSnippets[choice];
+    if (snippets.length === 0) {
+      return;
+    }
+
+    const path = await InputDialog.getText({
+      title: 'Export Snippets?',
+      label: 'File to Export: ',
+      text: 'snippets.json',
+      placeholder: 'share/snippets.json',
+      okLabel: 'Export',
+    });
+    if (!path.button.accept || !path.value) {
+      return;
+    }
+
+    if (await exportSnippets(snippets, path.value, choices[choice].name)) {
+      showMessage('export');
+    } else {
+      alert('Path should be a relative path');
+    }
+  }
+
   // remove dropdown menu
   private removeOptionsNode(): void {
     const temp = document.getElementsByClassName(CODE_SNIPPET_MORE_OPTIONS)[0];
@@ -1562,6 +2250,28 @@ export class CodeSnippetDisplay extends React.Component<
       this.insertCodeSnippet(codeSnippet);
       this.removeOptionsNode();
     };
+    const insertAsSnip = document.createElement('div');
+    insertAsSnip.className = CODE_SNIPPET_MORE_OTPIONS_INSERT_AS;
+    insertAsSnip.textContent = 'Insert snippet as…';
+    insertAsSnip.onclick = (): void => {
+      this.removeOptionsNode();
+      void askInsertionOptions(codeSnippet.name).then((options) => {
+        if (options) {
+          void this.insertCodeSnippet(codeSnippet, options);
+        }
+      });
+    };
+    const runPromptSnip = document.createElement('div');
+    runPromptSnip.className = CODE_SNIPPET_MORE_OTPIONS_RUN_PROMPT;
+    runPromptSnip.textContent = 'Run prompt';
+    runPromptSnip.onclick = (): void => {
+      void runPromptSnippet(
+        this.props.app,
+        codeSnippet,
+        this.props.getCurrentWidget()
+      );
+      this.removeOptionsNode();
+    };
     const copySnip = document.createElement('div');
     copySnip.className = CODE_SNIPPET_MORE_OTPIONS_COPY;
     copySnip.textContent = 'Copy snippet to clipboard';
@@ -1582,6 +2292,12 @@ export class CodeSnippetDisplay extends React.Component<
         language: codeSnippet.language,
         code: codeSnippet.code,
         id: codeSnippet.id,
+        order: codeSnippet.order,
+        library: codeSnippet.library,
+        prefix: codeSnippet.prefix,
+        kind: codeSnippet.kind,
+        cells: codeSnippet.cells,
+        requires: codeSnippet.requires,
         tags: codeSnippet.tags, // snippet tags
         allSnippetTags: allSnippetTags,
         allLangTags: allLangTags,
@@ -1605,11 +2321,48 @@ export class CodeSnippetDisplay extends React.Component<
       this.removeOptionsNode();
     };
 
+    const copyToLibrarySnip = document.createElement('div');
+    copyToLibrarySnip.className = CODE_SNIPPET_MORE_OTPIONS_COPY_TO_LIBRARY;
+    copyToLibrarySnip.textContent = 'Copy to library…';
+    copyToLibrarySnip.onclick = (): void => {
+      this.libraryCommand(codeSnippet, false);
+      this.removeOptionsNode();
+    };
+
+    const moveToLibrarySnip = document.createElement('div');
+    moveToLibrarySnip.className = CODE_SNIPPET_MORE_OTPIONS_MOVE_TO_LIBRARY;
+    moveToLibrarySnip.textContent = 'Move to library…';
+    moveToLibrarySnip.onclick = (): void => {
+      this.libraryCommand(codeSnippet, true);
+      this.removeOptionsNode();
+    };
+
+    const readOnly = this.props.codeSnippetManager.isReadOnly(codeSnippet);
+    const hasOtherLibraries = this.props.codeSnippetManager.libraries.some(
+      (library) => library.id !== codeSnippet.library && !library.readOnly
+    );
+
     optionsContainer.appendChild(insertSnip);
+    if (this.props.getCurrentWidget() instanceof NotebookPanel) {
+      optionsContainer.appendChild(insertAsSnip);
+    }
+    if (isPromptSnippet(codeSnippet)) {
+      optionsContainer.appendChild(runPromptSnip);
+    }
     optionsContainer.appendChild(copySnip);
-    optionsContainer.appendChild(editSnip);
+    if (!readOnly) {
+      optionsContainer.appendChild(editSnip);
+    }
     optionsContainer.appendChild(exportSnip);
-    optionsContainer.appendChild(deleteSnip);
+    if (hasOtherLibraries) {
+      optionsContainer.appendChild(copyToLibrarySnip);
+      if (!readOnly) {
+        optionsContainer.appendChild(moveToLibrarySnip);
+      }
+    }
+    if (!readOnly) {
+      optionsContainer.appendChild(deleteSnip);
+    }
     body.append(optionsContainer);
     return body;
   }
@@ -1620,53 +2373,463 @@ export class CodeSnippetDisplay extends React.Component<
     });
   }
 
-  render(): React.ReactElement {
-    const { filteredCodeSnippets, matchedIndices } = this.filterSnippets(
-      this.props.codeSnippets,
-      this.state.searchValue,
-      this.state.filterTags,
-      this.state.selectedLangTags
+  // render the snippets grouped by their library
+  private renderLibraries(
+    libraries: ICodeSnippetLibrary[],
+    codeSnippets: ICodeSnippet[],
+    matchedIndices: { [id: string]: ISearchMatches }
+  ): JSX.Element[] {
+    if (this.props.codeSnippetManager.libraries.length === 1) {
+      return codeSnippets.map((codeSnippet) =>
+        this.renderCodeSnippet(codeSnippet, matchedIndices[codeSnippet.id])
+      );
+    }
+
+    const elements: JSX.Element[] = [];
+    for (const library of libraries) {
+      const librarySnippets = codeSnippets.filter(
+        (codeSnippet) => codeSnippet.library === library.id
+      );
+      if (librarySnippets.length === 0) {
+        continue;
+      }
+      elements.push(
+        <div key={library.id} className={CODE_SNIPPET_LIBRARY_HEADER}>
+          {library.name}
+          {library.readOnly && (
+            <span className={CODE_SNIPPET_LIBRARY_READONLY}>read-only</span>
+          )}
+        </div>
+      );
+      librarySnippets.forEach((codeSnippet) =>
+        elements.push(
+          this.renderCodeSnippet(codeSnippet, matchedIndices[codeSnippet.id])
+        )
+      );
+    }
+    return elements;
+  }
+
+  private renderLibrarySelect(): JSX.Element {
+    const libraries = this.props.codeSnippetManager.libraries;
+    if (libraries.length === 1) {
+      return null;
+    }
+    return (
+      <select
+        className={CODE_SNIPPET_LIBRARY_SELECT}
+        title="Library"
+        value={this.state.library}
+        onChange={(event: React.ChangeEvent<HTMLSelectElement>): void => {
+          this.setState({ library: event.target.value });
+        }}
+      >
+        <option value="">All libraries</option>
+        {libraries.map((library) => (
+          <option key={library.id} value={library.id}>
+            {library.name}
+          </option>
+        ))}
+      </select>
     );
+  }
 
+  private renderSortSelect(): JSX.Element {
+    const manager = this.props.codeSnippetManager;
     return (
-      <div>
-        <header className={CODE_SNIPPETS_HEADER_CLASS}>
-          <span className={CODE_SNIPPET_TITLE}>{'Snippets'}</span>
+      <select
+        className={CODE_SNIPPET_SORT_SELECT}
+        title="Sort snippets, switch to the manual order to move them by dragging"
+        value={manager.sortMode}
+        onChange={(event: React.ChangeEvent<HTMLSelectElement>): void => {
+          manager
+            .saveSortMode(event.target.value as SortMode)
+            .then((res: boolean) => {
+              if (!res) {
+                console.log('Error in saving the sort mode');
+              }
+              this.props.updateCodeSnippetWidget();
+            });
+        }}
+      >
+        {Object.entries(SORT_MODES).map(([mode, label]) => (
+          <option key={mode} value={mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  // ask for a name and save the search as a smart folder
+  private saveSearchCommand = async (
+    searchValue: string,
+    tagFilter: ITagFilter
+  ): Promise<void> => {
+    const manager = this.props.codeSnippetManager;
+    const result = await InputDialog.getText({
+      title: 'Save Search',
+      label: 'Name of the smart folder: ',
+      text: searchValue.trim(),
+      okLabel: 'Save',
+    });
+    const name = result.value ? result.value.trim() : '';
+    if (!result.button.accept || name === '') {
+      return;
+    }
+    const searches = addSavedSearch(manager.savedSearches, {
+      name,
+      query: searchValue,
+      tagFilter,
+      sort: manager.sortMode,
+    });
+    if (!(await manager.saveSearches(searches))) {
+      console.log('Error in saving the search');
+    }
+    this.setState({ openSearches: this.state.openSearches.concat(name) });
+    this.props.updateCodeSnippetWidget();
+  };
+
+  // ask before deleting a smart folder
+  private async deleteSearchCommand(name: string): Promise<void> {
+    const manager = this.props.codeSnippetManager;
+    const result = await showDialog({
+      title: 'Delete saved search?',
+      body: `Delete the smart folder "${name}"? Its snippets are kept.`,
+      buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Delete' })],
+    });
+    if (result.button.accept) {
+      if (
+        !(await manager.saveSearches(
+          removeSavedSearch(manager.savedSearches, name)
+        ))
+      ) {
+        console.log('Error in deleting the saved search');
+      }
+      this.props.updateCodeSnippetWidget();
+    }
+  }
+
+  // render the saved searches as smart folders listing their snippets
+  private renderSavedSearches(): JSX.Element {
+    const searches = this.props.codeSnippetManager.savedSearches;
+    if (searches.length === 0) {
+      return null;
+    }
+    return (
+      <div className={CODE_SNIPPET_SEARCHES}>
+        {searches.map((search) => {
+          const query = getSavedQuery(search);
+          const snippets = query
+            ? this.sortSnippets(
+                this.filterSnippets(
+                  this.props.codeSnippets,
+                  query,
+                  search.tagFilter
+                ).filteredCodeSnippets,
+                search.sort ?? this.props.codeSnippetManager.sortMode
+              )
+            : [];
+          const isOpen = this.state.openSearches.includes(search.name);
+          return (
+            <div key={search.name}>
+              <div className={CODE_SNIPPET_SEARCH_HEADER}>
+                <button
+                  className={CODE_SNIPPET_CREATE_NEW_BTN}
+                  title={query ? search.query : 'Invalid search'}
+                  onClick={(): void =>
+                    this.setState({
+                      openSearches: isOpen
+                        ? this.state.openSearches.filter(
+                            (name) => name !== search.name
+                          )
+                        : this.state.openSearches.concat(search.name),
+                    })
+                  }
+                >
+                  {isOpen ? '▾' : '▸'} {search.name}{' '}
+                  <span className={CODE_SNIPPET_SEARCH_COUNT}>
+                    ({snippets.length})
+                  </span>
+                </button>
+                <button
+                  className={CODE_SNIPPET_CREATE_NEW_BTN}
+                  title="Delete the saved search"
+                  onClick={(): void => {
+                    void this.deleteSearchCommand(search.name);
+                  }}
+                >
+                  ×
+                </button>
+              </div>
+              {isOpen &&
+                snippets.map((codeSnippet) => (
+                  <div
+                    className={CODE_SNIPPET_SEARCH_ITEM}
+                    key={codeSnippet.id}
+                    title={'Click for more options'}
+                    onClick={(
+                      event: React.MouseEvent<HTMLElement, MouseEvent>
+                    ): void => {
+                      showMoreOptions({
+                        body: new OptionsHandler(this, codeSnippet),
+                      });
+                      this._setOptionsPosition(event);
+                    }}
+                  >
+                    {isPromptSnippet(codeSnippet)
+                      ? this.renderPromptIcon()
+                      : this.renderLanguageIcon(codeSnippet.language)}
+                    <span className={CODE_SNIPPET_NAME}>
+                      {codeSnippet.name}
+                    </span>
+                  </div>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // ask before deleting the snippets of the trash permanently
+  private async emptyTrashCommand(): Promise<void> {
+    const manager = this.props.codeSnippetManager;
+    const result = await showDialog({
+      title: 'Empty trash?',
+      body: `Delete the ${manager.trash.length} snippets of the trash?`,
+      buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Empty' })],
+    });
+    if (result.button.accept) {
+      if (
+        !(await manager.withUndo('Emptied the trash', () =>
+          manager.emptyTrash()
+        ))
+      ) {
+        console.log('Error in emptying the trash');
+      }
+      this.props.updateCodeSnippetWidget();
+    }
+  }
+
+  // render the deleted snippets with their restore button
+  private renderTrash(): JSX.Element {
+    const manager = this.props.codeSnippetManager;
+    const trash = manager.trash;
+    if (trash.length === 0) {
+      return null;
+    }
+    const retentionDays = manager.settings.get('trashRetentionDays')
+      .composite as number;
+
+    return (
+      <div className={CODE_SNIPPET_TRASH}>
+        <div className={CODE_SNIPPET_TRASH_HEADER}>
           <button
             className={CODE_SNIPPET_CREATE_NEW_BTN}
-            onClick={(): void => {
-              this.props.openCodeSnippetEditor({
-                name: '',
-                description: '',
-                language: 'Python',
-                code: '',
-                id: this.props.codeSnippets.length,
-                tags: [],
-                allSnippetTags: this.getActiveTags()[0],
-                allLangTags: this.getActiveTags()[1],
-                fromScratch: true,
-              });
-            }}
+            onClick={(): void =>
+              this.setState({ trashOpen: !this.state.trashOpen })
+            }
           >
-            <addIcon.react tag="span" right="7px" top="5px" />
+            {this.state.trashOpen ? '▾' : '▸'} Trash ({trash.length})
           </button>
+          {this.state.trashOpen && (
+            <button
+              className="jp-mod-styled"
+              onClick={(): void => {
+                void this.emptyTrashCommand();
+              }}
+            >
+              Empty trash
+            </button>
+          )}
+        </div>
+        {this.state.trashOpen &&
+          trash
+            .slice()
+            .reverse()
+            .map((entry) => {
+              const daysLeft = getDaysLeft(entry, retentionDays);
+              return (
+                <div
+                  className={CODE_SNIPPET_TRASH_ITEM}
+                  key={entry.snippet.id + entry.deleted}
+                >
+                  <span className={CODE_SNIPPET_NAME}>
+                    {entry.snippet.name}
+                  </span>
+                  <span
+                    className={CODE_SNIPPET_TRASH_DATE}
+                    title={`Deleted ${new Date(
+                      entry.deleted
+                    ).toLocaleString()}`}
+                  >
+                    {daysLeft === null ? '' : `${daysLeft} days left`}
+                  </span>
+                  <button
+                    className="jp-mod-styled"
+                    onClick={(): void => {
+                      manager
+                        .restoreFromTrash(entry.snippet.id)
+                        .then((res: boolean) => {
+                          if (!res) {
+                            console.log('Error in restoring the snippet');
+                          }
+                          this.props.updateCodeSnippetWidget();
+                        });
+                    }}
+                  >
+                    Restore
+                  </button>
+                </div>
+              );
+            })}
+      </div>
+    );
+  }
+
+  // offer to undo the last delete, move or overwrite
+  private renderUndo(): JSX.Element {
+    const manager = this.props.codeSnippetManager;
+    if (!manager.undoLabel) {
+      return null;
+    }
+    return (
+      <div className={CODE_SNIPPET_UNDO}>
+        <span>{manager.undoLabel}</span>
+        <button
+          className="jp-mod-styled jp-mod-accept"
+          onClick={(): void => {
+            manager.undo().then((res: boolean) => {
+              if (!res) {
+                console.log('Error in undoing the last operation');
+              }
+            });
+          }}
+        >
+          Undo
+        </button>
+        <button
+          className="jp-mod-styled"
+          title="Dismiss"
+          onClick={(): void => {
+            manager.clearUndo();
+            this.props.updateCodeSnippetWidget();
+          }}
+        >
+          ×
+        </button>
+      </div>
+    );
+  }
+
+  // snippets of the selected library that match the search and the tags
+  private getVisibleSnippets(): {
+    libraries: ICodeSnippetLibrary[];
+    filteredCodeSnippets: ICodeSnippet[];
+    matchedIndices: { [id: string]: ISearchMatches };
+  } {
+    const libraries = this.props.codeSnippetManager.libraries.filter(
+      (library) =>
+        this.state.library === '' || library.id === this.state.library
+    );
+    const { filteredCodeSnippets, matchedIndices } = this.filterSnippets(
+      this.props.codeSnippets.filter((codeSnippet) =>
+        libraries.some((library) => library.id === codeSnippet.library)
+      ),
+      this.state.query,
+      this.state.tagFilter
+    );
+    return {
+      libraries,
+      filteredCodeSnippets: this.sortSnippets(
+        filteredCodeSnippets,
+        this.props.codeSnippetManager.sortMode
+      ),
+      matchedIndices,
+    };
+  }
+
+  // sort snippets, the manual order keeping the order of relevance of a
+  // search
+  private sortSnippets(
+    codeSnippets: ICodeSnippet[],
+    mode: SortMode
+  ): ICodeSnippet[] {
+    if (mode === 'manual') {
+      return codeSnippets;
+    }
+    return sortSnippets(
+      codeSnippets,
+      mode,
+      this.props.codeSnippetManager.usage,
+      getLanguageTag
+    );
+  }
+
+  render(): React.ReactElement {
+    const { libraries, filteredCodeSnippets, matchedIndices } =
+      this.getVisibleSnippets();
+
+    return (
+      <div>
+        <header className={CODE_SNIPPETS_HEADER_CLASS}>
+          <span className={CODE_SNIPPET_TITLE}>{'Snippets'}</span>
+          <span className={CODE_SNIPPET_HEADER_BUTTONS}>
+            <button
+              className={CODE_SNIPPET_CREATE_NEW_BTN}
+              title="Export snippets"
+              onClick={(): void => {
+                void this.exportBundleCommand();
+              }}
+            >
+              <downloadIcon.react tag="span" right="7px" top="5px" />
+            </button>
+            <button
+              className={CODE_SNIPPET_CREATE_NEW_BTN}
+              onClick={(): void => {
+                this.props.openCodeSnippetEditor({
+                  name: '',
+                  description: '',
+                  language: 'Python',
+                  code: '',
+                  id: UUID.uuid4(),
+                  order: this.props.codeSnippets.filter(
+                    (codeSnippet) => codeSnippet.library === PERSONAL_LIBRARY_ID
+                  ).length,
+                  library: PERSONAL_LIBRARY_ID,
+                  tags: [],
+                  allSnippetTags: this.getActiveTags()[0],
+                  allLangTags: this.getActiveTags()[1],
+                  fromScratch: true,
+                });
+              }}
+            >
+              <addIcon.react tag="span" right="7px" top="5px" />
+            </button>
+          </span>
         </header>
         <FilterTools
           tagDictionary={this.getActiveTagsDictionary()}
           languageTags={this.getActiveTags()[1]}
           snippetTags={this.getActiveTags()[0]}
           onFilter={this.handleFilter}
+          onSaveSearch={this.saveSearchCommand}
         />
+        {this.renderSavedSearches()}
+        {this.renderLibrarySelect()}
+        {this.renderSortSelect()}
         <div className={CODE_SNIPPETS_CONTAINER}>
           <div>
-            {filteredCodeSnippets.map((codeSnippet) =>
-              this.renderCodeSnippet(
-                codeSnippet,
-                matchedIndices[codeSnippet.id]
-              )
+            {this.renderLibraries(
+              libraries,
+              filteredCodeSnippets,
+              matchedIndices
             )}
           </div>
+          {this.renderTrash()}
         </div>
+        {this.renderUndo()}
       </div>
     );
   }
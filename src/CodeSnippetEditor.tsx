@@ -28,12 +28,34 @@ import { Message } from '@lumino/messaging';
 
 import React from 'react';
 
-import { CodeSnippetService, ICodeSnippet } from './CodeSnippetService';
+import {
+  CodeSnippetService,
+  ICodeSnippet,
+  ISnippetCell,
+  ISnippetRevision,
+} from './CodeSnippetService';
 import { CodeSnippetWidget } from './CodeSnippetWidget';
-import { SUPPORTED_LANGUAGES } from './CodeSnippetLanguages';
+import {
+  SUPPORTED_LANGUAGES,
+  PROMPT_LANGUAGE,
+  getLanguageTag,
+  isPromptSnippet,
+} from './CodeSnippetLanguages';
 import { CodeSnippetEditorTags, ITag } from './CodeSnippetEditorTags';
+import { CodeSnippetEditorHistory } from './CodeSnippetEditorHistory';
 import { showMessage } from './CodeSnippetMessage';
-import { validateInputs, saveOverWriteFile } from './CodeSnippetUtilities';
+import {
+  validateInputs,
+  saveOverWriteFile,
+  shouldOverwrite,
+} from './CodeSnippetUtilities';
+import { joinCells } from './CodeSnippetCells';
+import { resolveDependencies } from './CodeSnippetDependencies';
+import {
+  createRevision,
+  recordRevision,
+  restoreRevision,
+} from './CodeSnippetHistory';
 
 /**
  * CSS style classes
@@ -45,7 +67,14 @@ const CODE_SNIPPET_EDITOR_INPUT_ACTIVE = 'jp-codeSnippet-editor-active';
 const CODE_SNIPPET_EDITOR_NAME_INPUT = 'jp-codeSnippet-editor-name';
 const CODE_SNIPPET_EDITOR_LABEL = 'jp-codeSnippet-editor-label';
 const CODE_SNIPPET_EDITOR_DESC_INPUT = 'jp-codeSnippet-editor-description';
+const CODE_SNIPPET_EDITOR_PREFIX_INPUT = 'jp-codeSnippet-editor-prefix';
 const CODE_SNIPPET_EDITOR_LANG_INPUT = 'jp-codeSnippet-editor-language';
+const CODE_SNIPPET_EDITOR_KIND_INPUT = 'jp-codeSnippet-editor-kind';
+const CODE_SNIPPET_EDITOR_REQUIRES = 'jp-codeSnippet-editor-requires';
+const CODE_SNIPPET_EDITOR_REQUIRES_INPUT =
+  'jp-codeSnippet-editor-requires-input';
+const CODE_SNIPPET_EDITOR_REQUIRES_NOTE = 'jp-codeSnippet-editor-requires-note';
+const CODE_SNIPPET_EDITOR_REQUIRES_ERROR = 'jp-mod-error';
 const CODE_SNIPPET_EDITOR_MIRROR = 'jp-codeSnippetInput-editor';
 const CODE_SNIPPET_EDITOR_INPUTAREA = 'jp-codeSnippetInputArea';
 const CODE_SNIPPET_EDITOR_INPUTAREA_MIRROR = 'jp-codeSnippetInputArea-editor';
@@ -94,6 +123,9 @@ export class CodeSnippetEditor extends ReactWidget {
     this.saveChange = this.saveChange.bind(this);
     this.updateSnippet = this.updateSnippet.bind(this);
     this.handleChangeOnTag = this.handleChangeOnTag.bind(this);
+    this.handleKindChange = this.handleKindChange.bind(this);
+    this.handleAddRequirement = this.handleAddRequirement.bind(this);
+    this.restoreRevision = this.restoreRevision.bind(this);
   }
 
   get codeSnippetEditorMetadata(): ICodeSnippetEditorMetadata {
@@ -171,8 +203,6 @@ export class CodeSnippetEditor extends ReactWidget {
       document.getElementById('code-' + this._codeSnippetEditorMetaData.id)
     ) {
       const editorFactory = this.editorServices.factoryService.newInlineEditor;
-      const getMimeTypeByLanguage =
-        this.editorServices.mimeTypeService.getMimeTypeByLanguage;
 
       this.editor = editorFactory({
         host: document.getElementById(
@@ -180,14 +210,11 @@ export class CodeSnippetEditor extends ReactWidget {
         ),
         model: new CodeEditor.Model({
           value: this._codeSnippetEditorMetaData.code,
-          mimeType: getMimeTypeByLanguage({
-            name: this._codeSnippetEditorMetaData.language,
-            codemirror_mode: this._codeSnippetEditorMetaData.language,
-          }),
+          mimeType: this.getMimeType(),
         }),
       });
       this.editor.model.value.changed.connect((args: any) => {
-        this._codeSnippetEditorMetaData.code = args.text.split('\n');
+        this._codeSnippetEditorMetaData.code = args.text;
         if (!this.title.className.includes(EDITOR_DIRTY_CLASS)) {
           this.title.className += ` ${EDITOR_DIRTY_CLASS}`;
         }
@@ -261,14 +288,10 @@ export class CodeSnippetEditor extends ReactWidget {
                 `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_DESC_INPUT}`
               ) as HTMLInputElement
             ).value;
-            const language = (
-              document.querySelector(
-                `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_LANG_INPUT}`
-              ) as HTMLSelectElement
-            ).value;
+            const language = this.getLanguage();
 
             const validity = validateInputs(name, description, language);
-            if (validity) {
+            if (validity && this.validateRequirements()) {
               this.updateSnippet().then((value) => {
                 if (value) {
                   this.dispose();
@@ -318,6 +341,67 @@ export class CodeSnippetEditor extends ReactWidget {
     }
   }
 
+  /**
+   * Get the mime type of the editor: markdown for prompt snippets, the mode
+   * of their language for code snippets.
+   */
+  private getMimeType(): string {
+    const language = isPromptSnippet(this._codeSnippetEditorMetaData)
+      ? PROMPT_LANGUAGE
+      : this._codeSnippetEditorMetaData.language;
+    return this.editorServices.mimeTypeService.getMimeTypeByLanguage({
+      name: language,
+      codemirror_mode: language,
+    });
+  }
+
+  /**
+   * Get the language of the snippet, which is fixed for prompt snippets.
+   */
+  private getLanguage(): string {
+    if (isPromptSnippet(this._codeSnippetEditorMetaData)) {
+      return PROMPT_LANGUAGE;
+    }
+    return (
+      document.querySelector(
+        `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_LANG_INPUT}`
+      ) as HTMLInputElement
+    ).value;
+  }
+
+  /**
+   * Get the cells of a multi-cell snippet, which are kept until their code
+   * is edited. The edited code is saved as a single cell.
+   */
+  private getCells(): ISnippetCell[] | undefined {
+    const cells = this._codeSnippetEditorMetaData.cells;
+    if (cells && joinCells(cells) === this._codeSnippetEditorMetaData.code) {
+      return cells;
+    }
+    return undefined;
+  }
+
+  /**
+   * Switch the snippet between code and prompt, and the editor between the
+   * mode of the language and markdown.
+   */
+  handleKindChange(event: React.ChangeEvent<HTMLSelectElement>): void {
+    this._codeSnippetEditorMetaData.kind =
+      event.target.value === 'prompt' ? 'prompt' : undefined;
+    if (!isPromptSnippet(this._codeSnippetEditorMetaData)) {
+      this._codeSnippetEditorMetaData.language = this.getLanguage();
+    }
+    if (!this.title.className.includes(EDITOR_DIRTY_CLASS)) {
+      this.title.className += ` ${EDITOR_DIRTY_CLASS}`;
+    }
+    this.saved = false;
+
+    if (this.editor) {
+      this.editor.model.mimeType = this.getMimeType();
+    }
+    this.update();
+  }
+
   handleInputFieldChange(event: React.ChangeEvent<HTMLInputElement>): void {
     if (!this.title.className.includes(EDITOR_DIRTY_CLASS)) {
       this.title.className += ` ${EDITOR_DIRTY_CLASS}`;
@@ -343,14 +427,10 @@ export class CodeSnippetEditor extends ReactWidget {
         `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_DESC_INPUT}`
       ) as HTMLInputElement
     ).value;
-    const language = (
-      document.querySelector(
-        `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_LANG_INPUT}`
-      ) as HTMLSelectElement
-    ).value;
+    const language = this.getLanguage();
 
     const validity = validateInputs(name, description, language);
-    if (validity) {
+    if (validity && this.validateRequirements()) {
       this.updateSnippet();
     }
   }
@@ -366,15 +446,18 @@ export class CodeSnippetEditor extends ReactWidget {
         `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_DESC_INPUT}`
       ) as HTMLInputElement
     ).value;
-    const language = (
+    const language = this.getLanguage();
+
+    const prefix = (
       document.querySelector(
-        `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_LANG_INPUT}`
-      ) as HTMLSelectElement
-    ).value;
+        `.${CODE_SNIPPET_EDITOR}-${this._codeSnippetEditorMetaData.id} .${CODE_SNIPPET_EDITOR_PREFIX_INPUT}`
+      ) as HTMLInputElement
+    ).value.trim();
 
     this._codeSnippetEditorMetaData.name = name;
     this._codeSnippetEditorMetaData.description = description;
     this._codeSnippetEditorMetaData.language = language;
+    this._codeSnippetEditorMetaData.prefix = prefix || undefined;
 
     const newName = this._codeSnippetEditorMetaData.name;
     const oldName = this.oldCodeSnippetName;
@@ -385,8 +468,15 @@ export class CodeSnippetEditor extends ReactWidget {
       language: this._codeSnippetEditorMetaData.language,
       code: this._codeSnippetEditorMetaData.code,
       id: this._codeSnippetEditorMetaData.id,
+      order: this._codeSnippetEditorMetaData.order,
       tags: this._codeSnippetEditorMetaData.tags,
+      library: this._codeSnippetEditorMetaData.library,
+      prefix: this._codeSnippetEditorMetaData.prefix,
+      kind: this._codeSnippetEditorMetaData.kind,
+      cells: this.getCells(),
+      requires: this._codeSnippetEditorMetaData.requires,
     };
+    newSnippet.history = this.recordHistory(newSnippet);
 
     this._codeSnippetEditorMetaData;
 
@@ -412,30 +502,19 @@ export class CodeSnippetEditor extends ReactWidget {
     }
     // modify existing snippet
     else {
-      if (newName !== oldName) {
-        if (isDuplicatName) {
-          // overwrite
-          const oldSnippet = this.contentsService.getSnippetByName(newName)[0];
-          await saveOverWriteFile(
-            this.contentsService,
-            oldSnippet,
-            newSnippet
-          ).then((res: boolean) => {
-            if (res) {
-              // get the id of snippet you are editting
-              const removedSnippet =
-                this.contentsService.getSnippetByName(oldName)[0];
-
-              // delete the one you are editing
-              this.contentsService.deleteSnippet(removedSnippet.id);
-            } else {
-              return false;
-            }
-          });
+      if (newName.toLowerCase() !== oldName.toLowerCase() && isDuplicatName) {
+        // overwrite the other snippet with the one you are editing
+        const oldSnippet = this.contentsService.getSnippetByName(newName)[0];
+        if (!(await shouldOverwrite(newName))) {
+          this.oldCodeSnippetName = oldName;
+          return false;
         }
+        await this.contentsService.withUndo(`Overwrote "${newName}"`, () =>
+          this.contentsService.deleteSnippet(oldSnippet.id)
+        );
       }
       this.contentsService
-        .modifyExistingSnippet(oldName, newSnippet)
+        .modifyExistingSnippet(this._codeSnippetEditorMetaData.id, newSnippet)
         .then((res: boolean) => {
           if (!res) {
             console.log('Error in modifying snippet');
@@ -455,13 +534,15 @@ export class CodeSnippetEditor extends ReactWidget {
     // change label
     this.title.label =
       '[' +
-      this._codeSnippetEditorMetaData.language +
+      getLanguageTag(this._codeSnippetEditorMetaData) +
       '] ' +
       this._codeSnippetEditorMetaData.name;
 
     if (!this._codeSnippetEditorMetaData.fromScratch) {
       // update tracker
       this.tracker.save(this);
+      // show the new revision in the history
+      this.update();
     }
 
     // update the display in code snippet explorer
@@ -489,6 +570,186 @@ export class CodeSnippetEditor extends ReactWidget {
     this.saved = false;
   }
 
+  /**
+   * Get the saved versions of the snippet.
+   */
+  private getHistory(): ISnippetRevision[] {
+    const snippet = this.contentsService.getSnippetById(
+      this._codeSnippetEditorMetaData.id
+    );
+    return snippet?.history ?? [];
+  }
+
+  /**
+   * Add a revision of the saved snippet to its history. A snippet saved
+   * before it had a history gets a first revision of its stored version.
+   */
+  private recordHistory(snippet: ICodeSnippet): ISnippetRevision[] {
+    const stored = this._codeSnippetEditorMetaData.fromScratch
+      ? undefined
+      : this.contentsService.getSnippetById(snippet.id);
+    let history = stored?.history ?? [];
+    if (stored && history.length === 0) {
+      history = [createRevision(stored, '')];
+    }
+    const limit = this.contentsService.settings.get('snippetHistoryLimit')
+      .composite as number;
+    return recordRevision(history, createRevision(snippet), limit);
+  }
+
+  /**
+   * Load a revision in the editor. It becomes the latest revision once
+   * saved.
+   */
+  restoreRevision(revision: ISnippetRevision): void {
+    const metadata = this._codeSnippetEditorMetaData;
+    Object.assign(metadata, restoreRevision(revision));
+    metadata.allSnippetTags = metadata.allSnippetTags ?? [];
+    for (const tag of metadata.tags ?? []) {
+      if (!metadata.allSnippetTags.includes(tag)) {
+        metadata.allSnippetTags.push(tag);
+      }
+    }
+
+    // the inputs are uncontrolled, so their values are set directly
+    const setValue = (className: string, value: string): void => {
+      const input = document.querySelector(
+        `.${CODE_SNIPPET_EDITOR}-${metadata.id} .${className}`
+      ) as HTMLInputElement | HTMLSelectElement | null;
+      if (input) {
+        input.value = value;
+      }
+    };
+    const isPrompt = isPromptSnippet(metadata);
+    setValue(CODE_SNIPPET_EDITOR_NAME_INPUT, metadata.name);
+    setValue(CODE_SNIPPET_EDITOR_DESC_INPUT, metadata.description ?? '');
+    setValue(CODE_SNIPPET_EDITOR_PREFIX_INPUT, metadata.prefix ?? '');
+    setValue(CODE_SNIPPET_EDITOR_KIND_INPUT, isPrompt ? 'prompt' : 'code');
+    if (!isPrompt) {
+      setValue(CODE_SNIPPET_EDITOR_LANG_INPUT, metadata.language);
+    }
+    if (this.editor) {
+      this.editor.model.mimeType = this.getMimeType();
+      this.editor.model.value.text = metadata.code;
+    }
+
+    if (!this.title.className.includes(EDITOR_DIRTY_CLASS)) {
+      this.title.className += ` ${EDITOR_DIRTY_CLASS}`;
+    }
+    this.saved = false;
+    this.update();
+  }
+
+  /**
+   * Test whether the required snippets form no cycle, warning if they do.
+   */
+  private validateRequirements(): boolean {
+    const cycle = resolveDependencies(
+      this._codeSnippetEditorMetaData,
+      this.contentsService.snippets
+    ).cycle;
+    if (cycle) {
+      showDialog({
+        title: 'Error',
+        body: 'Required snippets form a cycle: ' + cycle.join(' → '),
+        buttons: [Dialog.okButton()],
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Change the snippets required by the snippet.
+   */
+  private setRequirements(requires: string[]): void {
+    this._codeSnippetEditorMetaData.requires =
+      requires.length !== 0 ? requires : undefined;
+    if (!this.title.className.includes(EDITOR_DIRTY_CLASS)) {
+      this.title.className += ` ${EDITOR_DIRTY_CLASS}`;
+    }
+    this.saved = false;
+    this.update();
+  }
+
+  handleAddRequirement(event: React.ChangeEvent<HTMLSelectElement>): void {
+    if (event.target.value) {
+      this.setRequirements(
+        (this._codeSnippetEditorMetaData.requires ?? []).concat(
+          event.target.value
+        )
+      );
+    }
+  }
+
+  /**
+   * Render the snippets required by the snippet, with the order in which the
+   * missing ones are inserted and the cycles they form.
+   */
+  renderRequirements(): React.ReactElement {
+    const metadata = this._codeSnippetEditorMetaData;
+    const snippets = this.contentsService.snippets;
+    const requires = metadata.requires ?? [];
+    const dependencies = resolveDependencies(metadata, snippets);
+    const others = snippets.filter(
+      (snippet) => snippet.id !== metadata.id && !requires.includes(snippet.id)
+    );
+
+    return (
+      <div className={CODE_SNIPPET_EDITOR_REQUIRES}>
+        <ul className={'jp-codeSnippet-editor-tagList'}>
+          {requires.map((id) => {
+            const required = snippets.find((snippet) => snippet.id === id);
+            return (
+              <li
+                className={'jp-codeSnippet-editor-tag tag applied-tag'}
+                key={id}
+              >
+                <label>{required ? required.name : `${id} (missing)`}</label>
+                <button
+                  title="Remove the requirement"
+                  onClick={(): void =>
+                    this.setRequirements(
+                      requires.filter((requiredId) => requiredId !== id)
+                    )
+                  }
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <select
+          className={CODE_SNIPPET_EDITOR_REQUIRES_INPUT}
+          value=""
+          onChange={this.handleAddRequirement}
+        >
+          <option value="">Add a required snippet…</option>
+          {others.map((snippet) => (
+            <option key={snippet.id} value={snippet.id}>
+              {snippet.name}
+            </option>
+          ))}
+        </select>
+        {dependencies.cycle ? (
+          <div
+            className={`${CODE_SNIPPET_EDITOR_REQUIRES_NOTE} ${CODE_SNIPPET_EDITOR_REQUIRES_ERROR}`}
+          >
+            Cycle: {dependencies.cycle.join(' → ')}
+          </div>
+        ) : (
+          dependencies.snippets.length !== 0 && (
+            <div className={CODE_SNIPPET_EDITOR_REQUIRES_NOTE}>
+              Inserted first when missing:{' '}
+              {dependencies.snippets.map((snippet) => snippet.name).join(', ')}
+            </div>
+          )
+        )}
+      </div>
+    );
+  }
+
   handleOnBlur(event: React.FocusEvent<HTMLInputElement>): void {
     const target = event.target as HTMLElement;
     if (!target.classList.contains('touched')) {
@@ -539,6 +800,7 @@ export class CodeSnippetEditor extends ReactWidget {
 
   render(): React.ReactElement {
     const fromScratch = this._codeSnippetEditorMetaData.fromScratch;
+    const isPrompt = isPromptSnippet(this._codeSnippetEditorMetaData);
     return (
       <div
         className={CODE_SNIPPET_EDITOR_INPUTAREA}
@@ -583,10 +845,34 @@ export class CodeSnippetEditor extends ReactWidget {
             }}
             onBlur={this.handleOnBlur}
           ></input>
-          <label className={CODE_SNIPPET_EDITOR_LABEL}>
-            Language (required)
-          </label>
-          {this.renderLanguages()}
+          <label className={CODE_SNIPPET_EDITOR_LABEL}>Prefix (optional)</label>
+          <input
+            className={CODE_SNIPPET_EDITOR_PREFIX_INPUT}
+            defaultValue={this._codeSnippetEditorMetaData.prefix}
+            placeholder={
+              'Ex. imppd, typed to get the snippet from Tab completion'
+            }
+            type="text"
+            onChange={(event: React.ChangeEvent<HTMLInputElement>): void => {
+              this.handleInputFieldChange(event);
+            }}
+            onBlur={this.handleOnBlur}
+          ></input>
+          <label className={CODE_SNIPPET_EDITOR_LABEL}>Kind</label>
+          <select
+            className={CODE_SNIPPET_EDITOR_KIND_INPUT}
+            defaultValue={isPrompt ? 'prompt' : 'code'}
+            onChange={this.handleKindChange}
+          >
+            <option value="code">Code</option>
+            <option value="prompt">Prompt</option>
+          </select>
+          <div hidden={isPrompt}>
+            <label className={CODE_SNIPPET_EDITOR_LABEL}>
+              Language (required)
+            </label>
+            {this.renderLanguages()}
+          </div>
           <label className={CODE_SNIPPET_EDITOR_LABEL}>Tags</label>
           <CodeSnippetEditorTags
             allSnippetTags={
@@ -606,12 +892,25 @@ export class CodeSnippetEditor extends ReactWidget {
             langTags={this._codeSnippetEditorMetaData.allLangTags}
             handleChange={this.handleChangeOnTag}
           />
+          <label className={CODE_SNIPPET_EDITOR_LABEL}>Requires</label>
+          {this.renderRequirements()}
         </section>
-        <span className={CODE_SNIPPET_EDITOR_LABEL}>Code</span>
+        <span className={CODE_SNIPPET_EDITOR_LABEL}>
+          {isPrompt ? 'Prompt (Markdown, with {{variables}})' : 'Code'}
+        </span>
         {this.renderCodeInput()}
         <Button className="saveBtn" onClick={this.saveChange}>
           {fromScratch ? 'Create & Close' : 'Save'}
         </Button>
+        {!fromScratch && (
+          <section className={CODE_SNIPPET_EDITOR_METADATA}>
+            <label className={CODE_SNIPPET_EDITOR_LABEL}>History</label>
+            <CodeSnippetEditorHistory
+              history={this.getHistory()}
+              handleRestore={this.restoreRevision}
+            />
+          </section>
+        )}
       </div>
     );
   }
@@ -0,0 +1,159 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import React from 'react';
+
+import { sideBySide } from './CodeSnippetDiff';
+import { changedFields } from './CodeSnippetHistory';
+import { ISnippetRevision } from './CodeSnippetService';
+
+interface ICodeSnippetEditorHistoryProps {
+  history: ISnippetRevision[]; // the oldest first
+  handleRestore: (revision: ISnippetRevision) => void;
+}
+interface ICodeSnippetEditorHistoryState {
+  // indices of the compared revisions
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * CSS STYLING
+ */
+const CODE_SNIPPET_EDITOR_HISTORY = 'jp-codeSnippet-editor-history';
+const CODE_SNIPPET_EDITOR_HISTORY_LIST = 'jp-codeSnippet-editor-history-list';
+const CODE_SNIPPET_EDITOR_HISTORY_DATE = 'jp-codeSnippet-editor-history-date';
+const CODE_SNIPPET_EDITOR_HISTORY_COMPARE =
+  'jp-codeSnippet-editor-history-compare';
+const CODE_SNIPPET_EDITOR_HISTORY_NOTE = 'jp-codeSnippet-editor-history-note';
+const CODE_SNIPPET_DIFF = 'jp-codeSnippet-diff';
+
+export class CodeSnippetEditorHistory extends React.Component<
+  ICodeSnippetEditorHistoryProps,
+  ICodeSnippetEditorHistoryState
+> {
+  constructor(props: ICodeSnippetEditorHistoryProps) {
+    super(props);
+    this.state = this.getLatestComparison();
+  }
+
+  componentDidUpdate(prevProps: ICodeSnippetEditorHistoryProps): void {
+    // compare the latest revisions again once a new one is saved
+    const last = (history: ISnippetRevision[]): ISnippetRevision =>
+      history[history.length - 1];
+    if (last(prevProps.history) !== last(this.props.history)) {
+      this.setState(this.getLatestComparison());
+    }
+  }
+
+  private getLatestComparison(): ICodeSnippetEditorHistoryState {
+    const last = this.props.history.length - 1;
+    return { oldIndex: Math.max(last - 1, 0), newIndex: last };
+  }
+
+  private getLabel(index: number): string {
+    const revision = this.props.history[index];
+    const date = revision.timestamp
+      ? new Date(revision.timestamp).toLocaleString()
+      : 'Before the history';
+    return index === this.props.history.length - 1 ? `${date} (latest)` : date;
+  }
+
+  renderRevisions(): JSX.Element {
+    const history = this.props.history;
+    return (
+      <ul className={CODE_SNIPPET_EDITOR_HISTORY_LIST}>
+        {history
+          .map((revision, index) => (
+            <li key={index}>
+              <span className={CODE_SNIPPET_EDITOR_HISTORY_DATE}>
+                {this.getLabel(index)}
+              </span>
+              <span>{revision.metadata.name as string}</span>
+              {index !== history.length - 1 && (
+                <button
+                  className="jp-mod-styled"
+                  title="Load this version in the editor"
+                  onClick={(): void => this.props.handleRestore(revision)}
+                >
+                  Restore
+                </button>
+              )}
+            </li>
+          ))
+          .reverse()}
+      </ul>
+    );
+  }
+
+  renderSelect(value: number, onChange: (index: number) => void): JSX.Element {
+    return (
+      <select
+        className="jp-mod-styled"
+        value={value}
+        onChange={(event: React.ChangeEvent<HTMLSelectElement>): void =>
+          onChange(Number(event.target.value))
+        }
+      >
+        {this.props.history
+          .map((_, index) => (
+            <option key={index} value={index}>
+              {this.getLabel(index)}
+            </option>
+          ))
+          .reverse()}
+      </select>
+    );
+  }
+
+  renderDiff(): JSX.Element {
+    const oldRevision = this.props.history[this.state.oldIndex];
+    const newRevision = this.props.history[this.state.newIndex];
+    const fields = changedFields(oldRevision, newRevision);
+    return (
+      <div>
+        <div className={CODE_SNIPPET_EDITOR_HISTORY_COMPARE}>
+          Compare{' '}
+          {this.renderSelect(this.state.oldIndex, (oldIndex) =>
+            this.setState({ oldIndex })
+          )}{' '}
+          with{' '}
+          {this.renderSelect(this.state.newIndex, (newIndex) =>
+            this.setState({ newIndex })
+          )}
+        </div>
+        {fields.length !== 0 && (
+          <div className={CODE_SNIPPET_EDITOR_HISTORY_NOTE}>
+            Changed: {fields.join(', ')}
+          </div>
+        )}
+        <table className={CODE_SNIPPET_DIFF}>
+          <tbody>
+            {sideBySide(oldRevision.code, newRevision.code).map((row, i) => (
+              <tr className={`${CODE_SNIPPET_DIFF}-${row.type}`} key={i}>
+                <td>{row.oldLine}</td>
+                <td>{row.newLine}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  render(): JSX.Element {
+    if (this.props.history.length === 0) {
+      return (
+        <div className={CODE_SNIPPET_EDITOR_HISTORY_NOTE}>
+          Versions are kept here each time the snippet is saved.
+        </div>
+      );
+    }
+    return (
+      <div className={CODE_SNIPPET_EDITOR_HISTORY}>
+        {this.renderRevisions()}
+        {this.props.history.length > 1 && this.renderDiff()}
+      </div>
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { PathExt } from '@jupyterlab/coreutils';
+
+import { createBundle } from './CodeSnippetBundle';
+import { CodeSnippetContentsService } from './CodeSnippetContentsService';
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * Export snippets as one bundle file, creating its folder if needed.
+ *
+ * @param snippets - the snippets to export
+ * @param path - path of the bundle file relative to the server root
+ * @param name - name of the exported set written in the bundle header
+ *
+ * @returns whether the bundle has been saved.
+ */
+export async function exportSnippets(
+  snippets: ICodeSnippet[],
+  path: string,
+  name: string
+): Promise<boolean> {
+  const contentsService = CodeSnippetContentsService.getInstance();
+
+  if (PathExt.extname(path) !== '.json') {
+    path += '.json';
+  }
+
+  // create the parent folders one by one
+  const dirs = PathExt.dirname(path)
+    .split('/')
+    .filter((dir) => dir !== '' && dir !== '.');
+  let dirPath = '';
+  for (const dir of dirs) {
+    dirPath = PathExt.join(dirPath, dir);
+    try {
+      await contentsService.get(dirPath, { content: false });
+    } catch (error) {
+      const model = await contentsService.save(dirPath, { type: 'directory' });
+      if (model instanceof Error) {
+        console.log(`Error in creating folder ${dirPath}`);
+        return false;
+      }
+    }
+  }
+
+  const bundle = createBundle(snippets, name);
+  const model = await contentsService.save(path, {
+    type: 'file',
+    format: 'text',
+    content: JSON.stringify(bundle, null, 2) + '\n',
+  });
+  if (model instanceof Error) {
+    console.log(`Error in exporting snippets to ${path}`);
+    return false;
+  }
+  return true;
+}
@@ -4,21 +4,34 @@
 import { InputGroup, checkIcon } from '@jupyterlab/ui-components';
 import React from 'react';
 
+import { ISnippetQuery, parseQuery } from './CodeSnippetQuery';
+import {
+  ITagFilter,
+  TagMatchMode,
+  UNTAGGED,
+  isEmptyTagFilter,
+} from './CodeSnippetTagFilter';
+
 interface IFilterSnippetProps {
   tagDictionary: Map<string, string[]>;
   languageTags: string[]; // just lang tags
   snippetTags: string[]; // just snippet tags
-  onFilter: (
-    searchValue: string,
-    filterTags: string[],
-    selectedLangTags: string[]
-  ) => void;
+  onFilter: (query: ISnippetQuery, tagFilter: ITagFilter) => void;
+  // save the search bar and the tag filter as a smart folder
+  onSaveSearch: (searchValue: string, tagFilter: ITagFilter) => void;
 }
 
 interface IFilterSnippetState {
   show: boolean;
   selectedTags: string[];
+  // the snippet tags the snippets must not have
+  excludedTags: string[];
+  matchMode: TagMatchMode;
   searchValue: string;
+  // the last valid query of the search bar
+  query: ISnippetQuery;
+  // why the search bar does not hold a valid query
+  queryError: string | null;
 }
 
 const FILTER_ARROW_UP = 'jp-codeSnippet-filter-arrow-up';
@@ -26,10 +39,19 @@ const FILTER_OPTION = 'jp-codeSnippet-filter-option';
 const FILTER_TAGS = 'jp-codeSnippet-filter-tags';
 const FILTER_TAG = 'jp-codeSnippet-filter-tag';
 const FILTER_CHECK = 'jp-codeSnippet-filter-check';
+const FILTER_UNTAGGED = 'jp-codeSnippet-filter-untagged';
+const FILTER_MODE = 'jp-codeSnippet-filter-mode';
+const FILTER_CHIPS = 'jp-codeSnippet-filter-chips';
+const FILTER_CHIP = 'jp-codeSnippet-filter-chip';
+const FILTER_CHIP_EXCLUDED = 'jp-mod-excluded';
+const FILTER_CHIPS_LABEL = 'jp-codeSnippet-filter-chips-label';
+const FILTER_CHIPS_CLEAR = 'jp-codeSnippet-filter-chips-clear';
+const FILTER_CHIPS_SAVE = 'jp-codeSnippet-filter-chips-save';
 const FILTER_TITLE = 'jp-codeSnippet-filter-title';
 const FILTER_TOOLS = 'jp-codeSnippet-filterTools';
 const FILTER_SEARCHBAR = 'jp-codeSnippet-searchbar';
 const FILTER_SEARCHWRAPPER = 'jp-codeSnippet-searchwrapper';
+const FILTER_SEARCH_ERROR = 'jp-codeSnippet-search-error';
 const FILTER_CLASS = 'jp-codeSnippet-filter';
 const FILTER_BUTTON = 'jp-codeSnippet-filter-btn';
 
@@ -39,12 +61,21 @@ export class FilterTools extends React.Component<
 > {
   constructor(props: IFilterSnippetProps) {
     super(props);
-    this.state = { show: false, selectedTags: [], searchValue: '' }; //--> selectedTags & selectedLangTags
+    this.state = {
+      show: false,
+      selectedTags: [],
+      excludedTags: [],
+      matchMode: 'any',
+      searchValue: '',
+      query: { text: '', filters: [] },
+      queryError: null,
+    }; //--> selectedTags & selectedLangTags
     this.createFilterBox = this.createFilterBox.bind(this);
     this.renderFilterOption = this.renderFilterOption.bind(this);
     this.renderTags = this.renderTags.bind(this);
     this.renderAppliedTag = this.renderAppliedTag.bind(this);
     this.renderUnappliedTag = this.renderUnappliedTag.bind(this);
+    this.renderExcludedTag = this.renderExcludedTag.bind(this);
     this.handleClick = this.handleClick.bind(this);
     this.filterSnippets = this.filterSnippets.bind(this);
   }
@@ -52,12 +83,22 @@ export class FilterTools extends React.Component<
   componentDidUpdate(prevProps: IFilterSnippetProps): void {
     if (prevProps !== this.props) {
       // get all the tags together in one list
-      const concatTags = this.props.snippetTags.concat(this.props.languageTags);
-      this.setState((state) => ({
-        selectedTags: state.selectedTags
-          .filter((tag) => concatTags.includes(tag))
-          .sort(),
-      }));
+      const concatTags = this.props.snippetTags
+        .concat(this.props.languageTags)
+        .concat(UNTAGGED);
+      const selectedTags = this.state.selectedTags.filter((tag) =>
+        concatTags.includes(tag)
+      );
+      const excludedTags = this.state.excludedTags.filter((tag) =>
+        concatTags.includes(tag)
+      );
+      // filter again without the tags that no snippet has anymore
+      if (
+        selectedTags.length !== this.state.selectedTags.length ||
+        excludedTags.length !== this.state.excludedTags.length
+      ) {
+        this.setState({ selectedTags, excludedTags }, this.filterSnippets);
+      }
     }
   }
 
@@ -76,14 +117,11 @@ export class FilterTools extends React.Component<
     );
     return (
       <div className={FILTER_TAGS}>
+        {type === 'snippet' && this.renderTag(UNTAGGED, 'untagged')}
         {tags.sort().map((tag: string, index: number) => {
           // language tags
           if (type === 'language' && this.props.languageTags.includes(tag)) {
-            if (this.state.selectedTags.includes(tag)) {
-              return this.renderAppliedTag(tag, index.toString());
-            } else {
-              return this.renderUnappliedTag(tag, index.toString());
-            }
+            return this.renderTag(tag, index.toString());
           } else if (
             // snippet tags
             type === 'snippet' &&
@@ -95,18 +133,10 @@ export class FilterTools extends React.Component<
                 .get(tag)
                 .some((r) => selectedLanguageTags.includes(r));
               if (langsMatch) {
-                if (this.state.selectedTags.includes(tag)) {
-                  return this.renderAppliedTag(tag, index.toString());
-                } else {
-                  return this.renderUnappliedTag(tag, index.toString());
-                }
+                return this.renderTag(tag, index.toString());
               }
             } else {
-              if (this.state.selectedTags.includes(tag)) {
-                return this.renderAppliedTag(tag, index.toString());
-              } else {
-                return this.renderUnappliedTag(tag, index.toString());
-              }
+              return this.renderTag(tag, index.toString());
             }
           }
         })}
@@ -114,6 +144,16 @@ export class FilterTools extends React.Component<
     );
   }
 
+  renderTag(tag: string, index: string): JSX.Element {
+    if (this.state.selectedTags.includes(tag)) {
+      return this.renderAppliedTag(tag, index);
+    } else if (this.state.excludedTags.includes(tag)) {
+      return this.renderExcludedTag(tag, index);
+    } else {
+      return this.renderUnappliedTag(tag, index);
+    }
+  }
+
   renderAppliedTag(tag: string, index: string): JSX.Element {
     return (
       <div
@@ -121,7 +161,7 @@ export class FilterTools extends React.Component<
         id={'filter' + '-' + tag + '-' + index}
         key={'filter' + '-' + tag + '-' + index}
       >
-        <button onClick={this.handleClick}>{tag}</button>
+        {this.renderTagButton(tag)}
         <checkIcon.react
           className={FILTER_CHECK}
           tag="span"
@@ -142,57 +182,120 @@ export class FilterTools extends React.Component<
         id={'filter' + '-' + tag + '-' + index}
         key={'filter' + '-' + tag + '-' + index}
       >
-        <button onClick={this.handleClick}>{tag}</button>
+        {this.renderTagButton(tag)}
       </div>
     );
   }
 
-  handleClick(event: React.MouseEvent<HTMLButtonElement, MouseEvent>): void {
-    const target = event.target as HTMLElement;
-    const clickedTag = target.innerText;
-    const parent = target.parentElement;
+  renderExcludedTag(tag: string, index: string): JSX.Element {
+    return (
+      <div
+        className={`${FILTER_TAG} tag excluded-tag`}
+        id={'filter' + '-' + tag + '-' + index}
+        key={'filter' + '-' + tag + '-' + index}
+      >
+        {this.renderTagButton(tag)}
+      </div>
+    );
+  }
+
+  // snippet tags go from unapplied to applied to excluded, language tags
+  // from unapplied to applied
+  renderTagButton(tag: string): JSX.Element {
+    const isLanguage = this.props.languageTags.includes(tag);
+    let title = 'Click to show the snippets with this tag';
+    if (this.state.selectedTags.includes(tag)) {
+      title = isLanguage
+        ? 'Click to show all the languages'
+        : 'Click to hide the snippets with this tag';
+    } else if (this.state.excludedTags.includes(tag)) {
+      title = 'Click to stop hiding the snippets with this tag';
+    }
+    return (
+      <button
+        className={tag === UNTAGGED ? FILTER_UNTAGGED : undefined}
+        title={title}
+        onClick={(): void => this.handleClick(tag)}
+      >
+        {this.getTagLabel(tag)}
+      </button>
+    );
+  }
 
+  getTagLabel(tag: string): string {
+    return tag === UNTAGGED ? 'untagged' : tag;
+  }
+
+  handleClick(clickedTag: string): void {
+    const isLanguage = this.props.languageTags.includes(clickedTag);
+    this.setState((state) => {
+      if (state.selectedTags.includes(clickedTag)) {
+        return {
+          selectedTags: state.selectedTags.filter((tag) => tag !== clickedTag),
+          excludedTags: isLanguage
+            ? state.excludedTags
+            : state.excludedTags.concat(clickedTag).sort(),
+        };
+      } else if (state.excludedTags.includes(clickedTag)) {
+        return {
+          selectedTags: state.selectedTags,
+          excludedTags: state.excludedTags.filter((tag) => tag !== clickedTag),
+        };
+      }
+      return {
+        selectedTags: state.selectedTags.concat(clickedTag).sort(),
+        excludedTags: state.excludedTags,
+      };
+    }, this.filterSnippets);
+  }
+
+  // remove a tag from the filter, whether it is applied or excluded
+  handleRemoveTag(removedTag: string): void {
     this.setState(
       (state) => ({
-        selectedTags: this.handleClickHelper(
-          parent,
-          state.selectedTags,
-          clickedTag
-        ),
+        selectedTags: state.selectedTags.filter((tag) => tag !== removedTag),
+        excludedTags: state.excludedTags.filter((tag) => tag !== removedTag),
       }),
       this.filterSnippets
     );
   }
 
-  handleClickHelper(
-    parent: HTMLElement,
-    currentTags: string[],
-    clickedTag: string
-  ): string[] {
-    if (parent.classList.contains('unapplied-tag')) {
-      parent.classList.replace('unapplied-tag', 'applied-tag');
-      currentTags.splice(-1, 0, clickedTag);
-    } else if (parent.classList.contains('applied-tag')) {
-      parent.classList.replace('applied-tag', 'unapplied-tag');
-
-      const idx = currentTags.indexOf(clickedTag);
-      currentTags.splice(idx, 1);
-    }
-    return currentTags.sort();
-  }
+  handleMatchMode = (event: React.ChangeEvent<HTMLSelectElement>): void => {
+    this.setState(
+      { matchMode: event.target.value as TagMatchMode },
+      this.filterSnippets
+    );
+  };
 
+  // keep filtering with the last valid query while the search is invalid
   handleSearch = (event: React.ChangeEvent<HTMLInputElement>): void => {
-    this.setState({ searchValue: event.target.value }, this.filterSnippets);
+    const searchValue = event.target.value;
+    const { query, error } = parseQuery(searchValue);
+    if (error) {
+      this.setState({ searchValue, queryError: error });
+      return;
+    }
+    this.setState(
+      { searchValue, query, queryError: null },
+      this.filterSnippets
+    );
   };
 
-  filterSnippets(): void {
-    this.props.onFilter(
-      this.state.searchValue,
-      this.state.selectedTags,
-      this.state.selectedTags.filter((tag) =>
+  getTagFilter(): ITagFilter {
+    return {
+      tags: this.state.selectedTags.filter(
+        (tag) => !this.props.languageTags.includes(tag)
+      ),
+      excludedTags: this.state.excludedTags,
+      languages: this.state.selectedTags.filter((tag) =>
         this.props.languageTags.includes(tag)
-      )
-    );
+      ),
+      mode: this.state.matchMode,
+    };
+  }
+
+  filterSnippets(): void {
+    this.props.onFilter(this.state.query, this.getTagFilter());
   }
 
   renderFilterOption(): JSX.Element {
@@ -206,16 +309,94 @@ export class FilterTools extends React.Component<
         {this.renderTags(concatTags, 'language')}
         <div className={FILTER_TITLE}>
           <span>snippet tags</span>
+          <select
+            className={FILTER_MODE}
+            title="Whether the snippets must have any or all of the selected tags"
+            value={this.state.matchMode}
+            onChange={this.handleMatchMode}
+          >
+            <option value="any">match any</option>
+            <option value="all">match all</option>
+          </select>
         </div>
         {this.renderTags(concatTags, 'snippet')}
       </div>
     );
   }
 
+  // show the applied and excluded tags as chips that remove them, with a
+  // button saving the search
+  renderChips(): JSX.Element {
+    const tagFilter = this.getTagFilter();
+    const hasSearch =
+      this.state.searchValue.trim() !== '' && !this.state.queryError;
+    if (isEmptyTagFilter(tagFilter) && !hasSearch) {
+      return null;
+    }
+    const renderChip = (tag: string, excluded: boolean): JSX.Element => (
+      <span
+        key={(excluded ? '-' : '+') + tag}
+        className={
+          excluded ? `${FILTER_CHIP} ${FILTER_CHIP_EXCLUDED}` : FILTER_CHIP
+        }
+      >
+        {(excluded ? 'not ' : '') + this.getTagLabel(tag)}
+        <button
+          title="Remove from the filter"
+          onClick={(): void => this.handleRemoveTag(tag)}
+        >
+          ×
+        </button>
+      </span>
+    );
+    return (
+      <div className={FILTER_CHIPS}>
+        {tagFilter.languages.map((tag) => renderChip(tag, false))}
+        {tagFilter.tags.length > 1 && (
+          <span className={FILTER_CHIPS_LABEL}>
+            {tagFilter.mode === 'all' ? 'all of' : 'any of'}
+          </span>
+        )}
+        {tagFilter.tags.map((tag) => renderChip(tag, false))}
+        {tagFilter.excludedTags.map((tag) => renderChip(tag, true))}
+        {!isEmptyTagFilter(tagFilter) && (
+          <button
+            className={FILTER_CHIPS_CLEAR}
+            onClick={(): void =>
+              this.setState(
+                { selectedTags: [], excludedTags: [] },
+                this.filterSnippets
+              )
+            }
+          >
+            Clear
+          </button>
+        )}
+        {!this.state.queryError && (
+          <button
+            className={FILTER_CHIPS_SAVE}
+            title="Save the search and the tags as a smart folder"
+            onClick={(): void =>
+              this.props.onSaveSearch(this.state.searchValue, tagFilter)
+            }
+          >
+            Save search
+          </button>
+        )}
+      </div>
+    );
+  }
+
   render(): JSX.Element {
     return (
       <div className={FILTER_TOOLS}>
-        <div className={FILTER_SEARCHBAR}>
+        <div
+          className={FILTER_SEARCHBAR}
+          title={
+            'Search with words and lang:, tag:, name:, code: or modified: ' +
+            'filters, e.g. lang:python -tag:deprecated name:plot*'
+          }
+        >
           <InputGroup
             className={FILTER_SEARCHWRAPPER}
             type="text"
@@ -224,6 +405,9 @@ export class FilterTools extends React.Component<
             rightIcon="ui-components:search"
             value={this.state.searchValue}
           />
+          {this.state.queryError && (
+            <div className={FILTER_SEARCH_ERROR}>{this.state.queryError}</div>
+          )}
         </div>
         <div className={FILTER_CLASS}>
           <button className={FILTER_BUTTON} onClick={this.createFilterBox}>
@@ -232,6 +416,7 @@ export class FilterTools extends React.Component<
           <div className={`${FILTER_ARROW_UP} idle`}></div>
           {this.renderFilterOption()}
         </div>
+        {this.renderChips()}
       </div>
     );
   }
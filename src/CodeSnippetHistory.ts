@@ -0,0 +1,118 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { PartialJSONObject } from '@lumino/coreutils';
+
+import { ICodeSnippet, ISnippetRevision } from './CodeSnippetService';
+
+/**
+ * The fields of a snippet kept in the metadata of its revisions.
+ */
+export const REVISION_FIELDS = [
+  'name',
+  'description',
+  'language',
+  'tags',
+  'prefix',
+  'kind',
+  'cells',
+  'requires',
+];
+
+/**
+ * Create a revision holding the code and the metadata of a snippet.
+ */
+export function createRevision(
+  snippet: ICodeSnippet,
+  timestamp: string = new Date().toISOString()
+): ISnippetRevision {
+  const metadata: PartialJSONObject = {};
+  for (const field of REVISION_FIELDS) {
+    const value = (snippet as unknown as PartialJSONObject)[field];
+    if (value !== undefined) {
+      metadata[field] = JSON.parse(JSON.stringify(value));
+    }
+  }
+  return { timestamp, code: snippet.code, metadata };
+}
+
+/**
+ * Append a revision to a history, unless it saves the same snippet as the
+ * last revision, keeping the latest revisions only.
+ *
+ * @param limit - the maximum number of revisions kept
+ */
+export function recordRevision(
+  history: ISnippetRevision[],
+  revision: ISnippetRevision,
+  limit: number
+): ISnippetRevision[] {
+  const last = history[history.length - 1];
+  if (last && isSameRevision(last, revision)) {
+    return history;
+  }
+  return history.concat(revision).slice(-Math.max(limit, 1));
+}
+
+/**
+ * Test whether two revisions save the same snippet, whenever they were saved.
+ */
+export function isSameRevision(
+  a: ISnippetRevision,
+  b: ISnippetRevision
+): boolean {
+  return (
+    a.code === b.code &&
+    JSON.stringify(a.metadata) === JSON.stringify(b.metadata)
+  );
+}
+
+/**
+ * Get the fields of a snippet restored from a revision. The fields missing
+ * from the revision are undefined, so that they replace the current ones.
+ */
+export function restoreRevision(
+  revision: ISnippetRevision
+): Partial<ICodeSnippet> {
+  const restored: { [field: string]: unknown } = { code: revision.code };
+  for (const field of REVISION_FIELDS) {
+    const value = revision.metadata[field];
+    restored[field] =
+      value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+  return restored as Partial<ICodeSnippet>;
+}
+
+/**
+ * List the metadata fields that differ between two revisions.
+ */
+export function changedFields(
+  a: ISnippetRevision,
+  b: ISnippetRevision
+): string[] {
+  return REVISION_FIELDS.filter(
+    (field) =>
+      JSON.stringify(a.metadata[field]) !== JSON.stringify(b.metadata[field])
+  );
+}
+
+/**
+ * Get when a snippet was last saved, in milliseconds, from the timestamp of
+ * its latest revision, or null if it has no dated revision.
+ *
+ * #### Notes
+ * The snippets saved outside the editor, e.g. from the save dialog, by
+ * dropping cells or in the settings editor, have no revision: they were
+ * last saved when they were created, as far as is known.
+ */
+export function getModifiedTime(snippet: ICodeSnippet): number | null {
+  const history = snippet.history ?? [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const time = Date.parse(history[i].timestamp);
+    if (!isNaN(time)) {
+      return time;
+    }
+  }
+  const created = Date.parse(snippet.created ?? '');
+  return isNaN(created) ? null : created;
+}
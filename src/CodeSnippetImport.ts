@@ -0,0 +1,165 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { showErrorMessage } from '@jupyterlab/apputils';
+import { PathExt } from '@jupyterlab/coreutils';
+import { Contents } from '@jupyterlab/services';
+
+import { CodeSnippetContentsService } from './CodeSnippetContentsService';
+import { showMessage } from './CodeSnippetMessage';
+import { parseSnippets, IParsedSnippets } from './CodeSnippetParser';
+import {
+  CodeSnippetService,
+  ICodeSnippet,
+  PERSONAL_LIBRARY_ID,
+} from './CodeSnippetService';
+import { ConflictAction, resolveNameConflict } from './CodeSnippetUtilities';
+
+/**
+ * Read the snippets of JSON files and of the JSON files of folders.
+ *
+ * @param paths - paths of files or folders relative to the server root
+ */
+export async function readSnippets(paths: string[]): Promise<IParsedSnippets> {
+  const contentsService = CodeSnippetContentsService.getInstance();
+  const result: IParsedSnippets = { snippets: [], errors: [] };
+
+  const files: string[] = [];
+  for (const path of paths) {
+    let model: Contents.IModel;
+    try {
+      model = await contentsService.get(path, { content: false });
+    } catch (error) {
+      result.errors.push(`${path}: not found`);
+      continue;
+    }
+
+    if (model.type === 'directory') {
+      const directory = await contentsService.get(path, {
+        type: 'directory',
+        content: true,
+      });
+      (directory.content as Contents.IModel[])
+        .filter(
+          (item) =>
+            item.type === 'file' && PathExt.extname(item.path) === '.json'
+        )
+        .forEach((item) => files.push(item.path));
+    } else {
+      files.push(path);
+    }
+  }
+
+  for (const path of files) {
+    let file: Contents.IModel;
+    try {
+      file = await contentsService.get(path, {
+        type: 'file',
+        format: 'text',
+        content: true,
+      });
+    } catch (error) {
+      result.errors.push(`${path}: cannot be read`);
+      continue;
+    }
+    const parsed = parseSnippets(file.content, path);
+    result.snippets.push(...parsed.snippets);
+    result.errors.push(...parsed.errors);
+  }
+  return result;
+}
+
+/**
+ * Import the snippets of JSON files and folders to a library, asking the
+ * user what to do when the name of a snippet is already taken.
+ *
+ * @returns the number of imported snippets.
+ */
+export async function importSnippets(
+  paths: string[],
+  libraryId: string = PERSONAL_LIBRARY_ID
+): Promise<number> {
+  const codeSnippetManager = CodeSnippetService.getCodeSnippetService();
+  const { snippets, errors } = await readSnippets(paths);
+
+  const newSnippets: ICodeSnippet[] = [];
+  const names = new Set<string>();
+  let defaultAction: ConflictAction | null = null;
+  let imported = 0;
+
+  for (const snippet of snippets) {
+    const existing = codeSnippetManager.getSnippetByName(snippet.name)[0];
+    const clashes = existing || names.has(snippet.name.toLowerCase());
+    if (clashes) {
+      const canOverwrite =
+        existing !== undefined && !codeSnippetManager.isReadOnly(existing);
+      let action = defaultAction;
+      if (action === null) {
+        const result = await resolveNameConflict(snippet.name, canOverwrite);
+        action = result.action;
+        if (result.applyToAll) {
+          defaultAction = action;
+        }
+      }
+      if (action === 'overwrite' && !canOverwrite) {
+        action = 'rename';
+      }
+
+      if (action === 'skip') {
+        continue;
+      } else if (action === 'overwrite') {
+        if (
+          await codeSnippetManager.modifyExistingSnippet(existing.id, snippet)
+        ) {
+          imported++;
+        }
+        continue;
+      }
+      snippet.name = Private.uniqueName(
+        snippet.name,
+        codeSnippetManager,
+        names
+      );
+    }
+    names.add(snippet.name.toLowerCase());
+    newSnippets.push(snippet);
+  }
+
+  if (newSnippets.length > 0) {
+    if (await codeSnippetManager.addSnippets(newSnippets, libraryId)) {
+      imported += newSnippets.length;
+    } else {
+      errors.push('Error in saving the imported snippets');
+    }
+  }
+
+  if (errors.length > 0) {
+    void showErrorMessage('Some snippets were not imported', errors.join('\n'));
+  } else if (imported > 0) {
+    void showMessage('import');
+  }
+  return imported;
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Make a name unique among the saved snippets and the snippets being
+   * imported.
+   */
+  export function uniqueName(
+    name: string,
+    codeSnippetManager: CodeSnippetService,
+    names: Set<string>
+  ): string {
+    let newName = codeSnippetManager.uniqueName(name);
+    let i = 1;
+    while (names.has(newName.toLowerCase())) {
+      newName = codeSnippetManager.uniqueName(`${name}_${i}`);
+      i++;
+    }
+    return newName;
+  }
+}
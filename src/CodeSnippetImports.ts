@@ -0,0 +1,200 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+/**
+ * The languages whose imports can be hoisted.
+ */
+const IMPORT_LANGUAGES = ['python', 'r'];
+
+/**
+ * An import statement, with the lines it spans.
+ */
+interface IImportStatement {
+  text: string;
+  // index of its first and last line
+  start: number;
+  end: number;
+}
+
+/**
+ * Test whether the imports of a language can be hoisted.
+ */
+export function isImportLanguage(language: string): boolean {
+  return IMPORT_LANGUAGES.includes(language.toLowerCase());
+}
+
+/**
+ * Split the top-level import statements of Python or R code from the rest
+ * of the code. Statements sharing their line with other code are not
+ * imports.
+ */
+export function splitImports(
+  code: string,
+  language: string
+): { imports: string[]; code: string } {
+  const lines = code.split('\n');
+  const statements = Private.parseStatements(lines, language);
+  const importLines = new Set<number>();
+  for (const statement of statements) {
+    for (let i = statement.start; i <= statement.end; i++) {
+      importLines.add(i);
+    }
+  }
+  return {
+    imports: statements.map((statement) => statement.text),
+    code: lines
+      .filter((line, i) => !importLines.has(i))
+      .join('\n')
+      .replace(/^(\s*\n)+/, ''),
+  };
+}
+
+/**
+ * List the imports that are not in some code yet, each import once.
+ * A Python statement importing several names of which some are already
+ * imported is reduced to the other names, one statement per name.
+ */
+export function missingImports(
+  imports: string[],
+  existingCode: string,
+  language: string
+): string[] {
+  const existing = new Set<string>();
+  for (const statement of splitImports(existingCode, language).imports) {
+    Private.getKeys(statement, language).forEach((key) => existing.add(key));
+  }
+
+  const missing: string[] = [];
+  for (const statement of imports) {
+    const keys = Private.getKeys(statement, language);
+    const newKeys = keys.filter((key) => !existing.has(key));
+    newKeys.forEach((key) => existing.add(key));
+    if (newKeys.length === keys.length) {
+      missing.push(statement);
+    } else {
+      missing.push(...newKeys);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Get where and what to insert in some code to add imports: after its last
+ * import statement, or at its top, below a shebang line.
+ *
+ * @returns the offset and the text to insert, or null if there is nothing to
+ * insert.
+ */
+export function getImportInsertion(
+  code: string,
+  imports: string[],
+  language: string
+): { offset: number; text: string } | null {
+  if (imports.length === 0) {
+    return null;
+  }
+  const lines = code.split('\n');
+  const statements = Private.parseStatements(lines, language);
+  const lineEnd = (index: number): number =>
+    lines.slice(0, index + 1).join('\n').length;
+
+  if (statements.length !== 0) {
+    return {
+      offset: lineEnd(statements[statements.length - 1].end),
+      text: '\n' + imports.join('\n'),
+    };
+  }
+  if (lines.length > 1 && lines[0].startsWith('#!')) {
+    return { offset: lineEnd(0), text: '\n' + imports.join('\n') };
+  }
+  return { offset: 0, text: imports.join('\n') + '\n' };
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The first line of a Python import statement.
+   */
+  export const PYTHON_IMPORT = /^(import|from\s+\S+\s+import)\s/;
+
+  /**
+   * An R statement attaching a package, with the package as first group.
+   */
+  export const R_IMPORT =
+    /^(?:suppressPackageStartupMessages\(\s*)?(?:library|require)\(\s*["']?([\w.]+)["']?\s*\)\s*\)?\s*(#.*)?$/;
+
+  /**
+   * Find the top-level import statements of some lines.
+   */
+  export function parseStatements(
+    lines: string[],
+    language: string
+  ): IImportStatement[] {
+    const statements: IImportStatement[] = [];
+    const isPython = language.toLowerCase() === 'python';
+    for (let i = 0; i < lines.length; i++) {
+      if (isPython && PYTHON_IMPORT.test(lines[i])) {
+        // follow the parentheses and backslashes to the end of the statement
+        let end = i;
+        let text = lines[i];
+        while (end + 1 < lines.length && isContinued(text)) {
+          text += '\n' + lines[++end];
+        }
+        if (!stripComment(text).includes(';')) {
+          statements.push({ text, start: i, end });
+        }
+        i = end;
+      } else if (!isPython && R_IMPORT.test(lines[i])) {
+        statements.push({ text: lines[i], start: i, end: i });
+      }
+    }
+    return statements;
+  }
+
+  /**
+   * Get the imports of a statement in a canonical form, to compare them
+   * whatever the formatting: one Python import per name, `library(name)` in
+   * R.
+   */
+  export function getKeys(statement: string, language: string): string[] {
+    if (language.toLowerCase() !== 'python') {
+      const match = R_IMPORT.exec(statement);
+      return match ? [`library(${match[1]})`] : [];
+    }
+    const text = stripComment(statement)
+      .replace(/\\\n/g, ' ')
+      .replace(/[()]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const fromMatch = /^from (\S+) import (.*)$/.exec(text);
+    const head = fromMatch ? `from ${fromMatch[1]} import ` : 'import ';
+    const names = fromMatch ? fromMatch[2] : text.slice('import '.length);
+    return names
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name !== '')
+      .map((name) => head + name);
+  }
+
+  /**
+   * Test whether a Python statement goes on after its last line.
+   */
+  export function isContinued(text: string): boolean {
+    const code = stripComment(text);
+    const open = (code.match(/\(/g) ?? []).length;
+    const close = (code.match(/\)/g) ?? []).length;
+    return open > close || code.endsWith('\\');
+  }
+
+  /**
+   * Remove the comments of the lines of a statement.
+   */
+  export function stripComment(text: string): string {
+    return text
+      .split('\n')
+      .map((line) => line.replace(/\s*#.*$/, '').replace(/\s+$/, ''))
+      .join('\n');
+  }
+}
@@ -7,8 +7,14 @@ import { Contents } from '@jupyterlab/services';
 
 import { Widget } from '@lumino/widgets';
 import { Message } from '@lumino/messaging';
-
-import { ICodeSnippet, CodeSnippetService } from './CodeSnippetService';
+import { UUID } from '@lumino/coreutils';
+
+import {
+  ICodeSnippet,
+  ISnippetCell,
+  CodeSnippetService,
+  PERSONAL_LIBRARY_ID,
+} from './CodeSnippetService';
 import { showMessage } from './CodeSnippetMessage';
 
 import { CodeSnippetWidget } from './CodeSnippetWidget';
@@ -93,12 +99,17 @@ function showCodeSnippetDialog<T>(
 /**
  * Save an input with a dialog. This is what actually displays everything.
  * Result.value is the value retrieved from .getValue(). ---> .getValue() returns an array of inputs.
+ *
+ * @param cells - the notebook cells of a multi-cell snippet, whose joined
+ * sources are the code
  */
 export function CodeSnippetInputDialog(
   codeSnippetWidget: CodeSnippetWidget,
   code: string,
   language: string,
-  idx: number
+  idx: number,
+  library: string = PERSONAL_LIBRARY_ID,
+  cells?: ISnippetCell[]
 ): Promise<Contents.IModel | null> {
   const tags: string[] = [];
   const langTags: string[] = [];
@@ -129,7 +140,9 @@ export function CodeSnippetInputDialog(
     codeSnippetManager,
     code,
     language,
-    body
+    body,
+    library,
+    cells
   );
 }
 
@@ -143,7 +156,9 @@ export function showInputDialog(
   codeSnippetManager: CodeSnippetService,
   code: string,
   language: string,
-  body: InputHandler
+  body: InputHandler,
+  library: string = PERSONAL_LIBRARY_ID,
+  cells?: ISnippetCell[]
 ): Promise<Contents.IModel | null> {
   return showCodeSnippetDialog({
     title: 'Save Code Snippet',
@@ -166,7 +181,9 @@ export function showInputDialog(
         codeSnippetManager,
         code,
         language,
-        body
+        body,
+        library,
+        cells
       );
     } else {
       const tags = result.value.slice(3);
@@ -175,8 +192,11 @@ export function showInputDialog(
         description: descriptionInput,
         language: languageInput,
         code: code,
-        id: idx,
+        id: UUID.uuid4(),
+        order: idx,
         tags: tags,
+        library: library,
+        cells: cells,
       };
 
       for (const snippet of codeSnippetManager.snippets) {
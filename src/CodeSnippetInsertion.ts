@@ -0,0 +1,191 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { Dialog, showDialog } from '@jupyterlab/apputils';
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { CodeConsole } from '@jupyterlab/console';
+import { Notebook } from '@jupyterlab/notebook';
+import { ITerminal } from '@jupyterlab/terminal';
+
+import { Widget } from '@lumino/widgets';
+
+import { CodeSnippetService } from './CodeSnippetService';
+import { SnippetSession } from './CodeSnippetSession';
+import { IExpandedTemplate } from './CodeSnippetTemplate';
+
+/**
+ * The CSS class of the insertion form.
+ */
+const INSERTION_FORM = 'jp-codeSnippet-insertion-form';
+
+/**
+ * Where a snippet is inserted in a notebook: in place of the selection of the
+ * active cell, or as new cells above or below the active cell, or at the end
+ * of the notebook.
+ */
+export type InsertionMode = 'replace' | 'above' | 'below' | 'end';
+
+/**
+ * How a snippet is inserted in a notebook.
+ */
+export interface IInsertionOptions {
+  mode: InsertionMode;
+  // whether the new cells are run once inserted
+  run: boolean;
+}
+
+/**
+ * The labels of the insertion modes, in the order they are offered.
+ */
+export const INSERTION_MODES: { [mode in InsertionMode]: string } = {
+  replace: 'Replace selection',
+  above: 'New cell above',
+  below: 'New cell below',
+  end: 'New cell at end of notebook',
+};
+
+/**
+ * Read the insertion options of the extension settings, used by the "Insert
+ * snippet" option.
+ */
+export function getInsertionOptions(): IInsertionOptions {
+  const settings = CodeSnippetService.getCodeSnippetService().settings;
+  return {
+    mode: settings.get('insertionMode').composite as InsertionMode,
+    run: settings.get('runInsertedCells').composite as boolean,
+  };
+}
+
+/**
+ * Ask how to insert a snippet, starting from the options of the settings.
+ *
+ * @returns the chosen options, or null if the user cancelled.
+ */
+export async function askInsertionOptions(
+  name: string
+): Promise<IInsertionOptions | null> {
+  const result = await showDialog({
+    title: `Insert "${name}"`,
+    body: new InsertionHandler(getInsertionOptions()),
+    buttons: [Dialog.cancelButton(), Dialog.okButton({ label: 'Insert' })],
+  });
+  return result.button.accept ? result.value : null;
+}
+
+/**
+ * Get the index of the first cell inserted in a notebook. New cells cannot
+ * replace a selection, so they are inserted below the active cell in the
+ * `replace` mode.
+ */
+export function getInsertionIndex(
+  notebook: Notebook,
+  mode: InsertionMode
+): number {
+  switch (mode) {
+    case 'above':
+      return Math.max(notebook.activeCellIndex, 0);
+    case 'end':
+      return notebook.widgets.length;
+    default:
+      return notebook.activeCellIndex + 1;
+  }
+}
+
+/**
+ * Replace the selection of an editor with a filled template, wrapped in a
+ * prefix and a suffix, and start a tab-stop session on its numbered
+ * placeholders.
+ */
+export function insertTemplate(
+  editor: CodeEditor.IEditor,
+  template: IExpandedTemplate,
+  prefix = '',
+  suffix = ''
+): void {
+  const selection = editor.getSelection();
+  const start = Math.min(
+    editor.getOffsetAt(selection.start),
+    editor.getOffsetAt(selection.end)
+  );
+  editor.replaceSelection?.(prefix + template.text + suffix);
+  SnippetSession.start(editor, start + prefix.length, template.fields);
+}
+
+/**
+ * Insert a filled template in the prompt cell of a console, then execute it
+ * if asked to.
+ *
+ * @returns whether the console had a prompt cell to insert the template in.
+ */
+export async function insertIntoConsole(
+  console: CodeConsole,
+  template: IExpandedTemplate,
+  run: boolean
+): Promise<boolean> {
+  const promptCell = console.promptCell;
+  if (!promptCell) {
+    return false;
+  }
+  if (run) {
+    promptCell.editor.replaceSelection?.(template.text);
+    await console.execute(true);
+  } else {
+    insertTemplate(promptCell.editor, template);
+  }
+  return true;
+}
+
+/**
+ * Send a filled template to a terminal as typed text, followed by Enter if
+ * asked to run it.
+ */
+export function sendToTerminal(
+  terminal: ITerminal.ITerminal,
+  text: string,
+  run: boolean
+): void {
+  terminal.session.send({
+    type: 'stdin',
+    content: [run ? text + '\r' : text],
+  });
+}
+
+/**
+ * The body of the insertion dialog.
+ */
+class InsertionHandler extends Widget {
+  constructor(options: IInsertionOptions) {
+    super({ node: document.createElement('div') });
+    this.addClass(INSERTION_FORM);
+
+    this._select = document.createElement('select');
+    this._select.className = 'jp-mod-styled';
+    for (const [mode, label] of Object.entries(INSERTION_MODES)) {
+      const option = document.createElement('option');
+      option.value = mode;
+      option.textContent = label;
+      this._select.appendChild(option);
+    }
+    this._select.value = options.mode;
+
+    const label = document.createElement('label');
+    this._checkbox = document.createElement('input');
+    this._checkbox.type = 'checkbox';
+    this._checkbox.checked = options.run;
+    label.appendChild(this._checkbox);
+    label.appendChild(document.createTextNode(' Run the new cells'));
+
+    this.node.appendChild(this._select);
+    this.node.appendChild(label);
+  }
+
+  getValue(): IInsertionOptions {
+    return {
+      mode: this._select.value as InsertionMode,
+      run: this._checkbox.checked,
+    };
+  }
+
+  private _select: HTMLSelectElement;
+  private _checkbox: HTMLInputElement;
+}
@@ -0,0 +1,158 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ISessionContext } from '@jupyterlab/apputils';
+
+/**
+ * How long to wait for a busy kernel, in milliseconds.
+ */
+const EVALUATION_TIMEOUT = 5000;
+
+/**
+ * The outcome of the evaluation of an expression in a kernel.
+ */
+export interface IEvaluation {
+  // the values of the expression, one per item when it is a list, or null if
+  // there is no kernel, the kernel is too slow or the expression fails
+  values: string[] | null;
+  // whether the kernel was too busy to answer in time: the request cannot be
+  // taken back, so the expression is still evaluated once the kernel is free
+  pending: boolean;
+}
+
+/**
+ * Evaluate an expression in the kernel of a session, without adding it to
+ * the history.
+ */
+export async function evaluateExpression(
+  sessionContext: ISessionContext | null,
+  expression: string,
+  timeout = EVALUATION_TIMEOUT
+): Promise<IEvaluation> {
+  const kernel = sessionContext?.session?.kernel;
+  if (!kernel) {
+    return { values: null, pending: false };
+  }
+
+  const future = kernel.requestExecute({
+    code: '',
+    silent: true,
+    store_history: false,
+    user_expressions: { value: expression },
+  });
+  let timer: number | undefined;
+  const expired = new Promise<null>((resolve) => {
+    timer = window.setTimeout(() => resolve(null), timeout);
+  });
+
+  try {
+    const reply = await Promise.race([future.done, expired]);
+    if (!reply) {
+      return { values: null, pending: true };
+    }
+    if (reply.content.status !== 'ok') {
+      return { values: null, pending: false };
+    }
+    const result = reply.content.user_expressions['value'] as {
+      status: string;
+      data?: { [mime: string]: string };
+    };
+    if (result?.status !== 'ok' || !result.data) {
+      return { values: null, pending: false };
+    }
+    return {
+      values: parseKernelValue(result.data['text/plain'] ?? ''),
+      pending: false,
+    };
+  } catch (error) {
+    console.log('Error in evaluating a template expression');
+    return { values: null, pending: false };
+  } finally {
+    window.clearTimeout(timer);
+    future.dispose();
+  }
+}
+
+/**
+ * Split the plain text representation of a value into its items: the
+ * strings or numbers of a Python or JSON list, tuple or set, or of an R
+ * vector, or the value itself.
+ */
+export function parseKernelValue(text: string): string[] {
+  let value = text.trim();
+
+  // R vectors are printed with the index of the first item of each line
+  if (/^\[\d+\]/.test(value)) {
+    const items = value
+      .replace(/\[\d+\]/g, ' ')
+      .match(/"(?:\\.|[^"\\])*"|\S+/g);
+    return (items ?? []).map(Private.unquote);
+  }
+
+  const open = value.charAt(0);
+  const close = value.charAt(value.length - 1);
+  if (
+    (open === '[' && close === ']') ||
+    (open === '(' && close === ')') ||
+    (open === '{' && close === '}')
+  ) {
+    value = value.slice(1, -1).trim();
+    return value === ''
+      ? []
+      : Private.splitItems(value)
+          .map((item) => Private.unquote(item.trim()))
+          .filter((item) => item !== '');
+  }
+  return [Private.unquote(value)];
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Split the items of a list on the commas outside of quotes and brackets.
+   */
+  export function splitItems(text: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charAt(i);
+      if (quote) {
+        if (char === '\\') {
+          i++;
+        } else if (char === quote) {
+          quote = '';
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        items.push(text.slice(start, i));
+        start = i + 1;
+      }
+    }
+    items.push(text.slice(start));
+    return items;
+  }
+
+  /**
+   * Remove the quotes of a string literal and its escapes.
+   */
+  export function unquote(text: string): string {
+    const quote = text.charAt(0);
+    if (
+      text.length >= 2 &&
+      (quote === '"' || quote === "'") &&
+      text.charAt(text.length - 1) === quote
+    ) {
+      return text.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    return text;
+  }
+}
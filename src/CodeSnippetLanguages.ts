@@ -42,6 +42,9 @@ import schemeSVGstr from '../style/icon/language_icons/scheme.svg';
 import typescriptSVGstr from '../style/icon/language_icons/typescript.svg';
 import markdownSVGstr from '../style/icon/language_icons/markdown.svg';
 import powershellSVGstr from '../style/icon/language_icons/powershell.svg';
+import promptSVGstr from '../style/icon/jupyter_prompticon.svg';
+
+import { ICodeSnippet } from './CodeSnippetService';
 
 /**
  * List of languages supported by JupyterLab
@@ -310,3 +313,45 @@ export const powershellIcon = new LabIcon({
   name: 'custom-ui-components:powershell',
   svgstr: powershellSVGstr,
 });
+
+export const promptIcon = new LabIcon({
+  name: 'custom-ui-components:prompt',
+  svgstr: promptSVGstr,
+});
+
+/**
+ * The language of prompt snippets, which sets the mode of their editor.
+ */
+export const PROMPT_LANGUAGE = 'Markdown';
+
+/**
+ * The language tag of prompt snippets in the filter.
+ */
+export const PROMPT_TAG = 'Prompt';
+
+/**
+ * Test whether a snippet is a prompt template rather than code.
+ */
+export function isPromptSnippet(snippet: ICodeSnippet): boolean {
+  return snippet.kind === 'prompt';
+}
+
+/**
+ * The languages of the snippets sent to terminals without a warning.
+ */
+export const SHELL_LANGUAGES = ['bash', 'zsh', 'sh', 'shell'];
+
+/**
+ * Test whether a snippet holds shell commands.
+ */
+export function isShellSnippet(snippet: ICodeSnippet): boolean {
+  return SHELL_LANGUAGES.includes(snippet.language.toLowerCase());
+}
+
+/**
+ * Get the language tag of a snippet: its language, or `Prompt` for prompt
+ * snippets.
+ */
+export function getLanguageTag(snippet: ICodeSnippet): string {
+  return isPromptSnippet(snippet) ? PROMPT_TAG : snippet.language;
+}
@@ -0,0 +1,264 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { IDiffHunk, diffLines } from './CodeSnippetDiff';
+import { ICodeSnippet, ISnippetRevision } from './CodeSnippetService';
+
+/**
+ * A snippet changed in different ways here and in its storage, or deleted on
+ * one side and changed on the other.
+ */
+export interface ISnippetConflict {
+  base: ICodeSnippet | undefined;
+  local: ICodeSnippet | undefined;
+  remote: ICodeSnippet | undefined;
+}
+
+/**
+ * The snippets merged from the changes made here and in the storage.
+ */
+export interface IMergeResult {
+  // the merged snippets, without the conflicting ones
+  snippets: ICodeSnippet[];
+  conflicts: ISnippetConflict[];
+}
+
+/**
+ * Merge the snippets of a library changed here and in its storage since they
+ * were last in sync, snippet by snippet and field by field.
+ *
+ * #### Notes
+ * A field changed on one side only takes the changed value, and code changed
+ * on both sides is merged line by line. The order is never a conflict: the
+ * local order wins when both sides moved a snippet.
+ *
+ * @param base - the snippets when they were last in sync
+ * @param local - the snippets here
+ * @param remote - the snippets in the storage
+ *
+ * @returns the merged snippets sorted by their order, and the conflicts.
+ */
+export function mergeSnippetLists(
+  base: ICodeSnippet[],
+  local: ICodeSnippet[],
+  remote: ICodeSnippet[]
+): IMergeResult {
+  const byId = (snippets: ICodeSnippet[]): Map<string, ICodeSnippet> =>
+    new Map(snippets.map((snippet) => [snippet.id, snippet]));
+  const baseById = byId(base);
+  const localById = byId(local);
+  const remoteById = byId(remote);
+
+  const ids: string[] = [];
+  for (const snippet of local.concat(remote)) {
+    if (!ids.includes(snippet.id)) {
+      ids.push(snippet.id);
+    }
+  }
+
+  const result: IMergeResult = { snippets: [], conflicts: [] };
+  for (const id of ids) {
+    const conflict = {
+      base: baseById.get(id),
+      local: localById.get(id),
+      remote: remoteById.get(id),
+    };
+    const merged = Private.mergeSnippet(
+      conflict.base,
+      conflict.local,
+      conflict.remote
+    );
+    if (merged === null) {
+      result.conflicts.push(conflict);
+    } else if (merged !== undefined) {
+      result.snippets.push(merged);
+    }
+  }
+  result.snippets.sort((a, b) => a.order - b.order);
+  return result;
+}
+
+/**
+ * Merge the lines of a text changed in two ways, like `diff3`.
+ *
+ * @returns the merged text, or null if both sides changed the same or
+ * adjacent lines differently.
+ */
+export function mergeLines(
+  base: string,
+  local: string,
+  remote: string
+): string | null {
+  const baseLines = base.split('\n');
+  const sides = [local.split('\n'), remote.split('\n')];
+  const hunks = sides.map((lines) => diffLines(baseLines, lines));
+
+  // the changes of both sides in the order of the base lines
+  const changes = hunks
+    .map((sideHunks, side) =>
+      sideHunks
+        .filter((hunk) => hunk.type === 'change')
+        .map((hunk) => ({ side, hunk }))
+    )
+    .reduce((all, sideChanges) => all.concat(sideChanges), [])
+    .sort((a, b) => a.hunk.oldStart - b.hunk.oldStart);
+
+  const merged: string[] = [];
+  let position = 0;
+  let i = 0;
+  while (i < changes.length) {
+    // group the changes whose base lines overlap or touch
+    const start = changes[i].hunk.oldStart;
+    let end = changes[i].hunk.oldEnd;
+    const groupSides = new Set<number>([changes[i].side]);
+    i++;
+    while (i < changes.length && changes[i].hunk.oldStart <= end) {
+      end = Math.max(end, changes[i].hunk.oldEnd);
+      groupSides.add(changes[i].side);
+      i++;
+    }
+
+    merged.push(...baseLines.slice(position, start));
+    const texts = Array.from(groupSides).map((side) =>
+      Private.mapRange(hunks[side], sides[side], start, end)
+    );
+    if (texts.length > 1 && texts[0].join('\n') !== texts[1].join('\n')) {
+      return null;
+    }
+    merged.push(...texts[0]);
+    position = end;
+  }
+  merged.push(...baseLines.slice(position));
+  return merged.join('\n');
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The fields of a snippet that are not merged.
+   */
+  export const IGNORED_FIELDS = ['id', 'library'];
+
+  /**
+   * Merge the versions of a snippet.
+   *
+   * @returns the merged snippet, undefined if it is deleted, or null if the
+   * versions conflict.
+   */
+  export function mergeSnippet(
+    base: ICodeSnippet | undefined,
+    local: ICodeSnippet | undefined,
+    remote: ICodeSnippet | undefined
+  ): ICodeSnippet | undefined | null {
+    if (isEqual(local, remote)) {
+      return local;
+    }
+    if (isEqual(local, base)) {
+      return remote;
+    }
+    if (isEqual(remote, base)) {
+      return local;
+    }
+    if (!local || !remote) {
+      // deleted on one side and changed on the other
+      return null;
+    }
+
+    const merged: { [field: string]: unknown } = { ...local };
+    const fields = new Set(Object.keys(local).concat(Object.keys(remote)));
+    for (const field of fields) {
+      if (IGNORED_FIELDS.includes(field)) {
+        continue;
+      }
+      const values = [base, local, remote].map(
+        (snippet) =>
+          (snippet as unknown as { [field: string]: unknown })?.[field]
+      );
+      const [baseValue, localValue, remoteValue] = values.map((value) =>
+        JSON.stringify(value)
+      );
+      if (localValue === remoteValue || remoteValue === baseValue) {
+        continue;
+      }
+      if (localValue === baseValue) {
+        merged[field] = values[2];
+      } else if (field === 'order') {
+        continue;
+      } else if (field === 'history') {
+        merged[field] = mergeHistories(
+          (values[1] ?? []) as ISnippetRevision[],
+          (values[2] ?? []) as ISnippetRevision[]
+        );
+      } else if (field === 'code' && base) {
+        const code = mergeLines(base.code, local.code, remote.code);
+        if (code === null) {
+          return null;
+        }
+        merged[field] = code;
+      } else {
+        return null;
+      }
+    }
+    return merged as unknown as ICodeSnippet;
+  }
+
+  /**
+   * Test whether two versions of a snippet have the same fields.
+   */
+  export function isEqual(
+    a: ICodeSnippet | undefined,
+    b: ICodeSnippet | undefined
+  ): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Merge the revisions saved on both sides, sorted by their date.
+   */
+  export function mergeHistories(
+    local: ISnippetRevision[],
+    remote: ISnippetRevision[]
+  ): ISnippetRevision[] {
+    const keys = new Set(local.map((revision) => JSON.stringify(revision)));
+    return local
+      .concat(remote.filter((revision) => !keys.has(JSON.stringify(revision))))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Get the lines of a side that replace a range of base lines, the range
+   * starting and ending at the bounds of the changes of the side or between
+   * them.
+   */
+  export function mapRange(
+    hunks: IDiffHunk[],
+    lines: string[],
+    start: number,
+    end: number
+  ): string[] {
+    const map = (position: number, hunk: IDiffHunk, isEnd: boolean): number => {
+      if (hunk.type === 'equal') {
+        return hunk.newStart + position - hunk.oldStart;
+      }
+      // an insertion is both at the start and at the end of its base range
+      if (isEnd) {
+        return position === hunk.oldEnd ? hunk.newEnd : hunk.newStart;
+      }
+      return position === hunk.oldStart ? hunk.newStart : hunk.newEnd;
+    };
+    const contains = (hunk: IDiffHunk, position: number): boolean =>
+      hunk.oldStart <= position && position <= hunk.oldEnd;
+
+    const first = hunks.find((hunk) => contains(hunk, start));
+    const last = hunks
+      .slice()
+      .reverse()
+      .find((hunk) => contains(hunk, end));
+    return lines.slice(
+      first ? map(start, first, false) : 0,
+      last ? map(end, last, true) : lines.length
+    );
+  }
+}
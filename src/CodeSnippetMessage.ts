@@ -105,6 +105,8 @@ namespace Private {
       message.textContent = 'Saved to Clipboard!';
     } else if (type === 'export') {
       message.textContent = 'Exported the Snippet!';
+    } else if (type === 'import') {
+      message.textContent = 'Imported the Snippets!';
     }
     messageContainer.appendChild(message);
     body.append(messageContainer);
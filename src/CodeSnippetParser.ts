@@ -0,0 +1,302 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import {
+  ICodeSnippet,
+  ISnippetCell,
+  ISnippetRevision,
+} from './CodeSnippetService';
+import { BUNDLE_VERSION, isBundle } from './CodeSnippetBundle';
+
+/**
+ * The snippets read from a JSON document and the reasons why the other
+ * entries of the document were rejected.
+ */
+export interface IParsedSnippets {
+  snippets: ICodeSnippet[];
+  errors: string[];
+}
+
+/**
+ * Properties allowed in a snippet by the `snippet` definition of the
+ * settings schema.
+ */
+const SNIPPET_PROPERTIES = [
+  'id',
+  'order',
+  'name',
+  'description',
+  'language',
+  'code',
+  'tags',
+  'prefix',
+  'kind',
+  'cells',
+  'requires',
+  'history',
+  'created',
+];
+
+/**
+ * Parse a JSON document holding a single snippet, an array of snippets or a
+ * bundle of exported snippets.
+ * The code of a snippet and the sources of its cells may be strings or
+ * arrays of lines, as in the files of `snippets_example/`.
+ *
+ * @param content - the JSON text
+ * @param source - where the content comes from, used in error messages
+ */
+export function parseSnippets(
+  content: string,
+  source: string
+): IParsedSnippets {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return { snippets: [], errors: [`${source}: invalid JSON`] };
+  }
+
+  if (isBundle(value)) {
+    if (value.version > BUNDLE_VERSION) {
+      return {
+        snippets: [],
+        errors: [`${source}: unsupported bundle version ${value.version}`],
+      };
+    }
+    value = value.snippets;
+  }
+
+  const entries = Array.isArray(value) ? value : [value];
+  const result: IParsedSnippets = { snippets: [], errors: [] };
+  entries.forEach((entry, i) => {
+    const location = Array.isArray(value) ? `${source}[${i}]` : source;
+    const error = validateSnippet(entry);
+    if (error) {
+      result.errors.push(`${location}: ${error}`);
+    } else {
+      result.snippets.push(toSnippet(entry as { [key: string]: any }));
+    }
+  });
+  return result;
+}
+
+/**
+ * Check a value against the snippet schema.
+ *
+ * @returns a description of the first problem found, or null if the value
+ * is a valid snippet.
+ */
+export function validateSnippet(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'a snippet must be an object';
+  }
+  const snippet = value as { [key: string]: unknown };
+
+  for (const key of Object.keys(snippet)) {
+    if (!SNIPPET_PROPERTIES.includes(key)) {
+      return `unknown property "${key}"`;
+    }
+  }
+  if (typeof snippet.name !== 'string' || snippet.name.trim() === '') {
+    return '"name" must be a non-empty string';
+  }
+  if (typeof snippet.language !== 'string' || snippet.language === '') {
+    return '"language" must be a non-empty string';
+  }
+  if (
+    typeof snippet.code !== 'string' &&
+    !(
+      Array.isArray(snippet.code) &&
+      snippet.code.every((line) => typeof line === 'string')
+    )
+  ) {
+    return '"code" must be a string or an array of strings';
+  }
+  if (
+    snippet.description !== undefined &&
+    typeof snippet.description !== 'string'
+  ) {
+    return '"description" must be a string';
+  }
+  if (
+    snippet.tags !== undefined &&
+    !(
+      Array.isArray(snippet.tags) &&
+      snippet.tags.every((tag) => typeof tag === 'string')
+    )
+  ) {
+    return '"tags" must be an array of strings';
+  }
+  if (
+    snippet.id !== undefined &&
+    typeof snippet.id !== 'string' &&
+    typeof snippet.id !== 'number'
+  ) {
+    return '"id" must be a string or a number';
+  }
+  if (snippet.order !== undefined && typeof snippet.order !== 'number') {
+    return '"order" must be a number';
+  }
+  if (snippet.prefix !== undefined && typeof snippet.prefix !== 'string') {
+    return '"prefix" must be a string';
+  }
+  if (
+    snippet.kind !== undefined &&
+    snippet.kind !== 'code' &&
+    snippet.kind !== 'prompt'
+  ) {
+    return '"kind" must be "code" or "prompt"';
+  }
+  if (
+    snippet.requires !== undefined &&
+    !(
+      Array.isArray(snippet.requires) &&
+      snippet.requires.every((id) => typeof id === 'string')
+    )
+  ) {
+    return '"requires" must be an array of snippet ids';
+  }
+  if (snippet.created !== undefined && typeof snippet.created !== 'string') {
+    return '"created" must be a date string';
+  }
+  if (snippet.history !== undefined) {
+    if (!Array.isArray(snippet.history)) {
+      return '"history" must be an array of revisions';
+    }
+    for (let i = 0; i < snippet.history.length; i++) {
+      const error = validateRevision(snippet.history[i]);
+      if (error) {
+        return `history[${i}]: ${error}`;
+      }
+    }
+  }
+  if (snippet.cells !== undefined) {
+    if (!Array.isArray(snippet.cells)) {
+      return '"cells" must be an array of cells';
+    }
+    for (let i = 0; i < snippet.cells.length; i++) {
+      const error = validateCell(snippet.cells[i]);
+      if (error) {
+        return `cells[${i}]: ${error}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a value against the cell definition of the snippet schema.
+ */
+function validateCell(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'a cell must be an object';
+  }
+  const cell = value as { [key: string]: unknown };
+  if (cell.cell_type !== 'code' && cell.cell_type !== 'markdown') {
+    return '"cell_type" must be "code" or "markdown"';
+  }
+  if (
+    typeof cell.source !== 'string' &&
+    !(
+      Array.isArray(cell.source) &&
+      cell.source.every((line) => typeof line === 'string')
+    )
+  ) {
+    return '"source" must be a string or an array of strings';
+  }
+  if (
+    cell.metadata !== undefined &&
+    (!cell.metadata ||
+      typeof cell.metadata !== 'object' ||
+      Array.isArray(cell.metadata))
+  ) {
+    return '"metadata" must be an object';
+  }
+  return null;
+}
+
+/**
+ * Check a value against the revision definition of the snippet schema.
+ */
+function validateRevision(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'a revision must be an object';
+  }
+  const revision = value as { [key: string]: unknown };
+  if (typeof revision.timestamp !== 'string') {
+    return '"timestamp" must be a string';
+  }
+  if (
+    typeof revision.code !== 'string' &&
+    !(
+      Array.isArray(revision.code) &&
+      revision.code.every((line) => typeof line === 'string')
+    )
+  ) {
+    return '"code" must be a string or an array of strings';
+  }
+  if (
+    !revision.metadata ||
+    typeof revision.metadata !== 'object' ||
+    Array.isArray(revision.metadata)
+  ) {
+    return '"metadata" must be an object';
+  }
+  return null;
+}
+
+/**
+ * Convert a valid snippet object to a snippet with its code as a string.
+ * The numeric id of a snippet saved by an older version is its position,
+ * and it is kept as its order if it has none.
+ */
+export function toSnippet(value: { [key: string]: any }): ICodeSnippet {
+  const snippet: ICodeSnippet = {
+    name: value.name,
+    description: value.description ?? '',
+    language: value.language,
+    code: Array.isArray(value.code) ? value.code.join('\n') : value.code,
+    id: typeof value.id === 'string' ? value.id : '',
+    order: value.order ?? (typeof value.id === 'number' ? value.id : undefined),
+    tags: value.tags ?? [],
+  };
+  if (value.prefix) {
+    snippet.prefix = value.prefix;
+  }
+  if (value.kind === 'prompt') {
+    snippet.kind = value.kind;
+  }
+  if (value.requires && value.requires.length !== 0) {
+    snippet.requires = value.requires;
+  }
+  if (value.created) {
+    snippet.created = value.created;
+  }
+  if (value.cells && value.cells.length !== 0) {
+    snippet.cells = value.cells.map((cell: { [key: string]: any }) => {
+      const snippetCell: ISnippetCell = {
+        cell_type: cell.cell_type,
+        source: Array.isArray(cell.source)
+          ? cell.source.join('\n')
+          : cell.source,
+      };
+      if (cell.metadata) {
+        snippetCell.metadata = cell.metadata;
+      }
+      return snippetCell;
+    });
+  }
+  if (value.history && value.history.length !== 0) {
+    snippet.history = value.history.map(
+      (revision: { [key: string]: any }): ISnippetRevision => ({
+        timestamp: revision.timestamp,
+        code: Array.isArray(revision.code)
+          ? revision.code.join('\n')
+          : revision.code,
+        metadata: revision.metadata,
+      })
+    );
+  }
+  return snippet;
+}
@@ -0,0 +1,36 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * List the snippets whose prefix starts with a token, case insensitively.
+ * When a language is given, only the snippets of that language are listed.
+ */
+export function matchSnippets(
+  snippets: ICodeSnippet[],
+  token: string,
+  language?: string
+): ICodeSnippet[] {
+  if (token === '') {
+    return [];
+  }
+  const lowerToken = token.toLowerCase();
+  return snippets
+    .filter(
+      (snippet) =>
+        !!snippet.prefix &&
+        snippet.prefix.toLowerCase().startsWith(lowerToken) &&
+        (!language || snippet.language.toLowerCase() === language.toLowerCase())
+    )
+    .sort((a, b) => (a.prefix ?? '').localeCompare(b.prefix ?? ''));
+}
+
+/**
+ * Get the word before an offset, which is matched against the prefixes.
+ * Prefixes are made of letters, digits, `_` and `-`.
+ */
+export function tokenBefore(text: string, offset: number): string {
+  const match = /[\w-]*$/.exec(text.slice(0, offset));
+  return match ? match[0] : '';
+}
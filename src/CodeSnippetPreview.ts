@@ -42,7 +42,7 @@ export function showPreview(
 export class Preview extends Widget {
   ready: boolean;
   _title: string;
-  _id: number;
+  _id: string;
   editor: CodeEditor.IEditor;
   codeSnippet: ICodeSnippet;
   editorServices: IEditorServices;
@@ -200,7 +200,7 @@ export namespace Preview {
 
   export interface IOptions {
     title: string;
-    id: number;
+    id: string;
     /**
      * The main body element for the preview or a message to display.
      * Defaults to an empty string.
@@ -0,0 +1,117 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+/**
+ * Where and how prompt snippets are sent, from the extension settings.
+ */
+export interface IPromptSettings {
+  // URL of an OpenAI-compatible chat completions endpoint
+  endpoint: string;
+  model: string;
+  // sent as a bearer token when not empty
+  apiKey: string;
+}
+
+/**
+ * The body of a chat completions request.
+ */
+export interface IChatRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+}
+
+/**
+ * The parts of a chat completions reply, or of an error reply, that are read.
+ */
+export interface IChatReply {
+  choices?: { message?: { content?: string } }[];
+  error?: { message?: string };
+}
+
+/**
+ * Create the chat completions request of a filled prompt.
+ */
+export function createChatRequest(prompt: string, model: string): IChatRequest {
+  return {
+    model: model,
+    messages: [{ role: 'user', content: prompt }],
+  };
+}
+
+/**
+ * Get the text of the first choice of a chat completions reply.
+ */
+export function getChatResponseText(reply: IChatReply | null): string {
+  const content = reply?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    throw new Error(
+      reply?.error?.message ?? 'The reply of the endpoint has no message'
+    );
+  }
+  return content;
+}
+
+/**
+ * Send a filled prompt to the endpoint of the settings.
+ *
+ * #### Notes
+ * The request is sent by the browser, with the API key of the settings: the
+ * endpoint must allow requests from the origin of JupyterLab, answering the
+ * preflight requests of CORS, and the key is readable by the page.
+ *
+ * @returns the text of the response.
+ *
+ * @throws an error with a message to show when the request fails.
+ */
+export async function sendPrompt(
+  prompt: string,
+  settings: IPromptSettings
+): Promise<string> {
+  if (!settings.endpoint) {
+    throw new Error('No prompt endpoint is set in the settings');
+  }
+  const headers: { [key: string]: string } = {
+    'Content-Type': 'application/json',
+  };
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await window.fetch(settings.endpoint, {
+      method: 'POST',
+      headers: headers,
+      body: JSON.stringify(createChatRequest(prompt, settings.model)),
+    });
+  } catch (error) {
+    // the browser tells no more about a server down or refusing CORS
+    throw new Error(
+      `Cannot reach ${settings.endpoint}: check that it is running and allows requests from ${window.location.origin}`
+    );
+  }
+  const reply: IChatReply | null = await response
+    .json()
+    .catch((): null => null);
+  if (!response.ok) {
+    throw new Error(
+      reply?.error?.message ??
+        `The endpoint answered ${response.status} ${response.statusText}`
+    );
+  }
+  return getChatResponseText(reply);
+}
+
+/**
+ * Get the code of a response to insert in a cell: the content of its fenced
+ * code blocks when it has some, or the whole response.
+ */
+export function extractCode(response: string): string {
+  const blocks: string[] = [];
+  const regex = /^```[^\n]*\n([\s\S]*?)^```/gm;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(response)) !== null) {
+    blocks.push(match[1].replace(/\n$/, ''));
+  }
+  return blocks.length !== 0 ? blocks.join('\n\n') : response.trim();
+}
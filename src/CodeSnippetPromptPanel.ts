@@ -0,0 +1,211 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { JupyterFrontEnd } from '@jupyterlab/application';
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { NotebookActions, NotebookPanel } from '@jupyterlab/notebook';
+
+import { Widget } from '@lumino/widgets';
+
+import {
+  getActiveEditor,
+  getContextValues,
+  getSessionContext,
+} from './CodeSnippetContext';
+import { promptIcon } from './CodeSnippetLanguages';
+import { IPromptSettings, extractCode, sendPrompt } from './CodeSnippetPrompt';
+import { CodeSnippetService, ICodeSnippet } from './CodeSnippetService';
+import { fillTemplate } from './CodeSnippetTemplateDialog';
+
+/**
+ * The CSS classes of the prompt panel.
+ */
+const PROMPT_PANEL = 'jp-codeSnippet-prompt-panel';
+const PROMPT_PANEL_TITLE = 'jp-codeSnippet-prompt-title';
+const PROMPT_PANEL_STATUS = 'jp-codeSnippet-prompt-status';
+const PROMPT_PANEL_RESPONSE = 'jp-codeSnippet-prompt-response';
+const PROMPT_PANEL_BUTTONS = 'jp-codeSnippet-prompt-buttons';
+const PROMPT_PANEL_ERROR = 'jp-mod-error';
+
+/**
+ * Fill the variables of a prompt snippet, with the context variables taken
+ * from the widget, send it to the prompt endpoint and show the response in
+ * the prompt panel.
+ *
+ * @param widget - the notebook or editor the prompt is run from
+ */
+export async function runPromptSnippet(
+  app: JupyterFrontEnd,
+  snippet: ICodeSnippet,
+  widget: Widget
+): Promise<void> {
+  const editor = getActiveEditor(widget);
+  const values = await getContextValues(widget, snippet.code);
+  const template = await fillTemplate(
+    snippet,
+    values,
+    'Run',
+    getSessionContext(widget)
+  );
+  if (!template) {
+    return;
+  }
+  const panel = PromptPanel.open(app);
+  await panel.run(snippet.name, template.text, widget, editor);
+}
+
+/**
+ * A side panel showing the response to a prompt, with buttons to insert it
+ * in the notebook or editor the prompt was run from.
+ */
+export class PromptPanel extends Widget {
+  /**
+   * Open the prompt panel in the right area, creating it the first time.
+   */
+  static open(app: JupyterFrontEnd): PromptPanel {
+    if (!PromptPanel._panel || PromptPanel._panel.isDisposed) {
+      PromptPanel._panel = new PromptPanel();
+      app.shell.add(PromptPanel._panel, 'right', { rank: 1000 });
+    }
+    app.shell.activateById(PromptPanel._panel.id);
+    return PromptPanel._panel;
+  }
+
+  // the panel, created when a prompt is first run
+  private static _panel: PromptPanel | null = null;
+
+  constructor() {
+    super();
+    this.id = PROMPT_PANEL;
+    this.addClass(PROMPT_PANEL);
+    this.title.icon = promptIcon;
+    this.title.caption = 'Prompt Response';
+    this.title.closable = true;
+
+    this._title.className = PROMPT_PANEL_TITLE;
+    this._status.className = PROMPT_PANEL_STATUS;
+    this._response.className = PROMPT_PANEL_RESPONSE;
+
+    const buttons = document.createElement('div');
+    buttons.className = PROMPT_PANEL_BUTTONS;
+    this._insertButton.className = 'jp-mod-styled jp-mod-accept';
+    this._insertButton.textContent = 'Insert as new cell';
+    this._insertButton.onclick = (): void => this.insertCell();
+    this._replaceButton.className = 'jp-mod-styled';
+    this._replaceButton.textContent = 'Replace selection';
+    this._replaceButton.onclick = (): void => this.replaceSelection();
+    buttons.append(this._insertButton, this._replaceButton);
+
+    this.node.append(this._title, this._status, this._response, buttons);
+    this.updateButtons();
+  }
+
+  /**
+   * Send a prompt and show its response.
+   *
+   * @param target - the widget the response is inserted in
+   *
+   * @param editor - the editor whose selection the response replaces
+   */
+  async run(
+    name: string,
+    prompt: string,
+    target: Widget,
+    editor: CodeEditor.IEditor | null
+  ): Promise<void> {
+    const request = ++this._requests;
+    this._target = target;
+    this._editor = editor;
+    this._responseText = null;
+    this._title.textContent = name;
+    this._status.textContent = 'Running the prompt…';
+    this._status.classList.remove(PROMPT_PANEL_ERROR);
+    this._response.textContent = '';
+    this.updateButtons();
+
+    try {
+      const response = await sendPrompt(prompt, Private.getPromptSettings());
+      if (request !== this._requests) {
+        return;
+      }
+      this._responseText = response;
+      this._status.textContent = '';
+      this._response.textContent = response;
+    } catch (error) {
+      if (request !== this._requests) {
+        return;
+      }
+      console.log('Error in running prompt');
+      this._status.textContent = (error as Error).message;
+      this._status.classList.add(PROMPT_PANEL_ERROR);
+    }
+    this.updateButtons();
+  }
+
+  /**
+   * Insert the code of the response in a new cell below the active cell.
+   */
+  insertCell(): void {
+    const notebook = this._target;
+    if (
+      this._responseText === null ||
+      !(notebook instanceof NotebookPanel) ||
+      notebook.isDisposed
+    ) {
+      return;
+    }
+    NotebookActions.insertBelow(notebook.content);
+    notebook.content.activeCell.model.value.text = extractCode(
+      this._responseText
+    );
+  }
+
+  /**
+   * Replace the selection of the editor with the code of the response.
+   */
+  replaceSelection(): void {
+    if (
+      this._responseText === null ||
+      !this._editor ||
+      this._editor.isDisposed
+    ) {
+      return;
+    }
+    this._editor.replaceSelection(extractCode(this._responseText));
+  }
+
+  private updateButtons(): void {
+    const hasResponse = this._responseText !== null;
+    this._insertButton.disabled = !(
+      hasResponse && this._target instanceof NotebookPanel
+    );
+    this._replaceButton.disabled = !(hasResponse && this._editor);
+  }
+
+  private _title = document.createElement('h2');
+  private _status = document.createElement('div');
+  private _response = document.createElement('pre');
+  private _insertButton = document.createElement('button');
+  private _replaceButton = document.createElement('button');
+  private _target: Widget | null = null;
+  private _editor: CodeEditor.IEditor | null = null;
+  private _responseText: string | null = null;
+  private _requests = 0;
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Read the prompt settings of the extension.
+   */
+  export function getPromptSettings(): IPromptSettings {
+    const settings = CodeSnippetService.getCodeSnippetService().settings;
+    return {
+      endpoint: settings.get('promptEndpoint').composite as string,
+      model: settings.get('promptModel').composite as string,
+      apiKey: settings.get('promptApiKey').composite as string,
+    };
+  }
+}
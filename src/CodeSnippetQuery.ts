@@ -0,0 +1,329 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { getModifiedTime } from './CodeSnippetHistory';
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * The fields a search query can filter on, e.g. `lang:python`.
+ */
+export type QueryField = 'lang' | 'tag' | 'name' | 'code' | 'modified';
+
+/**
+ * A qualifier of a search query, e.g. `-tag:deprecated`.
+ */
+export interface IQueryFilter {
+  field: QueryField;
+  // whether the snippets matching the filter are excluded
+  negated: boolean;
+  // what the language, a tag, the name or the code must match
+  pattern?: RegExp;
+  // the times the snippet must be modified in, in milliseconds, the start
+  // included and the end excluded, unbounded when missing
+  from?: number;
+  to?: number;
+}
+
+/**
+ * A parsed search query: the free text searched in all the fields, and the
+ * filters all the snippets must pass.
+ */
+export interface ISnippetQuery {
+  text: string;
+  filters: IQueryFilter[];
+}
+
+/**
+ * The result of parsing a search query: the query, or the error making it
+ * invalid.
+ */
+export interface IParsedQuery {
+  query: ISnippetQuery | null;
+  error: string | null;
+}
+
+/**
+ * The fields that can be filtered on.
+ */
+export const QUERY_FIELDS: QueryField[] = [
+  'lang',
+  'tag',
+  'name',
+  'code',
+  'modified',
+];
+
+/**
+ * Parse a search query made of free text and qualifiers:
+ *
+ * - `lang:python` and `tag:"import statements"` match the language or a
+ *   tag, ignoring case; `*` matches any text, e.g. `tag:plot*`
+ * - `name:plot` and `code:read_csv` match a part of the name or code, or
+ *   all of it when the value has a `*`, e.g. `name:plot*`
+ * - `name:/regex/` and `code:/regex/i` match a regular expression
+ * - `modified:2026-01-01`, `modified:>2026-01-01` (also `>=`, `<`, `<=`)
+ *   compare the day a snippet was last saved
+ * - `-` before a qualifier excludes the snippets it matches
+ *
+ * Words followed by a colon that are not fields are free text.
+ */
+export function parseQuery(input: string): IParsedQuery {
+  const query: ISnippetQuery = { text: '', filters: [] };
+  const words: string[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+    const start = position;
+    const qualifier = Private.QUALIFIER.exec(input.slice(position));
+    if (
+      qualifier &&
+      QUERY_FIELDS.includes(qualifier[2].toLowerCase() as QueryField)
+    ) {
+      const field = qualifier[2].toLowerCase() as QueryField;
+      position += qualifier[0].length;
+      const value = Private.readValue(
+        input,
+        position,
+        field === 'name' || field === 'code'
+      );
+      if (value.error) {
+        return { query: null, error: value.error };
+      }
+      position = value.end;
+      if (value.text === '' && !value.regex) {
+        return {
+          query: null,
+          error: `Missing value after "${qualifier[0]}" at column ${start + 1}`,
+        };
+      }
+      const filter = Private.toFilter(field, value, qualifier[1] === '-');
+      if (typeof filter === 'string') {
+        return {
+          query: null,
+          error: `${filter} in "${input.slice(start, position)}" at column ${
+            start + 1
+          }`,
+        };
+      }
+      query.filters.push(filter);
+    } else {
+      const value = Private.readValue(input, position, false);
+      if (value.error) {
+        return { query: null, error: value.error };
+      }
+      position = value.end;
+      if (value.text !== '') {
+        words.push(value.text);
+      }
+    }
+  }
+  query.text = words.join(' ');
+  return { query, error: null };
+}
+
+/**
+ * Test whether a snippet passes all the filters of a query.
+ *
+ * @param language - the language the snippet is filtered by, e.g. its
+ * language tag
+ */
+export function matchesQuery(
+  snippet: ICodeSnippet,
+  query: ISnippetQuery,
+  language: string = snippet.language
+): boolean {
+  return query.filters.every(
+    (filter) =>
+      Private.matchesFilter(snippet, filter, language) !== filter.negated
+  );
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * A qualifier at the start of a text, with the minus sign and the field
+   * as groups.
+   */
+  export const QUALIFIER = /^(-?)([A-Za-z]+):/;
+
+  /**
+   * A date of a `modified` filter, with the comparison as first group.
+   */
+  export const DATE = /^(>=|<=|>|<|=)?(\d{4})-(\d{2})-(\d{2})$/;
+
+  /**
+   * A value read from a query.
+   */
+  export interface IValue {
+    text: string;
+    // the regular expression flags if the value is `/regex/flags`
+    regex: string | null;
+    // the position after the value
+    end: number;
+    error: string | null;
+  }
+
+  /**
+   * Read a value of a query: a quoted text, a regular expression, or the
+   * text up to the next space.
+   *
+   * @param allowRegex - whether a value between slashes is a regular
+   * expression
+   */
+  export function readValue(
+    input: string,
+    start: number,
+    allowRegex: boolean
+  ): IValue {
+    const value: IValue = {
+      text: '',
+      regex: null,
+      end: start,
+      error: null,
+    };
+    const delimiter = input[start];
+    if (delimiter === '"' || (allowRegex && delimiter === '/')) {
+      let position = start + 1;
+      while (position < input.length && input[position] !== delimiter) {
+        // keep escaped delimiters in the value
+        if (input[position] === '\\' && input[position + 1] === delimiter) {
+          value.text += delimiter === '/' ? '\\/' : delimiter;
+          position += 2;
+          continue;
+        }
+        value.text += input[position++];
+      }
+      if (position >= input.length) {
+        value.error = `Missing closing ${delimiter} for the ${
+          delimiter === '/' ? 'regular expression' : 'quote'
+        } at column ${start + 1}`;
+        return value;
+      }
+      position++;
+      if (delimiter === '/') {
+        const flags = /^[a-z]*/.exec(input.slice(position))?.[0] ?? '';
+        value.regex = flags;
+        position += flags.length;
+      }
+      value.end = position;
+      return value;
+    }
+
+    let position = start;
+    while (position < input.length && !/\s/.test(input[position])) {
+      position++;
+    }
+    value.text = input.slice(start, position);
+    value.end = position;
+    return value;
+  }
+
+  /**
+   * Create the filter of a qualifier.
+   *
+   * @returns the filter, or the reason why the value is invalid.
+   */
+  export function toFilter(
+    field: QueryField,
+    value: IValue,
+    negated: boolean
+  ): IQueryFilter | string {
+    if (field === 'modified') {
+      return toDateFilter(value.text, negated);
+    }
+    if (value.regex !== null) {
+      try {
+        return { field, negated, pattern: new RegExp(value.text, value.regex) };
+      } catch (error) {
+        return 'Invalid regular expression';
+      }
+    }
+    const escaped = value.text
+      .split('*')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    const isWhole =
+      field === 'lang' || field === 'tag' || value.text.includes('*');
+    return {
+      field,
+      negated,
+      pattern: new RegExp(isWhole ? `^${escaped}$` : escaped, 'i'),
+    };
+  }
+
+  /**
+   * Create the filter of a `modified` qualifier, comparing local days.
+   */
+  export function toDateFilter(
+    text: string,
+    negated: boolean
+  ): IQueryFilter | string {
+    const match = DATE.exec(text);
+    if (!match) {
+      return 'Expected a date like 2026-01-31';
+    }
+    const day = new Date(+match[2], +match[3] - 1, +match[4]);
+    if (day.getMonth() !== +match[3] - 1 || day.getDate() !== +match[4]) {
+      return 'Invalid date';
+    }
+    const start = day.getTime();
+    const end = new Date(+match[2], +match[3] - 1, +match[4] + 1).getTime();
+    switch (match[1]) {
+      case '>':
+        return { field: 'modified', negated, from: end };
+      case '>=':
+        return { field: 'modified', negated, from: start };
+      case '<':
+        return { field: 'modified', negated, to: start };
+      case '<=':
+        return { field: 'modified', negated, to: end };
+      default:
+        return { field: 'modified', negated, from: start, to: end };
+    }
+  }
+
+  /**
+   * Test whether a snippet matches a filter, whether or not it is negated.
+   */
+  export function matchesFilter(
+    snippet: ICodeSnippet,
+    filter: IQueryFilter,
+    language: string
+  ): boolean {
+    switch (filter.field) {
+      case 'lang':
+        return test(filter.pattern, language);
+      case 'tag':
+        return (snippet.tags ?? []).some((tag) => test(filter.pattern, tag));
+      case 'name':
+        return test(filter.pattern, snippet.name);
+      case 'code':
+        return test(filter.pattern, snippet.code);
+      case 'modified': {
+        const time = getModifiedTime(snippet);
+        return (
+          time !== null &&
+          time >= (filter.from ?? -Infinity) &&
+          time < (filter.to ?? Infinity)
+        );
+      }
+    }
+  }
+
+  /**
+   * Test a text with a pattern, which may be global or sticky.
+   */
+  export function test(pattern: RegExp | undefined, text: string): boolean {
+    if (!pattern) {
+      return false;
+    }
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+  }
+}
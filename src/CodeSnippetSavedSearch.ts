@@ -0,0 +1,54 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ISnippetQuery, parseQuery } from './CodeSnippetQuery';
+import { SortMode } from './CodeSnippetSort';
+import { ITagFilter } from './CodeSnippetTagFilter';
+
+/**
+ * A named search shown as a smart folder of the snippet panel.
+ */
+export interface ISavedSearch {
+  name: string;
+  // the text of the search bar
+  query: string;
+  tagFilter: ITagFilter;
+  // the order of the snippets, the order of the list when absent
+  sort?: SortMode;
+}
+
+/**
+ * Add a saved search, replacing the one with the same name where it is.
+ */
+export function addSavedSearch(
+  searches: ISavedSearch[],
+  search: ISavedSearch
+): ISavedSearch[] {
+  const idx = searches.findIndex((item) => item.name === search.name);
+  if (idx === -1) {
+    return searches.concat(search);
+  }
+  const result = searches.slice();
+  result[idx] = search;
+  return result;
+}
+
+/**
+ * Remove the saved search with a name.
+ */
+export function removeSavedSearch(
+  searches: ISavedSearch[],
+  name: string
+): ISavedSearch[] {
+  return searches.filter((item) => item.name !== name);
+}
+
+/**
+ * Parse the query of a saved search, which may have been made invalid in
+ * the settings editor.
+ *
+ * @returns the query, or null if it is invalid.
+ */
+export function getSavedQuery(search: ISavedSearch): ISnippetQuery | null {
+  return parseQuery(search.query).query;
+}
@@ -0,0 +1,287 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * The fields of a snippet that are searched.
+ */
+export type SearchField = 'name' | 'tags' | 'description' | 'code';
+
+/**
+ * The weight of a match in each field, a match in the name counting the
+ * most. The language of a snippet is searched as one of its tags.
+ */
+export const FIELD_WEIGHTS: { [field in SearchField]: number } = {
+  name: 4,
+  tags: 3,
+  description: 2,
+  code: 1,
+};
+
+/**
+ * The start and end offsets of a match in a text.
+ */
+export type TextRange = [number, number];
+
+/**
+ * Where the terms of a search query are in a snippet, to highlight them.
+ */
+export interface ISearchMatches {
+  name: TextRange[];
+  description: TextRange[];
+  // the matching tags
+  tags: { tag: string; ranges: TextRange[] }[];
+  // the first line of code with a match, trimmed
+  code: { line: string; ranges: TextRange[] } | null;
+}
+
+/**
+ * A snippet matching a search query.
+ */
+export interface ISearchResult {
+  snippet: ICodeSnippet;
+  score: number;
+  matches: ISearchMatches;
+}
+
+/**
+ * Split a search query into lowercase terms.
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const term of query.toLowerCase().split(/\s+/)) {
+    if (term !== '' && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Split a text into lowercase words. Identifiers are also split into their
+ * parts, e.g. `read_csv` and `readCsv` give `read` and `csv`.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9_\u00C0-\uFFFF]+/)) {
+    if (word === '') {
+      continue;
+    }
+    tokens.push(word.toLowerCase());
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .split('_')
+      .filter((part) => part !== '');
+    if (parts.length > 1) {
+      tokens.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Find the snippets matching all the terms of a query, in any field, sorted
+ * by relevance.
+ *
+ * #### Notes
+ * A term matches a field as a word, as the start of a word, or anywhere in
+ * it, in decreasing order of relevance. The relevance of a snippet adds up
+ * the best match of each term weighted by its field, rare terms counting
+ * more than frequent ones. Snippets of the same relevance keep their order.
+ */
+export function searchSnippets(
+  snippets: ICodeSnippet[],
+  query: string
+): ISearchResult[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return snippets.map((snippet) => ({
+      snippet,
+      score: 0,
+      matches: Private.emptyMatches(),
+    }));
+  }
+
+  // the best weighted match of each term in each snippet, and the number of
+  // snippets matching each term
+  const candidates: { snippet: ICodeSnippet; termScores: number[] }[] = [];
+  const frequencies = terms.map(() => 0);
+  for (const snippet of snippets) {
+    const indexed = Private.getIndexedSnippet(snippet);
+    const termScores = terms.map((term, i) => {
+      let best = 0;
+      for (const field of Private.FIELDS) {
+        best = Math.max(
+          best,
+          FIELD_WEIGHTS[field] * Private.matchQuality(indexed[field], term)
+        );
+      }
+      if (best !== 0) {
+        frequencies[i]++;
+      }
+      return best;
+    });
+    if (termScores.every((termScore) => termScore !== 0)) {
+      candidates.push({ snippet, termScores });
+    }
+  }
+
+  const weights = frequencies.map((frequency) =>
+    Math.log(1 + snippets.length / Math.max(frequency, 1))
+  );
+  return candidates
+    .map((candidate, i) => ({
+      position: i,
+      result: {
+        snippet: candidate.snippet,
+        score: candidate.termScores.reduce(
+          (score, termScore, j) => score + termScore * weights[j],
+          0
+        ),
+        matches: getSearchMatches(candidate.snippet, terms),
+      },
+    }))
+    .sort((a, b) => b.result.score - a.result.score || a.position - b.position)
+    .map((item) => item.result);
+}
+
+/**
+ * Find where the terms of a query are in the fields of a snippet.
+ */
+export function getSearchMatches(
+  snippet: ICodeSnippet,
+  terms: string[]
+): ISearchMatches {
+  const matches = Private.emptyMatches();
+  matches.name = findRanges(snippet.name, terms);
+  matches.description = findRanges(snippet.description ?? '', terms);
+  for (const tag of snippet.tags ?? []) {
+    const ranges = findRanges(tag, terms);
+    if (ranges.length !== 0) {
+      matches.tags.push({ tag, ranges });
+    }
+  }
+  for (const codeLine of snippet.code.split('\n')) {
+    const line = codeLine.trim();
+    const ranges = findRanges(line, terms);
+    if (ranges.length !== 0) {
+      matches.code = { line, ranges };
+      break;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Find the occurrences of search terms in a text, ignoring case, merging
+ * the overlapping ones.
+ */
+export function findRanges(text: string, terms: string[]): TextRange[] {
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  for (const term of terms) {
+    let start = lower.indexOf(term);
+    while (start !== -1) {
+      ranges.push([start, start + term.length]);
+      start = lower.indexOf(term, start + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The searched fields, in decreasing order of weight.
+   */
+  export const FIELDS: SearchField[] = ['name', 'tags', 'description', 'code'];
+
+  /**
+   * The words of a field, sorted and unique, and its lowercase text.
+   */
+  export interface IIndexedField {
+    tokens: string[];
+    text: string;
+  }
+
+  /**
+   * The indexed fields of a snippet.
+   */
+  export type IndexedSnippet = { [field in SearchField]: IIndexedField };
+
+  /**
+   * The indexed fields of the snippets, computed once per version of a
+   * snippet. A snippet is never changed in place: the service replaces it
+   * with a new object.
+   */
+  export const INDEX = new WeakMap<ICodeSnippet, IndexedSnippet>();
+
+  export function getIndexedSnippet(snippet: ICodeSnippet): IndexedSnippet {
+    let indexed = INDEX.get(snippet);
+    if (!indexed) {
+      indexed = {
+        name: indexField(snippet.name),
+        tags: indexField(
+          (snippet.tags ?? []).concat(snippet.language).join(' ')
+        ),
+        description: indexField(snippet.description ?? ''),
+        code: indexField(snippet.code),
+      };
+      INDEX.set(snippet, indexed);
+    }
+    return indexed;
+  }
+
+  export function indexField(text: string): IIndexedField {
+    return {
+      tokens: Array.from(new Set(tokenize(text))).sort(),
+      text: text.toLowerCase(),
+    };
+  }
+
+  /**
+   * Get how well a term matches a field: 1 for a word, 0.8 for the start of a
+   * word, 0.4 for a part of the text and 0 when it is not in the field.
+   */
+  export function matchQuality(field: IIndexedField, term: string): number {
+    // the first word not sorted before the term
+    const tokens = field.tokens;
+    let low = 0;
+    let high = tokens.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tokens[middle] < term) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    if (low < tokens.length) {
+      if (tokens[low] === term) {
+        return 1;
+      }
+      if (tokens[low].startsWith(term)) {
+        return 0.8;
+      }
+    }
+    return field.text.includes(term) ? 0.4 : 0;
+  }
+
+  export function emptyMatches(): ISearchMatches {
+    return { name: [], description: [], tags: [], code: null };
+  }
+}
@@ -1,8 +1,57 @@
 import { JupyterFrontEnd } from '@jupyterlab/application';
 import { Settings } from '@jupyterlab/settingregistry';
-import { JSONArray, JSONExt, PartialJSONValue } from '@lumino/coreutils';
+import {
+  JSONExt,
+  JSONValue,
+  PartialJSONObject,
+  PartialJSONValue,
+  ReadonlyPartialJSONObject,
+  UUID,
+} from '@lumino/coreutils';
 
 import { CodeSnippetWidget } from './CodeSnippetWidget';
+import {
+  ICodeSnippetStorage,
+  FolderSnippetStorage,
+  SettingsSnippetStorage,
+} from './CodeSnippetStorage';
+import { ITrashedSnippet, purgeTrash } from './CodeSnippetTrash';
+import { ISavedSearch } from './CodeSnippetSavedSearch';
+import {
+  IUsageStats,
+  SortMode,
+  forgetUsage,
+  recordUsage,
+} from './CodeSnippetSort';
+import { ISnippetConflict, mergeSnippetLists } from './CodeSnippetMerge';
+import { resolveEditConflict } from './CodeSnippetConflict';
+
+/**
+ * A code snippet, or a prompt template for a language model.
+ */
+export type SnippetKind = 'code' | 'prompt';
+
+/**
+ * A notebook cell of a multi-cell snippet.
+ */
+export interface ISnippetCell extends PartialJSONObject {
+  cell_type: 'code' | 'markdown';
+  source: string;
+  // metadata of the notebook cell, e.g. its `tags`
+  metadata?: PartialJSONObject;
+}
+
+/**
+ * A saved version of a snippet.
+ */
+export interface ISnippetRevision extends PartialJSONObject {
+  // ISO date of the save, empty for the version saved before the snippet
+  // had a history
+  timestamp: string;
+  code: string;
+  // the other fields of the snippet, e.g. its `name` and `tags`
+  metadata: PartialJSONObject;
+}
 
 export interface ICodeSnippet {
   name: string;
@@ -10,82 +59,436 @@ export interface ICodeSnippet {
   language: string;
   // code separated by a new line
   code: string;
-  id: number;
+  // permanent unique identifier (UUID), never changes once assigned
+  id: string;
+  // position of the snippet in its library
+  order: number;
   tags?: string[];
+  // short trigger text offered by the completer, e.g. `imppd`
+  prefix?: string;
+  // `code` when absent
+  kind?: SnippetKind;
+  // cells inserted as notebook cells, `code` then holds their joined sources
+  cells?: ISnippetCell[];
+  // ids of the snippets inserted before this one when they are missing
+  requires?: string[];
+  // saved versions of the snippet, the oldest first
+  history?: ISnippetRevision[];
+  // ISO date of the creation of the snippet in its library
+  created?: string;
+  // id of the library the snippet belongs to, it is not saved with the snippet
+  library?: string;
+}
+
+/**
+ * A named collection of snippets kept in its own storage.
+ */
+export interface ICodeSnippetLibrary {
+  id: string;
+  name: string;
+  readOnly: boolean;
+  storage: ICodeSnippetStorage;
+}
+
+/**
+ * Id of the personal library, where new snippets are saved by default.
+ */
+export const PERSONAL_LIBRARY_ID = 'personal';
+
+/**
+ * The milliseconds an operation can be undone for.
+ */
+const UNDO_TIMEOUT = 10000;
+
+/**
+ * The snippets of the writable libraries and the trash before an operation,
+ * to undo it.
+ */
+interface IUndoState {
+  // description of the operation, e.g. `Deleted "plot"`
+  label: string;
+  libraries: Map<string, ICodeSnippet[]>;
+  trash: ITrashedSnippet[];
+  timeout: number;
 }
 
 export class CodeSnippetService {
   private settingManager: Settings;
   private static codeSnippetService: CodeSnippetService;
-  private codeSnippetList: ICodeSnippet[];
+  private codeSnippetList: ICodeSnippet[] = [];
+  private app: JupyterFrontEnd;
+  private libraryList: ICodeSnippetLibrary[] = [];
+  private librarySnippets = new Map<string, ICodeSnippet[]>();
+  private librariesConfig: string;
+  private undoState: IUndoState | null = null;
+  // the snippets of each library as stored when they were last in sync
+  private syncedSnippets = new Map<string, ICodeSnippet[]>();
+  // the libraries being saved, whose changes are their own
+  private savingLibraries = new Set<string>();
 
   private constructor(settings: Settings, app: JupyterFrontEnd) {
     this.settingManager = settings;
+    this.app = app;
 
-    // when user changes the snippets using settingsEditor
-    this.settingManager.changed.connect(async (plugin) => {
-      const newCodeSnippetList = plugin.get('snippets').user;
-
-      if (
-        !JSONExt.deepEqual(
-          newCodeSnippetList,
-          this.codeSnippetList as unknown as PartialJSONValue
-        )
-      ) {
-        this.codeSnippetList = this.convertToICodeSnippetList(
-          newCodeSnippetList as JSONArray
-        );
-
-        const leftWidgets = app.shell.widgets('left').iter();
-
-        let current = leftWidgets.next();
-        while (current) {
-          if (current instanceof CodeSnippetWidget) {
-            current.updateCodeSnippetWidget();
-            break;
-          }
-          current = leftWidgets.next();
-        }
-
-        // order code snippet and sync it with setting
-        this.orderSnippets();
-        await plugin
-          .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-          .catch((e) => {
-            console.log(
-              'Error in syncing orders of snippets with those in settings'
-            );
-            console.log(e);
-          });
+    // switch the libraries when user changes them in settingsEditor
+    this.settingManager.changed.connect(() => {
+      if (this.librariesConfig !== this.getLibrariesConfig()) {
+        this.openLibraries();
       }
     });
 
     // load user's saved snippets
-    if (this.settingManager.get('snippets').user) {
-      const userSnippets = this.convertToICodeSnippetList(
-        this.settingManager.get('snippets').user as JSONArray
-      );
-      this.codeSnippetList = userSnippets;
-    }
+    this.openLibraries();
+
+    // remove the snippets deleted too long ago
+    this.saveTrash(this.trash).catch((e) => {
+      console.log('Error in purging the trash');
+      console.log(e);
+    });
 
     // set default preview font size
     if (this.settingManager.get('snippetPreviewFontSize').user === undefined) {
       this.settingManager.set(
         'snippetPreviewFontSize',
-        this.settingManager.default('snippetPreviewFontSize')
+        this.settingManager.default('snippetPreviewFontSize') as JSONValue
       );
     }
   }
 
-  private convertToICodeSnippetList(snippets: JSONArray): ICodeSnippet[] {
-    const snippetList: ICodeSnippet[] = [];
+  private getLibrariesConfig(): string {
+    return JSON.stringify([
+      this.settingManager.get('snippetStorage').composite,
+      this.settingManager.get('snippetFolder').composite,
+      this.settingManager.get('snippetFolderPollInterval').composite,
+      this.settingManager.get('snippetLibraries').composite,
+    ]);
+  }
+
+  /**
+   * Create the libraries configured in the settings and load their snippets.
+   */
+  private openLibraries(): void {
+    this.libraryList.forEach((library) => library.storage.dispose());
+    this.librarySnippets.clear();
+    this.syncedSnippets.clear();
+    this.librariesConfig = this.getLibrariesConfig();
+
+    const pollInterval = this.settingManager.get('snippetFolderPollInterval')
+      .composite as number;
+    const folders: string[] = [];
+
+    let personalStorage: ICodeSnippetStorage;
+    if (this.settingManager.get('snippetStorage').composite === 'folder') {
+      const folder = this.settingManager.get('snippetFolder')
+        .composite as string;
+      personalStorage = new FolderSnippetStorage(folder, pollInterval);
+      folders.push(folder);
+    } else {
+      personalStorage = new SettingsSnippetStorage(this.settingManager);
+    }
+    this.libraryList = [
+      {
+        id: PERSONAL_LIBRARY_ID,
+        name: 'My Snippets',
+        readOnly: false,
+        storage: personalStorage,
+      },
+    ];
+
+    const libraries = (this.settingManager.get('snippetLibraries').composite ||
+      []) as ReadonlyPartialJSONObject[];
+    for (const config of libraries) {
+      const path = config.path as string;
+      if (!path || folders.includes(path)) {
+        continue;
+      }
+      const readOnly = config.readOnly === true;
+      this.libraryList.push({
+        id: 'folder:' + path,
+        name: (config.name as string) || path,
+        readOnly: readOnly,
+        storage: new FolderSnippetStorage(path, pollInterval, readOnly),
+      });
+      folders.push(path);
+    }
+
+    this.rebuildSnippetList();
+
+    for (const library of this.libraryList) {
+      // when user changes the snippets using settingsEditor or the folder
+      library.storage.changed.connect((_, snippets) => {
+        void this.updateSnippets(library, snippets, false);
+      });
+
+      library.storage
+        .load()
+        .then((snippets) => {
+          if (this.libraryList.includes(library)) {
+            return this.updateSnippets(library, snippets, true);
+          }
+        })
+        .catch((e) => {
+          console.log(`Error in loading snippets of ${library.name}`);
+          console.log(e);
+        });
+    }
+  }
+
+  /**
+   * Take the snippets of a library from its storage. Once the library is
+   * loaded, the changes made elsewhere are merged with the ones made here,
+   * and the storage is written only if it lacks some of them.
+   */
+  private async updateSnippets(
+    library: ICodeSnippetLibrary,
+    snippets: ICodeSnippet[],
+    initial: boolean
+  ): Promise<void> {
+    // the changes made by a save are already known
+    if (this.savingLibraries.has(library.id)) {
+      return;
+    }
+    const synced = this.syncedSnippets.get(library.id);
+    if (!initial && synced && Private.isSame(snippets, synced)) {
+      return;
+    }
+    const stored = JSONExt.deepCopy(
+      snippets as unknown as PartialJSONValue
+    ) as unknown as ICodeSnippet[];
+
+    const otherIds = new Set<string>();
+    this.codeSnippetList.forEach((snippet) => {
+      if (snippet.library !== library.id) {
+        otherIds.add(snippet.id);
+      }
+    });
+    const migrated = this.migrateSnippets(snippets, otherIds);
+
+    if (initial || !synced) {
+      snippets.sort((a, b) => a.order - b.order);
+      snippets.forEach((snippet) => (snippet.library = library.id));
+      this.librarySnippets.set(library.id, snippets);
+      this.updateOrders(library.id);
+    } else {
+      await this.mergeSnippets(library, synced, snippets);
+    }
+    this.syncedSnippets.set(library.id, stored);
+    this.updateCodeSnippetWidget();
+
+    // persist the upgrade of snippets saved by an older version, the orders
+    // made sequential and the changes made here that the storage lacks
+    if (
+      !library.readOnly &&
+      (migrated || !Private.isSame(this.getStoredSnippets(library.id), stored))
+    ) {
+      this.saveSnippets(library.id).then((res: boolean) => {
+        if (!res) {
+          console.log('Error in syncing snippets with those in storage');
+        }
+      });
+    }
+  }
+
+  /**
+   * Merge the snippets of a library changed here and in its storage since
+   * they were last in sync, asking which version to keep of the snippets
+   * changed on both sides.
+   */
+  private async mergeSnippets(
+    library: ICodeSnippetLibrary,
+    base: ICodeSnippet[],
+    remote: ICodeSnippet[]
+  ): Promise<void> {
+    const result = mergeSnippetLists(
+      base,
+      this.getStoredSnippets(library.id),
+      remote
+    );
+    const snippets = result.snippets;
+    for (const conflict of result.conflicts) {
+      snippets.push(...(await this.resolveConflict(conflict)));
+    }
+
+    snippets.sort((a, b) => a.order - b.order);
+    snippets.forEach((snippet) => (snippet.library = library.id));
+    this.librarySnippets.set(library.id, snippets);
+    this.updateOrders(library.id);
+  }
+
+  /**
+   * Get the versions of a snippet kept after a conflict.
+   */
+  private async resolveConflict(
+    conflict: ISnippetConflict
+  ): Promise<ICodeSnippet[]> {
+    const choice = await resolveEditConflict(conflict);
+    if (choice === 'local') {
+      return conflict.local ? [conflict.local] : [];
+    } else if (choice === 'remote') {
+      return conflict.remote ? [conflict.remote] : [];
+    }
+    if (!conflict.local || !conflict.remote) {
+      // the version deleted on one side is not kept
+      return [conflict.local ?? conflict.remote] as ICodeSnippet[];
+    }
+    // the version from the storage is kept as a copy
+    const copy: ICodeSnippet = {
+      ...conflict.remote,
+      id: UUID.uuid4(),
+      name: this.uniqueName(conflict.remote.name),
+    };
+    return [conflict.local, copy];
+  }
+
+  private updateCodeSnippetWidget(): void {
+    const leftWidgets = this.app.shell.widgets('left').iter();
+
+    let current = leftWidgets.next();
+    while (current) {
+      if (current instanceof CodeSnippetWidget) {
+        current.updateCodeSnippetWidget();
+        break;
+      }
+      current = leftWidgets.next();
+    }
+  }
+
+  /**
+   * Upgrade snippets saved with positional ids. The old numeric id becomes
+   * the order of the snippet and a UUID is assigned as its permanent id.
+   * Duplicated ids (e.g. copy-pasted in the settings editor) are reassigned.
+   *
+   * @returns whether any snippet has been changed.
+   */
+  private migrateSnippets(
+    snippets: ICodeSnippet[],
+    seenIds: Set<string> = new Set<string>()
+  ): boolean {
+    let migrated = false;
 
-    snippets.forEach((snippet) => {
-      const newSnippet = snippet as unknown as ICodeSnippet;
+    snippets.forEach((snippet, i) => {
+      const legacyId = snippet.id as unknown;
 
-      snippetList.push(newSnippet);
+      if (typeof legacyId !== 'string' || legacyId === '') {
+        if (typeof snippet.order !== 'number') {
+          snippet.order = typeof legacyId === 'number' ? legacyId : i;
+        }
+        snippet.id = UUID.uuid4();
+        migrated = true;
+      } else if (seenIds.has(snippet.id)) {
+        snippet.id = UUID.uuid4();
+        migrated = true;
+      }
+
+      if (typeof snippet.order !== 'number') {
+        snippet.order = i;
+        migrated = true;
+      }
+      seenIds.add(snippet.id);
     });
-    return snippetList;
+    return migrated;
+  }
+
+  // list the snippets library by library
+  private rebuildSnippetList(): void {
+    this.codeSnippetList = [];
+    for (const library of this.libraryList) {
+      const snippets = this.librarySnippets.get(library.id);
+      if (snippets) {
+        this.codeSnippetList.push(...snippets);
+      }
+    }
+  }
+
+  // keep the order of snippets in sync with their positions in the library
+  private updateOrders(libraryId: string): void {
+    const snippets = this.librarySnippets.get(libraryId) || [];
+    snippets.forEach((snippet, i) => (snippet.order = i));
+    this.rebuildSnippetList();
+  }
+
+  // the snippets of a library as they are stored, without their library
+  private getStoredSnippets(libraryId: string): ICodeSnippet[] {
+    return (this.librarySnippets.get(libraryId) || []).map((snippet) => {
+      const storedSnippet = JSONExt.deepCopy(
+        snippet as unknown as PartialJSONValue
+      ) as unknown as ICodeSnippet;
+      delete storedSnippet.library;
+      return storedSnippet;
+    });
+  }
+
+  /**
+   * Save the snippets of a library, after merging the changes saved
+   * elsewhere since they were last in sync, e.g. by another tab.
+   */
+  private async saveSnippets(libraryId: string): Promise<boolean> {
+    const library = this.getLibrary(libraryId);
+    if (!library || library.readOnly) {
+      return false;
+    }
+
+    this.savingLibraries.add(libraryId);
+    try {
+      // the snippets in the storage, as far as this service knows
+      let stored = this.syncedSnippets.get(libraryId);
+      if (stored) {
+        let remote: ICodeSnippet[] | null = null;
+        try {
+          remote = await library.storage.fetch();
+        } catch (e) {
+          console.log(`Error in checking the snippets of ${library.name}`);
+        }
+        if (remote && !Private.isSame(remote, stored)) {
+          await this.mergeSnippets(library, stored, remote);
+          this.updateCodeSnippetWidget();
+          stored = remote;
+        }
+      }
+
+      const snippets = this.getStoredSnippets(libraryId);
+      if (stored && Private.isSame(snippets, stored)) {
+        this.syncedSnippets.set(libraryId, stored);
+        return true;
+      }
+      const result = await library.storage.save(snippets);
+      if (result) {
+        this.syncedSnippets.set(libraryId, snippets);
+      }
+      return result;
+    } finally {
+      this.savingLibraries.delete(libraryId);
+    }
+  }
+
+  /**
+   * Find a snippet and the snippets of its library.
+   */
+  private locate(id: string): {
+    library: ICodeSnippetLibrary;
+    snippets: ICodeSnippet[];
+    idx: number;
+  } | null {
+    for (const library of this.libraryList) {
+      const snippets = this.librarySnippets.get(library.id) || [];
+      const idx = snippets.findIndex((snippet) => snippet.id === id);
+      if (idx !== -1) {
+        return { library, snippets, idx };
+      }
+    }
+    return null;
+  }
+
+  private getWritableSnippets(libraryId: string): ICodeSnippet[] | null {
+    const library = this.getLibrary(libraryId);
+    if (!library || library.readOnly) {
+      console.log(`Snippet library ${libraryId} is read-only`);
+      return null;
+    }
+    if (!this.librarySnippets.has(libraryId)) {
+      this.librarySnippets.set(libraryId, []);
+    }
+    return this.librarySnippets.get(libraryId) ?? null;
   }
 
   static init(settings: Settings, app: JupyterFrontEnd): void {
@@ -106,74 +509,361 @@ export class CodeSnippetService {
     return this.codeSnippetList;
   }
 
+  get libraries(): ICodeSnippetLibrary[] {
+    return this.libraryList;
+  }
+
+  /**
+   * The deleted snippets, the oldest first.
+   */
+  get trash(): ITrashedSnippet[] {
+    return (this.settingManager.get('snippetTrash').composite ??
+      []) as unknown as ITrashedSnippet[];
+  }
+
+  /**
+   * The order of the snippet list, remembered in the settings of the user.
+   */
+  get sortMode(): SortMode {
+    return this.settingManager.get('sortMode').composite as SortMode;
+  }
+
+  /**
+   * Save the order of the snippet list.
+   */
+  async saveSortMode(mode: SortMode): Promise<boolean> {
+    return this.settingManager
+      .set('sortMode', mode)
+      .then(() => true)
+      .catch((_) => false);
+  }
+
+  /**
+   * How often and when each snippet was inserted.
+   */
+  get usage(): IUsageStats {
+    return (this.settingManager.get('snippetUsage').composite ??
+      {}) as unknown as IUsageStats;
+  }
+
+  /**
+   * Count an insertion of a snippet, for the sort modes by use.
+   */
+  async recordUsage(id: string): Promise<boolean> {
+    return this.settingManager
+      .set('snippetUsage', recordUsage(this.usage, id) as unknown as JSONValue)
+      .then(() => true)
+      .catch((_) => false);
+  }
+
+  /**
+   * Drop the usage of snippets deleted for good. The usage of the snippets
+   * of libraries not loaded, or loading, is kept.
+   */
+  private async forgetUsage(ids: string[]): Promise<boolean> {
+    const usage = this.usage;
+    const forgotten = ids.filter(
+      (id) => usage[id] !== undefined && !this.getSnippetById(id)
+    );
+    if (forgotten.length === 0) {
+      return true;
+    }
+    return this.settingManager
+      .set(
+        'snippetUsage',
+        forgetUsage(usage, forgotten) as unknown as JSONValue
+      )
+      .then(() => true)
+      .catch((_) => false);
+  }
+
+  /**
+   * The saved searches, in the order they are shown.
+   */
+  get savedSearches(): ISavedSearch[] {
+    return (this.settingManager.get('savedSearches').composite ??
+      []) as unknown as ISavedSearch[];
+  }
+
+  /**
+   * Save the saved searches.
+   */
+  async saveSearches(searches: ISavedSearch[]): Promise<boolean> {
+    return this.settingManager
+      .set('savedSearches', searches as unknown as JSONValue)
+      .then(() => true)
+      .catch((_) => false);
+  }
+
+  /**
+   * The description of the operation that can be undone, or null if there is
+   * none.
+   */
+  get undoLabel(): string | null {
+    return this.undoState ? this.undoState.label : null;
+  }
+
+  /**
+   * Save the trash, without the snippets deleted for longer than the
+   * retention period, whose usage is dropped. It is written only if it
+   * changed.
+   */
+  private async saveTrash(trash: ITrashedSnippet[]): Promise<boolean> {
+    const purged = purgeTrash(
+      trash,
+      this.settingManager.get('trashRetentionDays').composite as number
+    );
+    if (
+      JSONExt.deepEqual(
+        purged as unknown as PartialJSONValue,
+        this.trash as unknown as PartialJSONValue
+      )
+    ) {
+      return true;
+    }
+    const saved = await this.settingManager
+      .set('snippetTrash', purged as unknown as JSONValue)
+      .then(() => true)
+      .catch((_) => false);
+    const expired = trash.filter((entry) => !purged.includes(entry));
+    return (
+      saved &&
+      (await this.forgetUsage(expired.map((entry) => entry.snippet.id)))
+    );
+  }
+
+  /**
+   * Run an operation on snippets and, if it succeeds, let it be undone for
+   * a few seconds. Only the last operation can be undone.
+   */
+  async withUndo(
+    label: string,
+    operation: () => Promise<boolean>
+  ): Promise<boolean> {
+    const libraries = new Map<string, ICodeSnippet[]>();
+    for (const library of this.libraryList) {
+      if (!library.readOnly) {
+        libraries.set(
+          library.id,
+          (this.librarySnippets.get(library.id) || []).map((snippet) => ({
+            ...snippet,
+          }))
+        );
+      }
+    }
+    const trash = this.trash.slice();
+
+    const result = await operation();
+    if (result) {
+      this.clearUndo();
+      this.undoState = {
+        label,
+        libraries,
+        trash,
+        timeout: window.setTimeout(() => {
+          this.clearUndo();
+          this.updateCodeSnippetWidget();
+        }, UNDO_TIMEOUT),
+      };
+      this.updateCodeSnippetWidget();
+    }
+    return result;
+  }
+
+  /**
+   * Forget the operation that can be undone.
+   */
+  clearUndo(): void {
+    if (this.undoState) {
+      window.clearTimeout(this.undoState.timeout);
+      this.undoState = null;
+    }
+  }
+
+  /**
+   * Put the snippets and the trash back as they were before the last
+   * operation run with `withUndo`.
+   */
+  async undo(): Promise<boolean> {
+    const state = this.undoState;
+    if (!state) {
+      return false;
+    }
+    this.clearUndo();
+
+    let success = true;
+    for (const [libraryId, snippets] of state.libraries) {
+      if (!this.getLibrary(libraryId)) {
+        continue;
+      }
+      this.librarySnippets.set(libraryId, snippets);
+      this.rebuildSnippetList();
+      success = (await this.saveSnippets(libraryId)) && success;
+    }
+    success = (await this.saveTrash(state.trash)) && success;
+    this.updateCodeSnippetWidget();
+    return success;
+  }
+
+  /**
+   * Put a deleted snippet back in its library, or in the personal library if
+   * its library cannot be written anymore. It gets a new name or id if they
+   * are taken.
+   */
+  async restoreFromTrash(id: string): Promise<boolean> {
+    const trash = this.trash.slice();
+    const idx = trash.findIndex((entry) => entry.snippet.id === id);
+    if (idx === -1) {
+      return false;
+    }
+    const entry = trash.splice(idx, 1)[0];
+    const library = this.getLibrary(entry.library);
+
+    const snippet: ICodeSnippet = {
+      ...entry.snippet,
+      name: this.uniqueName(entry.snippet.name),
+      library: library && !library.readOnly ? library.id : PERSONAL_LIBRARY_ID,
+    };
+    if (this.getSnippetById(snippet.id)) {
+      snippet.id = UUID.uuid4();
+    }
+    if (!(await this.addSnippet(snippet))) {
+      return false;
+    }
+    return this.saveTrash(trash);
+  }
+
+  /**
+   * Delete the snippets of the trash permanently.
+   */
+  async emptyTrash(): Promise<boolean> {
+    const ids = this.trash.map((entry) => entry.snippet.id);
+    return (await this.saveTrash([])) && this.forgetUsage(ids);
+  }
+
+  getLibrary(id: string): ICodeSnippetLibrary | undefined {
+    return this.libraryList.find((library) => library.id === id);
+  }
+
+  /**
+   * Test whether a snippet belongs to a library that cannot be written.
+   */
+  isReadOnly(snippet: ICodeSnippet): boolean {
+    const library = this.getLibrary(snippet.library ?? PERSONAL_LIBRARY_ID);
+    return !library || library.readOnly;
+  }
+
+  getSnippetById(id: string): ICodeSnippet | undefined {
+    return this.codeSnippetList.find((snippet) => snippet.id === id);
+  }
+
   getSnippetByName(snippetName: string): ICodeSnippet[] {
     return this.codeSnippetList.filter(
       (snippet) => snippet.name.toLowerCase() === snippetName.toLowerCase()
     );
   }
 
+  /**
+   * Add a snippet to its library (the personal library by default) at the
+   * position given by its order. A UUID is assigned if the snippet does not
+   * have an id yet, and a creation date if it does not have one.
+   */
   async addSnippet(snippet: ICodeSnippet): Promise<boolean> {
-    const id = snippet.id;
-    this.codeSnippetList.splice(id, 0, snippet);
+    snippet.library = snippet.library ?? PERSONAL_LIBRARY_ID;
+    const snippets = this.getWritableSnippets(snippet.library);
+    if (!snippets) {
+      return false;
+    }
+
+    if (!snippet.id) {
+      snippet.id = UUID.uuid4();
+    }
+    snippet.created = snippet.created ?? new Date().toISOString();
+
+    const numSnippets = snippets.length;
+    let idx = snippet.order ?? numSnippets;
+    idx = Math.max(0, Math.min(idx, numSnippets));
 
-    const numSnippets = this.codeSnippetList.length;
+    snippets.splice(idx, 0, snippet);
+    this.updateOrders(snippet.library);
+
+    return this.saveSnippets(snippet.library);
+  }
 
-    // update id's of snippets.
-    let i = id + 1;
-    for (; i < numSnippets; i++) {
-      this.codeSnippetList[i].id += 1;
+  /**
+   * Append several snippets to a library and save the library once.
+   * Snippets without an id, or with an id already in use, get a new UUID.
+   */
+  async addSnippets(
+    snippets: ICodeSnippet[],
+    libraryId: string = PERSONAL_LIBRARY_ID
+  ): Promise<boolean> {
+    const librarySnippets = this.getWritableSnippets(libraryId);
+    if (!librarySnippets) {
+      return false;
     }
 
-    await this.settingManager
-      .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-      .catch((_) => {
-        return false;
-      });
-    return true;
+    const ids = new Set(this.codeSnippetList.map((snippet) => snippet.id));
+    const created = new Date().toISOString();
+    for (const snippet of snippets) {
+      if (!snippet.id || ids.has(snippet.id)) {
+        snippet.id = UUID.uuid4();
+      }
+      ids.add(snippet.id);
+      snippet.created = snippet.created ?? created;
+      snippet.library = libraryId;
+      librarySnippets.push(snippet);
+    }
+    this.updateOrders(libraryId);
+
+    return this.saveSnippets(libraryId);
   }
 
-  async deleteSnippet(id: number): Promise<boolean> {
-    let numSnippets = this.codeSnippetList.length;
+  /**
+   * Delete a snippet, moving it to the trash.
+   */
+  async deleteSnippet(id: string): Promise<boolean> {
+    const location = this.locate(id);
 
     // should never satisfy this condition
-    if (id >= numSnippets) {
+    if (!location) {
       console.log('error in codeSnippetService');
+      return false;
     }
-
-    if (id === numSnippets - 1) {
-      this.codeSnippetList.pop();
-    } else {
-      this.codeSnippetList.splice(id, 1);
-
-      numSnippets = this.codeSnippetList.length;
-      let i = id;
-      for (; i < numSnippets; i++) {
-        this.codeSnippetList[i].id -= 1;
-      }
+    if (location.library.readOnly) {
+      return false;
     }
 
-    await this.settingManager
-      .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-      .catch((_) => {
-        return false;
-      });
+    const snippet = location.snippets.splice(location.idx, 1)[0];
+    this.updateOrders(location.library.id);
 
-    return true;
+    const storedSnippet = { ...snippet };
+    delete storedSnippet.library;
+    const trashed = await this.saveTrash(
+      this.trash.concat({
+        snippet: storedSnippet,
+        library: location.library.id,
+        deleted: new Date().toISOString(),
+      })
+    );
+    return (await this.saveSnippets(location.library.id)) && trashed;
   }
 
-  async renameSnippet(oldName: string, newName: string): Promise<boolean> {
-    for (const snippet of this.codeSnippetList) {
-      if (snippet.name === oldName) {
-        snippet.name = newName;
-        break;
-      }
+  /**
+   * Rename the snippet with the given id.
+   */
+  async renameSnippet(id: string, newName: string): Promise<boolean> {
+    const location = this.locate(id);
+    if (!location || location.library.readOnly) {
+      return false;
     }
-    await this.settingManager
-      .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-      .catch((_) => {
-        return false;
-      });
-    return true;
+    // a new object, for the search index to see the new name
+    location.snippets[location.idx] = {
+      ...location.snippets[location.idx],
+      name: newName,
+    };
+    this.rebuildSnippetList();
+    return this.saveSnippets(location.library.id);
   }
 
   duplicateNameExists(newName: string): boolean {
@@ -185,67 +875,168 @@ export class CodeSnippetService {
     return false;
   }
 
+  /**
+   * Make a name unique among all snippets by appending a number to it.
+   */
+  uniqueName(name: string): string {
+    let newName = name;
+    let i = 1;
+    while (this.duplicateNameExists(newName)) {
+      newName = `${name}_${i}`;
+      i++;
+    }
+    return newName;
+  }
+
+  /**
+   * Replace the snippet with the given id. The new snippet takes over the id,
+   * the library and the current position of the replaced one.
+   */
   async modifyExistingSnippet(
-    oldName: string,
+    id: string,
     newSnippet: ICodeSnippet
   ): Promise<boolean> {
-    for (const snippet of this.codeSnippetList) {
-      if (snippet.name.toLowerCase() === oldName.toLowerCase()) {
-        this.codeSnippetList.splice(snippet.id, 1, newSnippet);
-        break;
-      }
+    const location = this.locate(id);
+    if (!location || location.library.readOnly) {
+      return false;
     }
 
-    await this.settingManager
-      .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-      .catch((_) => {
-        return false;
-      });
-    return true;
+    newSnippet.id = id;
+    newSnippet.order = location.snippets[location.idx].order;
+    newSnippet.created =
+      newSnippet.created ?? location.snippets[location.idx].created;
+    newSnippet.library = location.library.id;
+    location.snippets.splice(location.idx, 1, newSnippet);
+    this.rebuildSnippetList();
+
+    return this.saveSnippets(location.library.id);
   }
 
-  async moveSnippet(fromIdx: number, toIdx: number): Promise<boolean> {
+  /**
+   * Move a snippet in front of the snippet at the given position of its
+   * library.
+   */
+  async moveSnippet(id: string, toIdx: number): Promise<boolean> {
+    const location = this.locate(id);
+    if (!location) {
+      console.log('Error in moving snippet');
+      return false;
+    }
+    if (location.library.readOnly) {
+      return false;
+    }
+
+    const fromIdx = location.idx;
     if (toIdx > fromIdx) {
       toIdx = toIdx - 1;
     }
 
     if (toIdx === fromIdx) {
-      return;
+      return true;
     }
 
-    const snippetToMove = this.codeSnippetList[fromIdx];
-    this.deleteSnippet(fromIdx).then((res: boolean) => {
-      if (!res) {
-        console.log('Error in moving snippet(delete)');
-        return false;
-      }
-    });
-    snippetToMove.id = toIdx;
-    this.addSnippet(snippetToMove).then((res: boolean) => {
-      if (!res) {
-        console.log('Error in moving snippet(add)');
-        return false;
+    const snippetToMove = location.snippets.splice(fromIdx, 1)[0];
+    location.snippets.splice(toIdx, 0, snippetToMove);
+    this.updateOrders(location.library.id);
+
+    return this.saveSnippets(location.library.id);
+  }
+
+  /**
+   * Copy a snippet to another library. The copy gets a new id, and a new
+   * name if the name is already taken.
+   */
+  async copySnippetToLibrary(id: string, libraryId: string): Promise<boolean> {
+    const snippet = this.getSnippetById(id);
+    if (!snippet) {
+      return false;
+    }
+
+    const copy: ICodeSnippet = {
+      ...snippet,
+      id: UUID.uuid4(),
+      name: this.uniqueName(snippet.name),
+      order: this.librarySnippets.get(libraryId)?.length ?? 0,
+      tags: snippet.tags ? snippet.tags.slice() : undefined,
+      history: undefined,
+      created: undefined,
+      library: libraryId,
+    };
+
+    return this.addSnippet(copy);
+  }
+
+  /**
+   * Move a snippet to another library, keeping its id. It is removed from
+   * its library only once the target library is saved.
+   *
+   * @param toIdx - position in the target library, the end by default.
+   */
+  async moveSnippetToLibrary(
+    id: string,
+    libraryId: string,
+    toIdx?: number
+  ): Promise<boolean> {
+    const location = this.locate(id);
+    if (
+      !location ||
+      location.library.readOnly ||
+      location.library.id === libraryId ||
+      !this.getWritableSnippets(libraryId)
+    ) {
+      return false;
+    }
+
+    const source = location.library.id;
+    const snippet: ICodeSnippet = {
+      ...location.snippets[location.idx],
+      library: libraryId,
+      order: toIdx ?? this.librarySnippets.get(libraryId)?.length ?? 0,
+    };
+    if (!(await this.addSnippet(snippet))) {
+      // leave the snippet in its library only
+      const target = this.librarySnippets.get(libraryId) || [];
+      const idx = target.findIndex((item) => item.id === id);
+      if (idx !== -1) {
+        target.splice(idx, 1);
+        this.updateOrders(libraryId);
       }
-    });
+      return false;
+    }
 
-    await this.settingManager
-      .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-      .catch((_) => {
-        return false;
-      });
-    return true;
+    // the snippets of the library may have been merged during the save
+    const snippets = this.librarySnippets.get(source) || [];
+    const idx = snippets.findIndex((item) => item.id === id);
+    if (idx !== -1) {
+      snippets.splice(idx, 1);
+      this.updateOrders(source);
+    }
+    return this.saveSnippets(source);
   }
 
   // order snippets just in case when it gets shared between users
-  async orderSnippets(): Promise<boolean> {
-    this.codeSnippetList.sort((a, b) => a.id - b.id);
-    this.codeSnippetList.forEach((snippet, i) => (snippet.id = i));
-
-    await this.settingManager
-      .set('snippets', this.codeSnippetList as unknown as PartialJSONValue)
-      .catch((_) => {
-        return false;
-      });
-    return true;
+  async orderSnippets(
+    libraryId: string = PERSONAL_LIBRARY_ID
+  ): Promise<boolean> {
+    const snippets = this.librarySnippets.get(libraryId) || [];
+    snippets.sort((a, b) => a.order - b.order);
+    this.updateOrders(libraryId);
+
+    return this.saveSnippets(libraryId);
+  }
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Test whether two lists of snippets are the same.
+   */
+  export function isSame(a: ICodeSnippet[], b: ICodeSnippet[]): boolean {
+    return JSONExt.deepEqual(
+      a as unknown as PartialJSONValue,
+      b as unknown as PartialJSONValue
+    );
   }
 }
@@ -0,0 +1,267 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { CodeMirrorEditor } from '@jupyterlab/codemirror';
+
+import { IDisposable } from '@lumino/disposable';
+
+import CodeMirror from 'codemirror';
+
+import { ITemplateField, getTabStops } from './CodeSnippetTemplate';
+
+/**
+ * The CSS class added to the CodeMirror wrapper while a session is active,
+ * used as the selector of the session key bindings.
+ */
+export const SNIPPET_SESSION_CLASS = 'jp-codeSnippet-session';
+
+/**
+ * The CSS class of the highlighted fields.
+ */
+const SNIPPET_FIELD_CLASS = 'jp-codeSnippet-field';
+
+/**
+ * The origin of the edits made to mirror a field.
+ */
+const MIRROR_ORIGIN = '+codeSnippetMirror';
+
+/**
+ * A snippet session in a CodeMirror editor: the numbered placeholders of an
+ * inserted snippet are highlighted, Tab and Shift-Tab move between them,
+ * fields of the same number are edited together, and Escape ends the session.
+ */
+export class SnippetSession implements IDisposable {
+  /**
+   * Start a session on the fields of a template inserted in an editor.
+   *
+   * @param offset - the offset of the inserted text in the editor
+   *
+   * @returns the session, or null if the editor is not a CodeMirror editor
+   * or the template has no numbered placeholder.
+   */
+  static start(
+    editor: CodeEditor.IEditor,
+    offset: number,
+    fields: ITemplateField[]
+  ): SnippetSession | null {
+    const stops = getTabStops(fields);
+    if (!(editor instanceof CodeMirrorEditor) || stops.length === 0) {
+      return null;
+    }
+
+    const wrapper = editor.editor.getWrapperElement();
+    Private.sessions.get(wrapper)?.dispose();
+
+    const session = new SnippetSession(editor.editor, offset, stops);
+    Private.sessions.set(wrapper, session);
+    editor.focus();
+    session.select(0);
+    return session;
+  }
+
+  /**
+   * Find the session of the editor that has the focus.
+   */
+  static current(): SnippetSession | undefined {
+    const element = document.activeElement?.closest(
+      `.${SNIPPET_SESSION_CLASS}`
+    );
+    return element ? Private.sessions.get(element as HTMLElement) : undefined;
+  }
+
+  private constructor(
+    cm: CodeMirror.Editor,
+    offset: number,
+    stops: ITemplateField[][]
+  ) {
+    this._cm = cm;
+    const doc = cm.getDoc();
+    this._stops = stops.map((fields) =>
+      fields.map((field) =>
+        doc.markText(
+          doc.posFromIndex(offset + field.start),
+          doc.posFromIndex(offset + field.end),
+          {
+            className: SNIPPET_FIELD_CLASS,
+            inclusiveLeft: true,
+            inclusiveRight: true,
+            clearWhenEmpty: false,
+          }
+        )
+      )
+    );
+
+    cm.getWrapperElement().classList.add(SNIPPET_SESSION_CLASS);
+    cm.on('changes', this._onChanges);
+    cm.on('cursorActivity', this._onCursorActivity);
+  }
+
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Select the fields of the next tab stop, or end the session after the
+   * last one.
+   */
+  next(): void {
+    if (this._active + 1 < this._stops.length) {
+      this.select(this._active + 1);
+    } else {
+      const end = this._lastRange();
+      this.dispose();
+      if (end) {
+        this._cm.getDoc().setCursor(end.to);
+      }
+    }
+  }
+
+  /**
+   * Select the fields of the previous tab stop.
+   */
+  previous(): void {
+    if (this._active > 0) {
+      this.select(this._active - 1);
+    }
+  }
+
+  /**
+   * Select every field of a tab stop, so that they are edited together.
+   */
+  select(index: number): void {
+    const ranges = this._stops[index]
+      .map((marker) => marker.find())
+      .filter((range): range is CodeMirror.MarkerRange => range !== undefined)
+      .map((range) => ({ anchor: range.from, head: range.to }));
+    if (ranges.length === 0) {
+      this.dispose();
+      return;
+    }
+    this._active = index;
+    this._selecting = true;
+    this._cm.getDoc().setSelections(ranges);
+    this._selecting = false;
+  }
+
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._cm.off('changes', this._onChanges);
+    this._cm.off('cursorActivity', this._onCursorActivity);
+    this._stops.forEach((markers) =>
+      markers.forEach((marker) => marker.clear())
+    );
+
+    const wrapper = this._cm.getWrapperElement();
+    wrapper.classList.remove(SNIPPET_SESSION_CLASS);
+    if (Private.sessions.get(wrapper) === this) {
+      Private.sessions.delete(wrapper);
+    }
+  }
+
+  // the range of the last field of the last tab stop
+  private _lastRange(): CodeMirror.MarkerRange | undefined {
+    const markers = this._stops[this._stops.length - 1];
+    return markers[markers.length - 1].find();
+  }
+
+  /**
+   * Copy the text of an edited field to the other fields of its tab stop.
+   */
+  private _onChanges = (
+    cm: CodeMirror.Editor,
+    changes: CodeMirror.EditorChange[]
+  ): void => {
+    if (changes.every((change) => change.origin === MIRROR_ORIGIN)) {
+      return;
+    }
+    const doc = cm.getDoc();
+
+    cm.operation(() => {
+      for (const markers of this._stops) {
+        const ranges = markers.map((marker) => marker.find());
+        const edited = ranges.findIndex(
+          (range) =>
+            range !== undefined &&
+            changes.some(
+              (change) =>
+                change.origin !== MIRROR_ORIGIN &&
+                Private.contains(range, change.from)
+            )
+        );
+        if (edited === -1) {
+          continue;
+        }
+        const source = ranges[edited] as CodeMirror.MarkerRange;
+        const text = doc.getRange(source.from, source.to);
+        ranges.forEach((range, i) => {
+          if (
+            i !== edited &&
+            range !== undefined &&
+            doc.getRange(range.from, range.to) !== text
+          ) {
+            doc.replaceRange(text, range.from, range.to, MIRROR_ORIGIN);
+          }
+        });
+      }
+    });
+  };
+
+  /**
+   * End the session when the cursor leaves the fields.
+   */
+  private _onCursorActivity = (cm: CodeMirror.Editor): void => {
+    if (this._selecting) {
+      return;
+    }
+    const cursor = cm.getDoc().getCursor();
+    const inField = this._stops.some((markers) =>
+      markers.some((marker) => {
+        const range = marker.find();
+        return range !== undefined && Private.contains(range, cursor);
+      })
+    );
+    if (!inField) {
+      this.dispose();
+    }
+  };
+
+  private _cm: CodeMirror.Editor;
+  private _stops: CodeMirror.TextMarker<CodeMirror.MarkerRange>[][];
+  private _active = 0;
+  private _selecting = false;
+  private _isDisposed = false;
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * The active sessions by CodeMirror wrapper element.
+   */
+  export const sessions = new WeakMap<HTMLElement, SnippetSession>();
+
+  /**
+   * Test whether a position is inside a range, its ends included.
+   */
+  export function contains(
+    range: CodeMirror.MarkerRange,
+    pos: CodeMirror.Position
+  ): boolean {
+    return compare(range.from, pos) <= 0 && compare(pos, range.to) <= 0;
+  }
+
+  /**
+   * Compare two positions like `CodeMirror.cmpPos`.
+   */
+  export function compare(
+    a: CodeMirror.Position,
+    b: CodeMirror.Position
+  ): number {
+    return a.line - b.line || a.ch - b.ch;
+  }
+}
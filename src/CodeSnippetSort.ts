@@ -0,0 +1,164 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { getModifiedTime } from './CodeSnippetHistory';
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * The orders the snippet list can be sorted in.
+ */
+export type SortMode =
+  | 'manual'
+  | 'name'
+  | 'language'
+  | 'recentlyUsed'
+  | 'mostUsed'
+  | 'recentlyModified'
+  | 'created';
+
+/**
+ * The labels of the sort modes, in the order they are offered.
+ */
+export const SORT_MODES: { [mode in SortMode]: string } = {
+  manual: 'Manual order',
+  name: 'Name',
+  language: 'Language',
+  recentlyUsed: 'Recently used',
+  mostUsed: 'Most used',
+  recentlyModified: 'Recently modified',
+  created: 'Recently created',
+};
+
+/**
+ * How often and when a snippet was inserted.
+ */
+export interface ISnippetUsage {
+  count: number;
+  // ISO date of the last insertion
+  lastUsed: string;
+}
+
+/**
+ * The usage of the snippets, by snippet id.
+ */
+export interface IUsageStats {
+  [id: string]: ISnippetUsage;
+}
+
+/**
+ * Count an insertion of a snippet.
+ */
+export function recordUsage(
+  usage: IUsageStats,
+  id: string,
+  date: Date = new Date()
+): IUsageStats {
+  return {
+    ...usage,
+    [id]: {
+      count: (usage[id]?.count ?? 0) + 1,
+      lastUsed: date.toISOString(),
+    },
+  };
+}
+
+/**
+ * Drop the usage of snippets deleted for good.
+ */
+export function forgetUsage(usage: IUsageStats, ids: string[]): IUsageStats {
+  const result = { ...usage };
+  for (const id of ids) {
+    delete result[id];
+  }
+  return result;
+}
+
+/**
+ * Sort snippets. The snippets that cannot be compared, e.g. the ones never
+ * used when sorting by use, come last, and snippets that compare equal keep
+ * their order.
+ *
+ * @param language - get the language snippets are sorted by, e.g. their
+ * language tag
+ */
+export function sortSnippets(
+  snippets: ICodeSnippet[],
+  mode: SortMode,
+  usage: IUsageStats = {},
+  language: (snippet: ICodeSnippet) => string = (snippet): string =>
+    snippet.language
+): ICodeSnippet[] {
+  const compare = Private.getComparator(mode, usage, language);
+  return snippets
+    .map((snippet, position) => ({ snippet, position }))
+    .sort((a, b) => compare(a.snippet, b.snippet) || a.position - b.position)
+    .map((item) => item.snippet);
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Compare two snippets, 0 when they are in the same place.
+   */
+  export type Comparator = (a: ICodeSnippet, b: ICodeSnippet) => number;
+
+  export function getComparator(
+    mode: SortMode,
+    usage: IUsageStats,
+    language: (snippet: ICodeSnippet) => string
+  ): Comparator {
+    switch (mode) {
+      case 'name':
+        return (a, b): number => compareText(a.name, b.name);
+      case 'language':
+        return (a, b): number =>
+          compareText(language(a), language(b)) || compareText(a.name, b.name);
+      case 'recentlyUsed':
+        return byLatest((snippet) => toTime(usage[snippet.id]?.lastUsed));
+      case 'mostUsed':
+        return (a, b): number =>
+          (usage[b.id]?.count ?? 0) - (usage[a.id]?.count ?? 0) ||
+          byLatest((snippet) => toTime(usage[snippet.id]?.lastUsed))(a, b);
+      case 'recentlyModified':
+        return byLatest(getModifiedTime);
+      case 'created':
+        return byLatest((snippet) => toTime(snippet.created));
+      default:
+        return (): number => 0;
+    }
+  }
+
+  /**
+   * Compare texts the way people sort names, e.g. `plot2` before `plot10`.
+   */
+  export function compareText(a: string, b: string): number {
+    return a.localeCompare(b, undefined, {
+      numeric: true,
+      sensitivity: 'base',
+    });
+  }
+
+  /**
+   * Compare snippets by a time, the latest first and the snippets without a
+   * time last.
+   */
+  export function byLatest(
+    getTime: (snippet: ICodeSnippet) => number | null
+  ): Comparator {
+    return (a, b): number => {
+      const timeA = getTime(a) ?? -Infinity;
+      const timeB = getTime(b) ?? -Infinity;
+      return timeA === timeB ? 0 : timeB - timeA;
+    };
+  }
+
+  /**
+   * Get the time of an ISO date, or null if there is none.
+   */
+  export function toTime(date: string | undefined): number | null {
+    const time = Date.parse(date ?? '');
+    return isNaN(time) ? null : time;
+  }
+}
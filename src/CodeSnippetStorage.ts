@@ -0,0 +1,386 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { Settings } from '@jupyterlab/settingregistry';
+import { PathExt } from '@jupyterlab/coreutils';
+import { Contents, ServerConnection } from '@jupyterlab/services';
+
+import { JSONArray, JSONValue } from '@lumino/coreutils';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
+
+import { ICodeSnippet } from './CodeSnippetService';
+import { CodeSnippetContentsService } from './CodeSnippetContentsService';
+import { toSnippet, validateSnippet } from './CodeSnippetParser';
+
+/**
+ * A backend that loads and saves the list of code snippets.
+ */
+export interface ICodeSnippetStorage extends IDisposable {
+  /**
+   * A signal emitted with the stored snippets when they may have been changed
+   * outside of the code snippet explorer, e.g. in the settings editor.
+   */
+  readonly changed: ISignal<ICodeSnippetStorage, ICodeSnippet[]>;
+
+  /**
+   * Load all the snippets of the storage.
+   */
+  load(): Promise<ICodeSnippet[]>;
+
+  /**
+   * Load the snippets as they are stored now, bypassing any cache, to merge
+   * the changes made elsewhere before saving.
+   */
+  fetch(): Promise<ICodeSnippet[]>;
+
+  /**
+   * Save the given list of snippets, replacing the stored ones.
+   */
+  save(snippets: ICodeSnippet[]): Promise<boolean>;
+}
+
+/**
+ * Storage of snippets in the `snippets` array of the extension settings.
+ */
+export class SettingsSnippetStorage implements ICodeSnippetStorage {
+  constructor(settings: Settings) {
+    this._settings = settings;
+    this._settings.changed.connect(this._onSettingsChanged, this);
+  }
+
+  get changed(): ISignal<this, ICodeSnippet[]> {
+    return this._changed;
+  }
+
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  async load(): Promise<ICodeSnippet[]> {
+    return Private.toSnippetList(
+      this._settings.get('snippets').user as JSONArray
+    );
+  }
+
+  async fetch(): Promise<ICodeSnippet[]> {
+    // the settings may have been saved by another tab since they were loaded
+    await this._settings.registry.reload(this._settings.id);
+    return this.load();
+  }
+
+  async save(snippets: ICodeSnippet[]): Promise<boolean> {
+    return this._settings
+      .set('snippets', snippets as unknown as JSONValue)
+      .then(() => true)
+      .catch((_) => false);
+  }
+
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._settings.changed.disconnect(this._onSettingsChanged, this);
+    Signal.clearData(this);
+  }
+
+  private _onSettingsChanged(settings: Settings): void {
+    this._changed.emit(
+      Private.toSnippetList(settings.get('snippets').user as JSONArray)
+    );
+  }
+
+  private _settings: Settings;
+  private _isDisposed = false;
+  private _changed = new Signal<this, ICodeSnippet[]>(this);
+}
+
+/**
+ * Storage of snippets as one JSON file per snippet in a folder, read and
+ * written through the Contents API.
+ *
+ * #### Notes
+ * A snippet is saved to `<folder>/<snippet name>.json` with its code as an
+ * array of lines, which is the format of the files in `snippets_example/`.
+ * Files are renamed after their snippet when the snippets get saved.
+ * The folder is polled so that changes made outside of the code snippet
+ * explorer (e.g. `git pull`) show up in the explorer.
+ */
+export class FolderSnippetStorage implements ICodeSnippetStorage {
+  /**
+   * @param path path of the folder relative to the server root
+   * @param pollInterval seconds between checks of the folder, 0 to disable
+   * @param readOnly whether the folder must never be written
+   */
+  constructor(path: string, pollInterval: number, readOnly = false) {
+    this._path = path;
+    this._readOnly = readOnly;
+    this._contentsService = CodeSnippetContentsService.getInstance();
+
+    if (pollInterval > 0) {
+      this._poll = window.setInterval(() => {
+        void this._checkForChanges();
+      }, pollInterval * 1000);
+    }
+  }
+
+  get changed(): ISignal<this, ICodeSnippet[]> {
+    return this._changed;
+  }
+
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * The path of the folder.
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  async load(): Promise<ICodeSnippet[]> {
+    this._busy = true;
+    try {
+      const listing = await this._list();
+      const snippets: ICodeSnippet[] = [];
+
+      this._listing.clear();
+      this._snippetFiles.clear();
+
+      for (const item of listing) {
+        this._listing.set(item.path, item.last_modified);
+
+        let file: Contents.IModel;
+        try {
+          file = await this._contentsService.get(item.path, {
+            type: 'file',
+            format: 'text',
+            content: true,
+          });
+        } catch (error) {
+          console.log(`Error in reading snippet file ${item.path}`);
+          continue;
+        }
+
+        const snippet = Private.parseSnippetFile(file.content);
+        if (snippet) {
+          snippets.push(snippet);
+          this._snippetFiles.set(item.path, Private.serialize(snippet));
+        } else {
+          console.log(`${item.path} is not a valid snippet file`);
+        }
+      }
+      return snippets;
+    } finally {
+      this._busy = false;
+    }
+  }
+
+  async fetch(): Promise<ICodeSnippet[]> {
+    return this.load();
+  }
+
+  async save(snippets: ICodeSnippet[]): Promise<boolean> {
+    if (this._readOnly) {
+      return false;
+    }
+    this._busy = true;
+    let success = true;
+    try {
+      const files = new Map<string, string>();
+      for (const snippet of snippets) {
+        let path = PathExt.join(
+          this._path,
+          Private.toFileName(snippet.name) + '.json'
+        );
+        if (files.has(path)) {
+          path = PathExt.join(
+            this._path,
+            Private.toFileName(snippet.name) + '-' + snippet.id + '.json'
+          );
+        }
+        files.set(path, Private.serialize(snippet));
+      }
+
+      // write new and changed snippets only
+      for (const [path, content] of files) {
+        if (this._snippetFiles.get(path) === content) {
+          continue;
+        }
+        const model = await this._contentsService.save(path, {
+          type: 'file',
+          format: 'text',
+          content: content,
+        });
+        if (model instanceof Error) {
+          console.log(`Error in saving snippet file ${path}`);
+          success = false;
+          continue;
+        }
+        this._snippetFiles.set(path, content);
+        this._listing.set(path, model.last_modified);
+      }
+
+      // remove files of the snippets that are gone
+      for (const path of Array.from(this._snippetFiles.keys())) {
+        if (files.has(path)) {
+          continue;
+        }
+        try {
+          await this._contentsService.delete(path);
+          this._snippetFiles.delete(path);
+          this._listing.delete(path);
+        } catch (error) {
+          console.log(`Error in deleting snippet file ${path}`);
+          success = false;
+        }
+      }
+    } finally {
+      this._busy = false;
+    }
+    return success;
+  }
+
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    window.clearInterval(this._poll);
+    Signal.clearData(this);
+  }
+
+  /**
+   * List the JSON files of the folder, creating the folder if it does not
+   * exist yet.
+   */
+  private async _list(): Promise<Contents.IModel[]> {
+    let directory: Contents.IModel;
+    try {
+      directory = await this._contentsService.get(this._path, {
+        type: 'directory',
+        content: true,
+      });
+    } catch (error) {
+      if (
+        error instanceof ServerConnection.ResponseError &&
+        error.response.status === 404
+      ) {
+        if (this._readOnly) {
+          return [];
+        }
+        await this._contentsService.save(this._path, { type: 'directory' });
+        return [];
+      }
+      throw error;
+    }
+    return (directory.content as Contents.IModel[]).filter(
+      (item) => item.type === 'file' && PathExt.extname(item.path) === '.json'
+    );
+  }
+
+  /**
+   * Reload the snippets if a file of the folder was added, removed or
+   * modified since the last load or save.
+   */
+  private async _checkForChanges(): Promise<void> {
+    if (this._busy || this._isDisposed) {
+      return;
+    }
+
+    let listing: Contents.IModel[];
+    try {
+      listing = await this._list();
+    } catch (error) {
+      return;
+    }
+
+    const modified =
+      listing.length !== this._listing.size ||
+      listing.some(
+        (item) => this._listing.get(item.path) !== item.last_modified
+      );
+    if (modified && !this._busy && !this._isDisposed) {
+      this._changed.emit(await this.load());
+    }
+  }
+
+  private _path: string;
+  private _readOnly: boolean;
+  private _contentsService: CodeSnippetContentsService;
+  private _poll: number;
+  private _busy = false;
+  private _isDisposed = false;
+  // last modified time of every JSON file in the folder
+  private _listing = new Map<string, string>();
+  // content of the files that hold a snippet
+  private _snippetFiles = new Map<string, string>();
+  private _changed = new Signal<this, ICodeSnippet[]>(this);
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  export function toSnippetList(
+    snippets: JSONArray | undefined
+  ): ICodeSnippet[] {
+    if (!snippets) {
+      return [];
+    }
+    return snippets.map((snippet) => snippet as unknown as ICodeSnippet);
+  }
+
+  /**
+   * Parse the content of a snippet file, which holds a single snippet.
+   */
+  export function parseSnippetFile(content: string): ICodeSnippet | null {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      return null;
+    }
+    if (validateSnippet(value)) {
+      return null;
+    }
+    return toSnippet(value as { [key: string]: any });
+  }
+
+  /**
+   * Serialize a snippet the way it is documented in snippet_metadata.rst.
+   */
+  export function serialize(snippet: ICodeSnippet): string {
+    const file = {
+      name: snippet.name,
+      description: snippet.description,
+      language: snippet.language,
+      code: snippet.code.split('\n'),
+      id: snippet.id,
+      order: snippet.order,
+      tags: snippet.tags,
+      prefix: snippet.prefix,
+      kind: snippet.kind,
+      requires: snippet.requires,
+      created: snippet.created,
+      cells: snippet.cells?.map((cell) => ({
+        ...cell,
+        source: cell.source.split('\n'),
+      })),
+      history: snippet.history?.map((revision) => ({
+        ...revision,
+        code: revision.code.split('\n'),
+      })),
+    };
+    return JSON.stringify(file, null, 2) + '\n';
+  }
+
+  /**
+   * Replace the characters that are not allowed in a file name.
+   */
+  export function toFileName(name: string): string {
+    return name.replace(/[/\\:]/g, '_');
+  }
+}
@@ -0,0 +1,66 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * Whether a snippet must have any or all of the selected tags.
+ */
+export type TagMatchMode = 'any' | 'all';
+
+/**
+ * The pseudo-tag of the snippets without tags. No tag can be empty.
+ */
+export const UNTAGGED = '';
+
+/**
+ * The tags and languages selected to filter the snippets.
+ */
+export interface ITagFilter {
+  // the tags the snippets must have, any or all of them depending on the mode
+  tags: string[];
+  // the tags the snippets must not have
+  excludedTags: string[];
+  // the languages of the snippets, any of them
+  languages: string[];
+  mode: TagMatchMode;
+}
+
+/**
+ * Test whether a tag filter keeps all the snippets.
+ */
+export function isEmptyTagFilter(filter: ITagFilter): boolean {
+  return (
+    filter.tags.length === 0 &&
+    filter.excludedTags.length === 0 &&
+    filter.languages.length === 0
+  );
+}
+
+/**
+ * Test whether a snippet passes a tag filter.
+ *
+ * @param language - the language the snippet is filtered by, e.g. its
+ * language tag
+ */
+export function matchesTagFilter(
+  snippet: ICodeSnippet,
+  filter: ITagFilter,
+  language: string = snippet.language
+): boolean {
+  if (filter.languages.length !== 0 && !filter.languages.includes(language)) {
+    return false;
+  }
+  const tags = snippet.tags ?? [];
+  const hasTag = (tag: string): boolean =>
+    tag === UNTAGGED ? tags.length === 0 : tags.includes(tag);
+  if (filter.excludedTags.some(hasTag)) {
+    return false;
+  }
+  if (filter.tags.length === 0) {
+    return true;
+  }
+  return filter.mode === 'all'
+    ? filter.tags.every(hasTag)
+    : filter.tags.some(hasTag);
+}
@@ -0,0 +1,180 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+/**
+ * A placeholder of a snippet template, e.g. `${1:dataframe}` or `{{name}}`.
+ */
+export interface IPlaceholder {
+  // `1` for `${1:dataframe}`, `name` for `{{name}}`
+  key: string;
+  // value used when the user does not give one
+  default: string;
+  // kernel expression listing the values offered for `{{name=expression}}`
+  expression?: string;
+}
+
+/**
+ * A piece of a template: either literal text or a placeholder.
+ */
+export type TemplateToken = string | IPlaceholder;
+
+/**
+ * Numbered placeholders `${1}` / `${1:default}`, named placeholders
+ * `{{name}}` / `{{name:default}}` / `{{name=expression}}`, and the escaped
+ * forms `\${` and `\{{`. A default cannot start with `-`, `=`, `?` or `+`,
+ * so that shell expansions like `${1:-world}` are kept as they are.
+ */
+const PLACEHOLDER_REGEX =
+  /\\(\$\{|\{\{)|\$\{(\d+)(?::(?![-=?+])([^}]*))?\}|\{\{\s*([A-Za-z_][\w.-]*)\s*(?:([:=])([^}]*))?\}\}/g;
+
+/**
+ * Split a template into literal text and placeholders.
+ */
+export function tokenize(code: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let text = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  PLACEHOLDER_REGEX.lastIndex = 0;
+  while ((match = PLACEHOLDER_REGEX.exec(code)) !== null) {
+    text += code.slice(last, match.index);
+    last = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      // escaped placeholder, keep it without the backslash
+      text += match[1];
+      continue;
+    }
+    if (text !== '') {
+      tokens.push(text);
+      text = '';
+    }
+    if (match[2] !== undefined) {
+      tokens.push({ key: match[2], default: match[3] ?? '' });
+    } else if (match[5] === '=') {
+      tokens.push({ key: match[4], default: '', expression: match[6].trim() });
+    } else {
+      tokens.push({ key: match[4], default: (match[6] ?? '').trim() });
+    }
+  }
+  text += code.slice(last);
+  if (text !== '') {
+    tokens.push(text);
+  }
+  return tokens;
+}
+
+/**
+ * List the distinct placeholders of a template in order of appearance. The
+ * default of a placeholder is the first non-empty default given for its key,
+ * and likewise for its expression.
+ */
+export function getPlaceholders(code: string): IPlaceholder[] {
+  const placeholders: IPlaceholder[] = [];
+  for (const token of tokenize(code)) {
+    if (typeof token === 'string') {
+      continue;
+    }
+    const placeholder = placeholders.find((item) => item.key === token.key);
+    if (!placeholder) {
+      placeholders.push({ ...token });
+    } else {
+      if (placeholder.default === '') {
+        placeholder.default = token.default;
+      }
+      if (placeholder.expression === undefined && token.expression) {
+        placeholder.expression = token.expression;
+      }
+    }
+  }
+  return placeholders;
+}
+
+/**
+ * Test whether a template has any placeholder.
+ */
+export function hasPlaceholders(code: string): boolean {
+  return getPlaceholders(code).length !== 0;
+}
+
+/**
+ * The location of a placeholder in an expanded template.
+ */
+export interface ITemplateField {
+  key: string;
+  // offsets of the value in the expanded text
+  start: number;
+  end: number;
+}
+
+/**
+ * A template with its placeholders replaced.
+ */
+export interface IExpandedTemplate {
+  text: string;
+  // every occurrence of every placeholder, in order of appearance
+  fields: ITemplateField[];
+}
+
+/**
+ * Replace every placeholder of a template with its value, or with its
+ * default when no value is given.
+ */
+export function expandTemplate(
+  code: string,
+  values: { [key: string]: string } = {}
+): string {
+  return expandTemplateFields(code, values).text;
+}
+
+/**
+ * Replace every placeholder of a template like `expandTemplate`, and keep
+ * where each value ends up in the text.
+ */
+export function expandTemplateFields(
+  code: string,
+  values: { [key: string]: string } = {}
+): IExpandedTemplate {
+  const defaults: { [key: string]: string } = {};
+  getPlaceholders(code).forEach((item) => (defaults[item.key] = item.default));
+
+  const result: IExpandedTemplate = { text: '', fields: [] };
+  for (const token of tokenize(code)) {
+    if (typeof token === 'string') {
+      result.text += token;
+      continue;
+    }
+    const value = values[token.key] ?? defaults[token.key];
+    result.fields.push({
+      key: token.key,
+      start: result.text.length,
+      end: result.text.length + value.length,
+    });
+    result.text += value;
+  }
+  return result;
+}
+
+/**
+ * Group the numbered fields of an expanded template into tab stops, ordered
+ * by number with `0` last. Fields of the same number are mirrored.
+ */
+export function getTabStops(fields: ITemplateField[]): ITemplateField[][] {
+  const stops = new Map<string, ITemplateField[]>();
+  for (const field of fields) {
+    if (!/^\d+$/.test(field.key)) {
+      continue;
+    }
+    if (!stops.has(field.key)) {
+      stops.set(field.key, []);
+    }
+    stops.get(field.key)?.push(field);
+  }
+
+  const order = (key: string): number =>
+    key === '0' ? Number.MAX_SAFE_INTEGER : parseInt(key, 10);
+  return Array.from(stops.keys())
+    .sort((a, b) => order(a) - order(b))
+    .map((key) => stops.get(key) ?? []);
+}
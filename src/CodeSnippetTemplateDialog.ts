@@ -0,0 +1,225 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { Dialog, ISessionContext, showDialog } from '@jupyterlab/apputils';
+
+import { Widget } from '@lumino/widgets';
+
+import { IEvaluation, evaluateExpression } from './CodeSnippetKernel';
+import { ICodeSnippet, PERSONAL_LIBRARY_ID } from './CodeSnippetService';
+import {
+  IExpandedTemplate,
+  IPlaceholder,
+  expandTemplateFields,
+  getPlaceholders,
+  hasPlaceholders,
+} from './CodeSnippetTemplate';
+
+/**
+ * The CSS classes of the placeholder form.
+ */
+const TEMPLATE_FORM = 'jp-codeSnippet-template-form';
+const TEMPLATE_FIELD = 'jp-codeSnippet-template-field';
+const TEMPLATE_NOTE = 'jp-codeSnippet-template-note';
+const EVALUATION_BODY = 'jp-codeSnippet-evaluation';
+
+/**
+ * Ask for the values of the placeholders of a snippet and fill them in.
+ *
+ * @param values - values known beforehand, whose placeholders are not asked
+ *
+ * @param action - the label of the button of the form
+ *
+ * @param sessionContext - the session whose kernel evaluates the expressions
+ * of `{{name=expression}}` placeholders, whose values are offered in a list
+ *
+ * @returns the code to insert with the location of the placeholder values,
+ * or null if the user cancelled. A snippet without placeholders to ask for is
+ * filled without showing the form.
+ */
+export async function fillTemplate(
+  snippet: ICodeSnippet,
+  values: { [key: string]: string } = {},
+  action = 'Insert',
+  sessionContext: ISessionContext | null = null
+): Promise<IExpandedTemplate | null> {
+  if (!hasPlaceholders(snippet.code)) {
+    return { text: snippet.code, fields: [] };
+  }
+  const allValues = await askTemplateValues(
+    snippet,
+    values,
+    action,
+    sessionContext
+  );
+  return allValues ? expandTemplateFields(snippet.code, allValues) : null;
+}
+
+/**
+ * Ask for the values of the placeholders of a snippet, e.g. to fill each
+ * cell of a multi-cell snippet with the same values.
+ *
+ * @returns the given values with the values of the other placeholders, or
+ * null if the user cancelled.
+ */
+export async function askTemplateValues(
+  snippet: ICodeSnippet,
+  values: { [key: string]: string } = {},
+  action = 'Insert',
+  sessionContext: ISessionContext | null = null
+): Promise<{ [key: string]: string } | null> {
+  const placeholders = getPlaceholders(snippet.code).filter(
+    (placeholder) => values[placeholder.key] === undefined
+  );
+  if (placeholders.length === 0) {
+    return values;
+  }
+
+  // without a kernel, the values are typed like other placeholders
+  const evaluations = new Map<string, IEvaluation>();
+  const expressions = placeholders.filter(
+    (placeholder) => placeholder.expression
+  );
+  if (
+    expressions.length > 0 &&
+    (await Private.allowEvaluation(snippet, expressions, sessionContext))
+  ) {
+    for (const placeholder of expressions) {
+      const evaluation = await evaluateExpression(
+        sessionContext,
+        placeholder.expression as string
+      );
+      evaluations.set(placeholder.key, evaluation);
+      if (evaluation.pending) {
+        // the next expressions would wait for the busy kernel too
+        break;
+      }
+    }
+  }
+
+  const result = await showDialog({
+    title: `${action} "${snippet.name}"`,
+    body: new TemplateHandler(placeholders, evaluations),
+    buttons: [Dialog.cancelButton(), Dialog.okButton({ label: action })],
+    focusNodeSelector: 'input',
+  });
+  if (!result.button.accept) {
+    return null;
+  }
+  return { ...values, ...result.value };
+}
+
+/**
+ * A form with one input per placeholder, prefilled with its default, or with
+ * a list of the values of its expression.
+ */
+class TemplateHandler extends Widget {
+  constructor(
+    placeholders: IPlaceholder[],
+    evaluations: Map<string, IEvaluation>
+  ) {
+    super({ node: document.createElement('div') });
+    this.addClass(TEMPLATE_FORM);
+
+    for (const placeholder of placeholders) {
+      const label = document.createElement('label');
+      label.className = TEMPLATE_FIELD;
+      label.textContent = placeholder.key;
+
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.value = placeholder.default;
+      input.placeholder = placeholder.default;
+      label.appendChild(input);
+
+      const evaluation = evaluations.get(placeholder.key);
+      const items = evaluation?.values;
+      if (items) {
+        const list = document.createElement('datalist');
+        list.id = `${TEMPLATE_FIELD}-${TemplateHandler._lists++}`;
+        items.forEach((item) => {
+          const option = document.createElement('option');
+          option.value = item;
+          list.appendChild(option);
+        });
+        input.setAttribute('list', list.id);
+        input.value = items[0] ?? placeholder.default;
+        label.appendChild(list);
+      } else if (evaluation?.pending) {
+        const note = document.createElement('span');
+        note.className = TEMPLATE_NOTE;
+        note.textContent = `The kernel is busy: ${placeholder.expression} will be evaluated once it is free, but its values cannot be offered`;
+        label.appendChild(note);
+      } else if (placeholder.expression && !evaluation) {
+        input.title = `${placeholder.expression} was not evaluated`;
+      } else if (placeholder.expression) {
+        input.title = `No kernel to evaluate ${placeholder.expression}`;
+      }
+
+      this.node.appendChild(label);
+      this._inputs.set(placeholder.key, input);
+    }
+  }
+
+  getValue(): { [key: string]: string } {
+    const values: { [key: string]: string } = {};
+    this._inputs.forEach((input, key) => (values[key] = input.value));
+    return values;
+  }
+
+  private _inputs = new Map<string, HTMLInputElement>();
+  // the number of lists of values created, used for their ids
+  private static _lists = 0;
+}
+
+/**
+ * The namespace for module private data.
+ */
+namespace Private {
+  /**
+   * Ask before running in the kernel the expressions of a snippet from
+   * another library than the personal one, e.g. a shared folder, which the
+   * user may never have read. There is nothing to ask without a kernel.
+   */
+  export async function allowEvaluation(
+    snippet: ICodeSnippet,
+    placeholders: IPlaceholder[],
+    sessionContext: ISessionContext | null
+  ): Promise<boolean> {
+    if (
+      !sessionContext?.session?.kernel ||
+      snippet.library === PERSONAL_LIBRARY_ID
+    ) {
+      return true;
+    }
+    const result = await showDialog({
+      title: 'Evaluate in the kernel?',
+      body: new EvaluationHandler(placeholders),
+      buttons: [
+        Dialog.cancelButton({ label: 'Type Values' }),
+        Dialog.warnButton({ label: 'Evaluate' }),
+      ],
+    });
+    return result.button.accept;
+  }
+
+  /**
+   * The body of the dialog asking to evaluate expressions.
+   */
+  class EvaluationHandler extends Widget {
+    constructor(placeholders: IPlaceholder[]) {
+      super({ node: document.createElement('div') });
+      this.addClass(EVALUATION_BODY);
+
+      const message = document.createElement('p');
+      message.textContent =
+        'The values offered are computed by running this code in the kernel:';
+      const code = document.createElement('pre');
+      code.textContent = placeholders
+        .map((placeholder) => `${placeholder.key} = ${placeholder.expression}`)
+        .join('\n');
+      this.node.appendChild(message);
+      this.node.appendChild(code);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// Copyright (c) 2020, jupytercalpoly
+// Distributed under the terms of the BSD-3 Clause License.
+
+import { ICodeSnippet } from './CodeSnippetService';
+
+/**
+ * The number of milliseconds in a day.
+ */
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A deleted snippet kept in the trash.
+ */
+export interface ITrashedSnippet {
+  // the snippet as it was stored, without its library
+  snippet: ICodeSnippet;
+  // id of the library the snippet was deleted from
+  library: string;
+  // ISO date of the deletion
+  deleted: string;
+}
+
+/**
+ * Get the number of whole days before a trashed snippet is purged.
+ *
+ * @param retentionDays - the days snippets stay in the trash, 0 to keep them
+ * until the trash is emptied
+ *
+ * @returns the number of days, or null if the snippet is never purged.
+ */
+export function getDaysLeft(
+  entry: ITrashedSnippet,
+  retentionDays: number,
+  now: Date = new Date()
+): number | null {
+  if (retentionDays <= 0) {
+    return null;
+  }
+  const age = now.getTime() - new Date(entry.deleted).getTime();
+  return Math.max(Math.ceil(retentionDays - age / DAY), 0);
+}
+
+/**
+ * Remove the snippets that have been in the trash for longer than the
+ * retention period.
+ */
+export function purgeTrash(
+  trash: ITrashedSnippet[],
+  retentionDays: number,
+  now: Date = new Date()
+): ITrashedSnippet[] {
+  return trash.filter((entry) => getDaysLeft(entry, retentionDays, now) !== 0);
+}
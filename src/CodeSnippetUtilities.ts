@@ -1,5 +1,7 @@
 import { showDialog, Dialog } from '@jupyterlab/apputils';
 
+import { Widget } from '@lumino/widgets';
+
 import { SUPPORTED_LANGUAGES } from './CodeSnippetLanguages';
 import { CodeSnippetService, ICodeSnippet } from './CodeSnippetService';
 
@@ -33,6 +35,7 @@ export function validateInputs(
 
 /**
  * Rename a file, warning for overwriting another.
+ * The new snippet takes over the id and the position of the old one.
  */
 export async function saveOverWriteFile(
   codeSnippetManager: CodeSnippetService,
@@ -43,29 +46,25 @@ export async function saveOverWriteFile(
 
   return await shouldOverwrite(newName).then((res) => {
     if (res) {
-      newSnippet.id = oldSnippet.id;
-
-      codeSnippetManager.deleteSnippet(oldSnippet.id).then((res: boolean) => {
-        if (!res) {
-          console.log('Error in overwriting a snippet (delete)');
-          return false;
-        }
-      });
-      codeSnippetManager.addSnippet(newSnippet).then((res: boolean) => {
-        if (!res) {
-          console.log('Error in overwriting a snippet (add)');
-          return false;
-        }
-      });
-      return true;
+      return codeSnippetManager
+        .withUndo(`Overwrote "${oldSnippet.name}"`, () =>
+          codeSnippetManager.modifyExistingSnippet(oldSnippet.id, newSnippet)
+        )
+        .then((res: boolean) => {
+          if (!res) {
+            console.log('Error in overwriting a snippet');
+          }
+          return res;
+        });
     }
+    return false;
   });
 }
 
 /**
  * Ask the user whether to overwrite a file.
  */
-async function shouldOverwrite(newName: string): Promise<boolean> {
+export async function shouldOverwrite(newName: string): Promise<boolean> {
   const options = {
     title: 'Overwrite code snippet?',
     body: `"${newName}" already exists, overwrite?`,
@@ -75,3 +74,69 @@ async function shouldOverwrite(newName: string): Promise<boolean> {
     return result.button.accept;
   });
 }
+
+/**
+ * What to do with an imported snippet whose name is already taken.
+ */
+export type ConflictAction = 'skip' | 'rename' | 'overwrite';
+
+/**
+ * Ask the user how to resolve a name clash, and whether to resolve the next
+ * clashes the same way.
+ *
+ * @param canOverwrite - whether the existing snippet can be replaced
+ */
+export async function resolveNameConflict(
+  name: string,
+  canOverwrite: boolean
+): Promise<{ action: ConflictAction; applyToAll: boolean }> {
+  // skipping accepts the dialog, for its value to tell whether to skip the
+  // next clashes too, while dismissing it only skips this one
+  const buttons = [
+    Dialog.createButton({ label: 'Skip' }),
+    Dialog.okButton({ label: 'Rename' }),
+  ];
+  if (canOverwrite) {
+    buttons.push(Dialog.warnButton({ label: 'Overwrite' }));
+  }
+  const result = await showDialog({
+    title: 'Snippet name conflict',
+    body: new ConflictHandler(name),
+    buttons: buttons,
+  });
+
+  let action: ConflictAction = 'skip';
+  if (result.button.label === 'Rename') {
+    action = 'rename';
+  } else if (result.button.label === 'Overwrite') {
+    action = 'overwrite';
+  }
+  return { action: action, applyToAll: result.value === true };
+}
+
+/**
+ * The body of the name conflict dialog.
+ */
+class ConflictHandler extends Widget {
+  constructor(name: string) {
+    super({ node: document.createElement('div') });
+
+    const message = document.createElement('p');
+    message.textContent = `"${name}" already exists.`;
+
+    const label = document.createElement('label');
+    this._checkbox = document.createElement('input');
+    this._checkbox.type = 'checkbox';
+    label.appendChild(this._checkbox);
+    label.appendChild(document.createTextNode(' Apply to all conflicts'));
+
+    this.node.appendChild(message);
+    this.node.appendChild(label);
+  }
+
+  getValue(): boolean {
+    return this._checkbox.checked;
+  }
+
+  private _checkbox: HTMLInputElement;
+}
@@ -25,9 +25,14 @@ import { Signal } from '@lumino/signaling';
 import { IDragEvent } from '@lumino/dragdrop';
 import { MimeData, ReadonlyPartialJSONObject } from '@lumino/coreutils';
 
-import { CodeSnippetService, ICodeSnippet } from './CodeSnippetService';
+import {
+  CodeSnippetService,
+  ICodeSnippet,
+  PERSONAL_LIBRARY_ID,
+} from './CodeSnippetService';
 import { CodeSnippetDisplay } from './CodeSnippetDisplay';
 import { CodeSnippetInputDialog } from './CodeSnippetInputDialog';
+import { joinCells, toSnippetCells } from './CodeSnippetCells';
 
 import React from 'react';
 import { Notebook } from '@jupyterlab/notebook';
@@ -186,7 +191,10 @@ export class CodeSnippetWidget extends ReactWidget {
 
     if (!event.mimeData.hasData('snippet/id')) {
       const snippetId = target.id.slice(CODE_SNIPPET_DRAG_HOVER.length);
-      event.mimeData.setData('snippet/id', parseInt(snippetId));
+      event.mimeData.setData('snippet/id', snippetId);
+    }
+    if (!this.canDrop(event)) {
+      return;
     }
 
     const snippet = this._findSnippet(target);
@@ -224,11 +232,15 @@ export class CodeSnippetWidget extends ReactWidget {
     }
     event.preventDefault();
     event.stopPropagation();
-    event.dropAction = event.proposedAction;
     const elements = this.node.getElementsByClassName(DROP_TARGET_CLASS);
     if (elements.length) {
       (elements[0] as HTMLElement).classList.remove(DROP_TARGET_CLASS);
     }
+    if (!this.canDrop(event)) {
+      event.dropAction = 'none';
+      return;
+    }
+    event.dropAction = event.proposedAction;
     const target = event.target as HTMLElement;
     const snippet = this._findSnippet(target);
     if (snippet === undefined) {
@@ -239,6 +251,17 @@ export class CodeSnippetWidget extends ReactWidget {
     snippetNode.classList.add(DROP_TARGET_CLASS);
   }
 
+  /**
+   * Test whether a drag can be dropped onto the snippets: the snippets of the
+   * panel are only moved in the manual order.
+   */
+  private canDrop(event: IDragEvent): boolean {
+    return (
+      !(event.source instanceof CodeSnippetDisplay) ||
+      this.codeSnippetManager.sortMode === 'manual'
+    );
+  }
+
   private findCellData(mime: MimeData): string {
     const code = mime.getData('text/plain');
 
@@ -274,11 +297,20 @@ export class CodeSnippetWidget extends ReactWidget {
     const snippet = this._findSnippet(target);
 
     // if target is CodeSnippetWidget, then snippet is undefined
-    let idx;
-    if (snippet !== undefined) {
-      idx = parseInt(snippet.id.slice(CODE_SNIPPET_ITEM.length));
-    } else {
-      idx = this.codeSnippetManager.snippets.length;
+    const targetSnippet =
+      snippet !== undefined
+        ? this.codeSnippetManager.getSnippetById(
+            snippet.id.slice(CODE_SNIPPET_ITEM.length)
+          )
+        : undefined;
+
+    // library of the snippet dropped onto, the personal library by default
+    let library = PERSONAL_LIBRARY_ID;
+    if (
+      targetSnippet !== undefined &&
+      !this.codeSnippetManager.isReadOnly(targetSnippet)
+    ) {
+      library = targetSnippet.library;
     }
 
     /**
@@ -286,10 +318,39 @@ export class CodeSnippetWidget extends ReactWidget {
      */
     const source = event.source;
     if (source instanceof CodeSnippetDisplay) {
+      if (!this.canDrop(event)) {
+        event.dropAction = 'none';
+        return;
+      }
       event.dropAction = 'move';
       if (event.mimeData.hasData('snippet/id')) {
-        const srcIdx = event.mimeData.getData('snippet/id') as number;
-        this.moveCodeSnippet(srcIdx, idx);
+        const srcId = event.mimeData.getData('snippet/id') as string;
+        const srcSnippet = this.codeSnippetManager.getSnippetById(srcId);
+        let idx: number;
+        if (targetSnippet !== undefined) {
+          idx = targetSnippet.order;
+        } else {
+          // dropped below the snippets, at the end of its library
+          library = srcSnippet?.library ?? PERSONAL_LIBRARY_ID;
+          idx = this.codeSnippetManager.snippets.filter(
+            (snippet) => snippet.library === library
+          ).length;
+        }
+
+        // the move is saved before the library is saved again
+        if (
+          targetSnippet !== undefined &&
+          srcSnippet !== undefined &&
+          srcSnippet.library !== targetSnippet.library
+        ) {
+          await this.moveCodeSnippetToLibrary(
+            srcId,
+            targetSnippet.library,
+            idx
+          );
+        } else {
+          await this.moveCodeSnippet(srcId, idx);
+        }
       }
     } else {
       const notebook: Notebook =
@@ -299,11 +360,23 @@ export class CodeSnippetWidget extends ReactWidget {
       // Handle the case where we are copying cells
       event.dropAction = 'copy';
 
-      CodeSnippetInputDialog(this, data, language, idx);
+      // several cells are saved as a multi-cell snippet
+      const cells = toSnippetCells(
+        event.mimeData.getData(JUPYTER_CELL_MIME) ?? []
+      );
+
+      CodeSnippetInputDialog(
+        this,
+        cells.length > 1 ? joinCells(cells) : data,
+        language,
+        library === targetSnippet?.library ? targetSnippet.order : undefined,
+        library,
+        cells.length > 1 ? cells : undefined
+      );
     }
 
-    // Reorder snippet just to make sure id's are in order.
-    this.codeSnippetManager.orderSnippets().then((res: boolean) => {
+    // Reorder snippet just to make sure orders are in sequence.
+    this.codeSnippetManager.orderSnippets(library).then((res: boolean) => {
       if (!res) {
         console.log('Error in ordering snippets');
         return;
@@ -312,9 +385,15 @@ export class CodeSnippetWidget extends ReactWidget {
   }
 
   // move code snippet within code snippet explorer
-  private moveCodeSnippet(srcIdx: number, targetIdx: number): void {
-    this.codeSnippetManager
-      .moveSnippet(srcIdx, targetIdx)
+  private async moveCodeSnippet(
+    srcId: string,
+    targetIdx: number
+  ): Promise<void> {
+    const name = this.codeSnippetManager.getSnippetById(srcId)?.name;
+    const moved = this.codeSnippetManager
+      .withUndo(`Moved "${name}"`, () =>
+        this.codeSnippetManager.moveSnippet(srcId, targetIdx)
+      )
       .then((res: boolean) => {
         if (!res) {
           console.log('Error in moving snippet');
@@ -323,6 +402,28 @@ export class CodeSnippetWidget extends ReactWidget {
       });
     const newSnippets = this.codeSnippetManager.snippets;
     this.renderCodeSnippetsSignal.emit(newSnippets);
+    await moved;
+  }
+
+  // move code snippet to another library in front of the target snippet
+  private async moveCodeSnippetToLibrary(
+    srcId: string,
+    library: string,
+    targetIdx: number
+  ): Promise<void> {
+    const name = this.codeSnippetManager.getSnippetById(srcId)?.name;
+    const libraryName = this.codeSnippetManager.getLibrary(library)?.name;
+    await this.codeSnippetManager
+      .withUndo(`Moved "${name}" to ${libraryName}`, () =>
+        this.codeSnippetManager.moveSnippetToLibrary(srcId, library, targetIdx)
+      )
+      .then((res: boolean) => {
+        if (!res) {
+          console.log('Error in moving snippet to another library');
+          return;
+        }
+        this.renderCodeSnippetsSignal.emit(this.codeSnippetManager.snippets);
+      });
   }
 
   render(): React.ReactElement {
@@ -24,10 +24,11 @@ import { ICommandPalette, WidgetTracker } from '@jupyterlab/apputils';
 import { ISettingRegistry, Settings } from '@jupyterlab/settingregistry';
 
 import { IEditorServices } from '@jupyterlab/codeeditor';
+import { FileDialog, IFileBrowserFactory } from '@jupyterlab/filebrowser';
 import { LabIcon } from '@jupyterlab/ui-components';
 
 import { Widget } from '@lumino/widgets';
-import { find } from '@lumino/algorithm';
+import { find, toArray } from '@lumino/algorithm';
 
 import editorIconSVGstr from '../style/icon/jupyter_snippeteditoricon.svg';
 import codeSnippetIconSVGstr from '../style/icon/jupyter_snippeticon.svg';
@@ -38,8 +39,24 @@ import {
   CodeSnippetEditor,
   ICodeSnippetEditorMetadata,
 } from './CodeSnippetEditor';
-import { CodeSnippetService } from './CodeSnippetService';
-import { NotebookPanel } from '@jupyterlab/notebook';
+import {
+  CodeSnippetService,
+  ICodeSnippet,
+  PERSONAL_LIBRARY_ID,
+} from './CodeSnippetService';
+import { getLanguageTag } from './CodeSnippetLanguages';
+import { joinCells, toSnippetCells } from './CodeSnippetCells';
+import { importSnippets } from './CodeSnippetImport';
+import { SnippetSession, SNIPPET_SESSION_CLASS } from './CodeSnippetSession';
+import {
+  completeConsoles,
+  completeFiles,
+  completeNotebooks,
+} from './CodeSnippetCompleter';
+import { INotebookTracker, NotebookPanel } from '@jupyterlab/notebook';
+import { IConsoleTracker } from '@jupyterlab/console';
+import { IEditorTracker } from '@jupyterlab/fileeditor';
+import { ICompletionManager } from '@jupyterlab/completer';
 import { DocumentWidget } from '@jupyterlab/docregistry';
 
 // Code Snippet Constants
@@ -47,6 +64,8 @@ const CODE_SNIPPET_EXTENSION_ID = 'code-snippet-extension';
 
 const CODE_SNIPPET_SETTING_ID = 'jupyterlab-code-snippets:snippets';
 
+const CODE_SNIPPET_COMPLETER_ID = 'jupyterlab-code-snippets:completer';
+
 /**
  * Snippet Editor Icon
  */
@@ -70,6 +89,7 @@ const code_snippet_extension: JupyterFrontEndPlugin<void> = {
   id: CODE_SNIPPET_EXTENSION_ID,
   autoStart: true,
   requires: [ICommandPalette, ILayoutRestorer, IEditorServices],
+  optional: [IFileBrowserFactory],
   activate: activateCodeSnippet,
 };
 
@@ -77,7 +97,8 @@ function activateCodeSnippet(
   app: JupyterFrontEnd,
   palette: ICommandPalette,
   restorer: ILayoutRestorer,
-  editorServices: IEditorServices
+  editorServices: IEditorServices,
+  browserFactory: IFileBrowserFactory | null
 ): void {
   console.log('JupyterLab extension jupyterlab-code-snippets is activated!');
 
@@ -130,7 +151,7 @@ function activateCodeSnippet(
     codeSnippetEditor.title.label =
       args.name === ''
         ? 'New Code Snippet'
-        : '[' + args.language + '] ' + args.name;
+        : '[' + getLanguageTag(args) + '] ' + args.name;
     codeSnippetEditor.title.closable = true;
     codeSnippetEditor.title.icon = editorIcon;
 
@@ -192,37 +213,23 @@ function activateCodeSnippet(
       }
 
       const highlightedCode = getSelectedText();
-      if (highlightedCode === '') {
+      const widget = app.shell.currentWidget;
+      if (highlightedCode === '' && widget instanceof NotebookPanel) {
         //if user just right-clicks cell(s) to save
-        const curr = document.getElementsByClassName('jp-Cell jp-mod-selected');
-
-        let code = '';
-        // changed i = 1 to i = 0.
-        for (let i = 0; i < curr.length; i++) {
-          //loop through each cell
-          const text = curr[i] as HTMLElement;
-          const cellInputWrappers = text.getElementsByClassName(
-            'jp-Cell-inputWrapper'
-          );
-
-          for (const cellInputWrapper of cellInputWrappers) {
-            const codeLines =
-              cellInputWrapper.querySelectorAll('.CodeMirror-line');
-            for (const codeLine of codeLines) {
-              let codeLineText = codeLine.textContent;
-              if (codeLineText.charCodeAt(0) === 8203) {
-                //check if first char in line is invalid
-                codeLineText = ''; //replace invalid line with empty string
-              }
-              code += codeLineText + '\n';
-            }
-          }
-        }
+        const notebook = widget.content;
+        const cells = toSnippetCells(
+          notebook.widgets
+            .filter((cell) => notebook.isSelectedOrActive(cell))
+            .map((cell) => cell.model.toJSON())
+        );
+        // several cells are saved as a multi-cell snippet
         CodeSnippetInputDialog(
           codeSnippetWidget,
-          code,
+          joinCells(cells),
           language,
-          codeSnippetWidget.codeSnippetManager.snippets.length
+          codeSnippetWidget.codeSnippetManager.snippets.length,
+          PERSONAL_LIBRARY_ID,
+          cells.length > 1 ? cells : undefined
         );
       } else {
         CodeSnippetInputDialog(
@@ -273,6 +280,84 @@ function activateCodeSnippet(
     rank: 9,
   });
 
+  // Move between the placeholders of an inserted snippet
+  const sessionCommands = [
+    {
+      id: 'codeSnippet:next-placeholder',
+      keys: ['Tab'],
+      execute: (session: SnippetSession) => session.next(),
+    },
+    {
+      id: 'codeSnippet:previous-placeholder',
+      keys: ['Shift Tab'],
+      execute: (session: SnippetSession) => session.previous(),
+    },
+    {
+      id: 'codeSnippet:exit-placeholders',
+      keys: ['Escape'],
+      execute: (session: SnippetSession) => session.dispose(),
+    },
+  ];
+  for (const command of sessionCommands) {
+    app.commands.addCommand(command.id, {
+      execute: () => {
+        const session = SnippetSession.current();
+        if (session) {
+          command.execute(session);
+        }
+      },
+    });
+
+    // the selector matches the CodeMirror wrapper, closer to the focused
+    // textarea than the editor host used by the completer and notebook keys
+    app.commands.addKeyBinding({
+      command: command.id,
+      keys: command.keys,
+      selector: `.${SNIPPET_SESSION_CLASS}`,
+    });
+  }
+
+  // Import snippets from JSON files and folders
+  const importCommand = 'codeSnippet:import';
+  app.commands.addCommand(importCommand, {
+    label: 'Import Code Snippets…',
+    caption: 'Import snippets from JSON files or folders',
+    isEnabled: () => !!browserFactory,
+    execute: async (args: any) => {
+      let paths: string[] = [];
+      const browser = browserFactory.tracker.currentWidget;
+      if (args.fromFileBrowser && browser) {
+        // import the items selected in the file browser
+        paths = toArray(browser.selectedItems()).map((item) => item.path);
+      } else {
+        const result = await FileDialog.getOpenFiles({
+          manager: browserFactory.defaultBrowser.model.manager,
+          title: 'Import Code Snippets',
+          filter: (model) =>
+            model.type === 'directory' || model.path.endsWith('.json'),
+        });
+        if (!result.button.accept || !result.value) {
+          return;
+        }
+        paths = result.value.map((model) => model.path);
+      }
+
+      if (paths.length > 0) {
+        await importSnippets(paths);
+        codeSnippetWidget.updateCodeSnippetWidget();
+      }
+    },
+  });
+
+  palette.addItem({ command: importCommand, category: 'Code Snippets' });
+
+  app.contextMenu.addItem({
+    command: importCommand,
+    args: { fromFileBrowser: true },
+    selector: '.jp-DirListing-item[data-isdir]',
+    rank: 20,
+  });
+
   // Track and restore the widget state
   const tracker = new WidgetTracker<CodeSnippetEditor>({
     namespace: 'codeSnippetEditor',
@@ -288,6 +373,12 @@ function activateCodeSnippet(
         language: editorMetadata.language,
         code: editorMetadata.code,
         id: editorMetadata.id,
+        order: editorMetadata.order,
+        library: editorMetadata.library,
+        prefix: editorMetadata.prefix,
+        kind: editorMetadata.kind,
+        cells: editorMetadata.cells,
+        requires: editorMetadata.requires,
         tags: editorMetadata.tags,
         allSnippetTags: editorMetadata.allSnippetTags,
         allLangTags: editorMetadata.allLangTags,
@@ -317,6 +408,38 @@ const codeSnippetExtensionSetting: JupyterFrontEndPlugin<void> = {
   },
 };
 
+/**
+ * Offer the snippets with a prefix in the completers of notebooks, consoles
+ * and file editors, in place of the default completer plugins.
+ */
+const codeSnippetCompleter: JupyterFrontEndPlugin<void> = {
+  id: CODE_SNIPPET_COMPLETER_ID,
+  autoStart: true,
+  requires: [ICompletionManager],
+  optional: [INotebookTracker, IConsoleTracker, IEditorTracker],
+  activate: activateSnippetCompleter,
+};
+
+function activateSnippetCompleter(
+  app: JupyterFrontEnd,
+  manager: ICompletionManager,
+  notebooks: INotebookTracker | null,
+  consoles: IConsoleTracker | null,
+  editors: IEditorTracker | null
+): void {
+  const snippets = (): ICodeSnippet[] =>
+    CodeSnippetService.getCodeSnippetService()?.snippets ?? [];
+  if (notebooks) {
+    completeNotebooks(app, manager, notebooks, snippets);
+  }
+  if (consoles) {
+    completeConsoles(app, manager, consoles, snippets);
+  }
+  if (editors) {
+    completeFiles(app, manager, editors, snippets);
+  }
+}
+
 function getSelectedText(): string {
   let selectedText;
   // window.getSelection
@@ -330,4 +453,8 @@ function getSelectedText(): string {
   return selectedText.toString();
 }
 
-export default [code_snippet_extension, codeSnippetExtensionSetting];
+export default [
+  code_snippet_extension,
+  codeSnippetExtensionSetting,
+  codeSnippetCompleter,
+];
@@ -0,0 +1,54 @@
+import {
+  fillCells,
+  joinCells,
+  toNotebookCells,
+  toSnippetCells
+} from '../src/CodeSnippetCells';
+import 'jest';
+
+test('convert notebook cells to snippet cells', () => {
+  const cells = toSnippetCells([
+    { cell_type: 'markdown', source: ['# Title\n', 'text'], metadata: {} },
+    {
+      cell_type: 'code',
+      source: 'x = 1',
+      metadata: { tags: ['parameters'], trusted: true },
+      outputs: [],
+      execution_count: 3
+    }
+  ]);
+  expect(cells).toEqual([
+    { cell_type: 'markdown', source: '# Title\ntext' },
+    { cell_type: 'code', source: 'x = 1', metadata: { tags: ['parameters'] } }
+  ]);
+  expect(joinCells(cells)).toBe('# Title\ntext\n\nx = 1');
+});
+
+test('convert snippet cells back to notebook cells', () => {
+  expect(
+    toNotebookCells([
+      { cell_type: 'markdown', source: 'text' },
+      { cell_type: 'code', source: 'x = 1' }
+    ])
+  ).toEqual([
+    { cell_type: 'markdown', source: 'text', metadata: {} },
+    {
+      cell_type: 'code',
+      source: 'x = 1',
+      metadata: {},
+      outputs: [],
+      execution_count: null
+    }
+  ]);
+});
+
+test('fill every cell with the same values', () => {
+  const cells = fillCells(
+    [
+      { cell_type: 'markdown', source: '# {{name}}' },
+      { cell_type: 'code', source: '{{name}} = load()' }
+    ],
+    { name: 'sales' }
+  );
+  expect(cells.map(cell => cell.source)).toEqual(['# sales', 'sales = load()']);
+});
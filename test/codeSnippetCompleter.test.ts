@@ -0,0 +1,172 @@
+import { CompletionHandler, ICompletionManager } from '@jupyterlab/completer';
+import { Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+import {
+  registerSnippetCompleter,
+  SnippetCompletionConnector
+} from '../src/CodeSnippetCompleter';
+import { CodeSnippetService, ICodeSnippet } from '../src/CodeSnippetService';
+import 'jest';
+
+jest.mock('@jupyterlab/completer', () => ({
+  CompletionHandler: Object.assign(class {}, {
+    ICompletionItemsResponseType: 'ICompletionItemsReply'
+  }),
+  CompletionConnector: class {},
+  ContextConnector: class {}
+}));
+
+jest.mock('@jupyterlab/statedb', () => ({ DataConnector: class {} }));
+
+jest.mock('@jupyterlab/codemirror', () => ({ Mode: {} }));
+
+jest.mock('../src/CodeSnippetService', () => {
+  const service = { recordUsage: jest.fn(async () => undefined) };
+  return {
+    CodeSnippetService: { getCodeSnippetService: () => service }
+  };
+});
+
+jest.mock('../src/CodeSnippetContext', () => ({
+  getContextValues: async () => ({}),
+  getSessionContext: () => null
+}));
+
+jest.mock('../src/CodeSnippetSession', () => ({ SnippetSession: {} }));
+
+jest.mock('../src/CodeSnippetTemplateDialog', () => ({
+  fillTemplate: async () => null
+}));
+
+const RECORD_USAGE = CodeSnippetService.getCodeSnippetService()
+  .recordUsage as jest.Mock;
+
+function snippet(id: string, prefix: string): ICodeSnippet {
+  return {
+    id,
+    name: id,
+    language: 'Python',
+    code: 'import pandas as pd',
+    order: 0,
+    prefix
+  };
+}
+
+// two snippets inserting the same text
+const SNIPPETS = [snippet('pandas', 'imppd'), snippet('pandas-2', 'imppd2')];
+
+function connector(): SnippetCompletionConnector {
+  return new SnippetCompletionConnector({
+    connector: {
+      fetch: async () => ({ start: 0, end: 3, matches: [], metadata: {} })
+    } as unknown as SnippetCompletionConnector.BaseConnector,
+    snippets: () => SNIPPETS,
+    language: () => 'python'
+  });
+}
+
+function request(): CompletionHandler.IRequest {
+  return { text: 'imp', offset: 3 } as CompletionHandler.IRequest;
+}
+
+/**
+ * A completer registered by a fake completion manager, whose shown items are
+ * set by the tests.
+ */
+function register(snippetConnector: SnippetCompletionConnector) {
+  let items: CompletionHandler.ICompletionItem[] = [];
+  const completer = {
+    selected: new Signal<unknown, string>({}),
+    indexChanged: new Signal<unknown, number>({}),
+    model: { completionItems: () => items }
+  };
+  const handler = Object.assign(Object.create(CompletionHandler.prototype), {
+    completer,
+    editor: {
+      getCursorPosition: () => ({ line: 0, column: 0 }),
+      getOffsetAt: () => 0,
+      model: { value: { text: '' } }
+    }
+  });
+  const manager = {
+    register: jest.fn(() => handler)
+  } as unknown as ICompletionManager;
+  registerSnippetCompleter(manager, new Widget(), null, snippetConnector);
+
+  return {
+    manager,
+    show(shown: CompletionHandler.ICompletionItem[], index = 0): void {
+      items = shown;
+      completer.indexChanged.emit(index);
+    },
+    select(value: string): void {
+      // the completer resets its items while inserting the text
+      items = [];
+      completer.selected.emit(value);
+    }
+  };
+}
+
+describe('snippet completer', () => {
+  beforeEach(() => {
+    RECORD_USAGE.mockClear();
+  });
+
+  it('should list the snippets with the same code as items of their own', async () => {
+    const snippetConnector = connector();
+    const reply = await snippetConnector.fetch(request());
+
+    expect(reply.items.map(item => item.label)).toEqual(['imppd', 'imppd2']);
+    expect(reply.items.map(item => item.insertText)).toEqual([
+      'import pandas as pd',
+      'import pandas as pd'
+    ]);
+    expect(snippetConnector.findSnippet('pandas')).toBe(SNIPPETS[0]);
+    expect(snippetConnector.findSnippet('pandas-2')).toBe(SNIPPETS[1]);
+  });
+
+  it('should register its connector with the completion manager', () => {
+    const snippetConnector = connector();
+    const { manager } = register(snippetConnector);
+
+    expect(manager.register).toHaveBeenCalledWith(
+      expect.objectContaining({ connector: snippetConnector })
+    );
+  });
+
+  it('should expand the snippet of the active item', async () => {
+    const snippetConnector = connector();
+    const completer = register(snippetConnector);
+    const reply = await snippetConnector.fetch(request());
+
+    completer.show(reply.items.slice(), 0);
+    completer.select('import pandas as pd');
+    completer.show(reply.items.slice(), 1);
+    completer.select('import pandas as pd');
+
+    expect(RECORD_USAGE.mock.calls).toEqual([['pandas'], ['pandas-2']]);
+  });
+
+  it('should find a clicked item by its text', async () => {
+    const snippetConnector = connector();
+    const completer = register(snippetConnector);
+    const reply = await snippetConnector.fetch(request());
+
+    completer.show([{ label: 'import' }, ...reply.items], 0);
+    completer.select('import pandas as pd');
+
+    expect(RECORD_USAGE).toHaveBeenCalledWith('pandas');
+  });
+
+  it('should leave the other completions alone', async () => {
+    const snippetConnector = connector();
+    const completer = register(snippetConnector);
+    const reply = await snippetConnector.fetch(request());
+
+    completer.show([{ label: 'import' }, ...reply.items], 0);
+    completer.select('import');
+
+    expect(RECORD_USAGE).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { showDialog } from '@jupyterlab/apputils';
+
+import { resolveEditConflict } from '../src/CodeSnippetConflict';
+import { ISnippetConflict } from '../src/CodeSnippetMerge';
+import 'jest';
+
+jest.mock('@jupyterlab/apputils', () => {
+  const button = (displayType: string) => (options: { label: string }) => ({
+    ...options,
+    displayType
+  });
+  return {
+    Dialog: {
+      cancelButton: button('default'),
+      okButton: button('default'),
+      warnButton: button('warn')
+    },
+    showDialog: jest.fn()
+  };
+});
+
+const SHOW_DIALOG = showDialog as jest.Mock;
+
+function snippet(code: string) {
+  return { id: 'plot', name: 'plot', language: 'Python', code, order: 0 };
+}
+
+const CHANGED: ISnippetConflict = {
+  base: snippet('base'),
+  local: snippet('mine'),
+  remote: snippet('theirs')
+};
+
+const DELETED_HERE: ISnippetConflict = { ...CHANGED, local: undefined };
+
+const DELETED_ELSEWHERE: ISnippetConflict = { ...CHANGED, remote: undefined };
+
+// the buttons of the dialog, and its default button, once answered with
+// the button with a label, or dismissed
+async function ask(conflict: ISnippetConflict, label = 'Cancel') {
+  SHOW_DIALOG.mockClear();
+  SHOW_DIALOG.mockResolvedValue({ button: { label }, value: null });
+  const choice = await resolveEditConflict(conflict);
+  const options = SHOW_DIALOG.mock.calls[0][0];
+  return {
+    choice,
+    buttons: options.buttons.map(
+      (button: { label: string; displayType: string }) =>
+        `${button.label} (${button.displayType})`
+    ),
+    default: options.buttons[options.defaultButton].label
+  };
+}
+
+test('keep both versions of a snippet by default', async () => {
+  expect(await ask(CHANGED)).toEqual({
+    choice: 'both',
+    buttons: ['Keep Theirs (warn)', 'Keep Mine (warn)', 'Keep Both (default)'],
+    default: 'Keep Both'
+  });
+});
+
+test('keep the changed version of a deleted snippet by default', async () => {
+  expect(await ask(DELETED_HERE)).toEqual({
+    choice: 'both',
+    buttons: ['Keep Theirs (default)', 'Keep Mine (warn)'],
+    default: 'Keep Theirs'
+  });
+  expect(await ask(DELETED_ELSEWHERE)).toEqual({
+    choice: 'both',
+    buttons: ['Keep Theirs (warn)', 'Keep Mine (default)'],
+    default: 'Keep Mine'
+  });
+});
+
+test('keep one version only when told to', async () => {
+  expect((await ask(CHANGED, 'Keep Theirs')).choice).toBe('remote');
+  expect((await ask(CHANGED, 'Keep Mine')).choice).toBe('local');
+  expect((await ask(DELETED_HERE, 'Keep Mine')).choice).toBe('local');
+});
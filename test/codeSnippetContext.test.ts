@@ -0,0 +1,200 @@
+// the widgets are created without their packages, which are ES modules
+jest.mock('@jupyterlab/cells', () => ({ Cell: class {}, CodeCell: class {} }));
+jest.mock('@jupyterlab/docregistry', () => ({ DocumentWidget: class {} }));
+jest.mock('@jupyterlab/fileeditor', () => ({ FileEditor: class {} }));
+jest.mock('@jupyterlab/console', () => ({ ConsolePanel: class {} }));
+jest.mock('@jupyterlab/notebook', () => {
+  const { DocumentWidget } = jest.requireMock('@jupyterlab/docregistry');
+  return { NotebookPanel: class extends DocumentWidget {} };
+});
+
+import { CodeCell } from '@jupyterlab/cells';
+import { ConsolePanel } from '@jupyterlab/console';
+import { DocumentWidget } from '@jupyterlab/docregistry';
+import { FileEditor } from '@jupyterlab/fileeditor';
+import { NotebookPanel } from '@jupyterlab/notebook';
+import { Widget } from '@lumino/widgets';
+import {
+  CONTEXT_VARIABLES,
+  getContextValues,
+  getOutputText
+} from '../src/CodeSnippetContext';
+import 'jest';
+
+/**
+ * Create an object of a class without running its constructor.
+ */
+function create<T extends object>(cls: { prototype: T }, fields: any): T {
+  return Object.assign(Object.create(cls.prototype), fields);
+}
+
+/**
+ * An editor holding a text with a selection.
+ */
+function editor(text: string, start = 0, end = 0) {
+  return {
+    model: { value: { text } },
+    getSelection: () => ({
+      start: { line: 0, column: start },
+      end: { line: 0, column: end }
+    }),
+    getOffsetAt: (position: { column: number }) => position.column
+  };
+}
+
+function codeCell(text: string, executionCount: number, outputs: any[]) {
+  return create(CodeCell, {
+    editor: editor(text),
+    model: {
+      value: { text },
+      executionCount,
+      outputs: {
+        length: outputs.length,
+        get: (i: number) => ({ toJSON: () => outputs[i] })
+      }
+    }
+  });
+}
+
+function notebook(cells: any[], activeCellIndex: number): Widget {
+  return create(NotebookPanel, {
+    content: {
+      widgets: cells,
+      activeCellIndex,
+      activeCell: cells[activeCellIndex]
+    },
+    context: { path: 'work/analysis.ipynb' },
+    sessionContext: {
+      session: {
+        kernel: { info: Promise.resolve({ language_info: { name: 'python' } }) }
+      }
+    }
+  });
+}
+
+const ALL = CONTEXT_VARIABLES.map(key => `{{${key}}}`).join(' ');
+
+test('get the text of stream outputs', () => {
+  expect(
+    getOutputText({ output_type: 'stream', name: 'stdout', text: ['a\n', 'b'] })
+  ).toBe('a\nb');
+});
+
+test('get the plain text of results and displayed data', () => {
+  expect(
+    getOutputText({
+      output_type: 'execute_result',
+      execution_count: 1,
+      data: { 'text/plain': '42', 'text/html': '<b>42</b>' },
+      metadata: {}
+    })
+  ).toBe('42');
+  expect(
+    getOutputText({
+      output_type: 'display_data',
+      data: { 'image/png': 'iVBOR' },
+      metadata: {}
+    })
+  ).toBe('');
+});
+
+test('get the name, value and traceback of errors without colors', () => {
+  expect(
+    getOutputText({
+      output_type: 'error',
+      ename: 'ValueError',
+      evalue: 'bad value',
+      traceback: ['\u001b[0;31mValueError\u001b[0m: bad value', 'line 1']
+    })
+  ).toBe('ValueError: bad value\nValueError: bad value\nline 1');
+});
+
+describe('resolve the context variables', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(new Date(2026, 0, 5, 12));
+    Object.defineProperty(navigator, 'clipboard', {
+      value: { readText: async () => 'copied text' },
+      configurable: true
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('from a notebook', async () => {
+    const first = codeCell('df = load()', 1, [
+      { output_type: 'stream', name: 'stdout', text: 'loaded' }
+    ]);
+    const active = create(CodeCell, {
+      editor: editor('df.plot(x)', 3, 7),
+      model: { value: { text: 'df.plot(x)' }, outputs: { length: 0 } }
+    });
+    expect(await getContextValues(notebook([first, active], 1), ALL)).toEqual({
+      selection: 'plot',
+      cell: 'df.plot(x)',
+      previous_cell: 'df = load()',
+      // the output of the code cell run last
+      last_output: 'loaded',
+      notebook_path: 'work/analysis.ipynb',
+      kernel_language: 'python',
+      date: '2026-01-05',
+      clipboard: 'copied text'
+    });
+  });
+
+  test('use the output of the active cell first', async () => {
+    const cells = [
+      codeCell('a', 2, [{ output_type: 'stream', name: 'stdout', text: 'a' }]),
+      codeCell('b', 1, [{ output_type: 'stream', name: 'stdout', text: 'b' }])
+    ];
+    expect(
+      await getContextValues(notebook(cells, 1), '{{last_output}}')
+    ).toEqual({ last_output: 'b' });
+    expect(
+      await getContextValues(notebook(cells, 0), '{{ previous_cell }}')
+    ).toEqual({ previous_cell: '' });
+  });
+
+  test('from a console', async () => {
+    const panel = create(ConsolePanel, {
+      console: { promptCell: { editor: editor('x + 1', 0, 1) } },
+      sessionContext: { session: null }
+    });
+    expect(await getContextValues(panel, ALL)).toEqual({
+      selection: 'x',
+      cell: 'x + 1',
+      previous_cell: '',
+      last_output: '',
+      notebook_path: '',
+      kernel_language: '',
+      date: '2026-01-05',
+      clipboard: 'copied text'
+    });
+  });
+
+  test('from a file editor', async () => {
+    const widget = create(DocumentWidget, {
+      content: create(FileEditor, { editor: editor('print(1)', 6, 7) }),
+      context: { path: 'script.py' }
+    });
+    expect(
+      await getContextValues(
+        widget,
+        '{{selection}} {{cell}} {{notebook_path}} {{kernel_language}}'
+      )
+    ).toEqual({
+      selection: '1',
+      cell: 'print(1)',
+      notebook_path: 'script.py',
+      kernel_language: ''
+    });
+  });
+
+  test('only the variables used by the template', async () => {
+    expect(await getContextValues(null, '{{date}} {{name}} ${1:x}')).toEqual({
+      date: '2026-01-05'
+    });
+  });
+});
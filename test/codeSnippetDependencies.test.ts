@@ -0,0 +1,57 @@
+import {
+  isSnippetPresent,
+  resolveDependencies
+} from '../src/CodeSnippetDependencies';
+import { ICodeSnippet } from '../src/CodeSnippetService';
+import 'jest';
+
+function snippet(id: string, code: string, requires?: string[]): ICodeSnippet {
+  return {
+    name: id + '_name',
+    description: '',
+    language: 'Python',
+    code,
+    id,
+    order: 0,
+    requires
+  };
+}
+
+test('resolve the required snippets, dependencies first', () => {
+  const imports = snippet('imports', 'import pandas as pd');
+  const load = snippet('load', 'df = pd.read_csv(path)', ['imports']);
+  const plot = snippet('plot', 'df.plot()', ['load', 'imports', 'gone']);
+  const result = resolveDependencies(plot, [imports, load, plot]);
+  expect(result.snippets).toEqual([imports, load]);
+  expect(result.missing).toEqual(['gone']);
+  expect(result.cycle).toBeNull();
+});
+
+test('find the cycles of required snippets', () => {
+  const a = snippet('a', 'a = 1', ['b']);
+  const b = snippet('b', 'b = 1', ['c']);
+  const c = snippet('c', 'c = 1', ['b']);
+  expect(resolveDependencies(a, [a, b, c]).cycle).toEqual([
+    'b_name',
+    'c_name',
+    'b_name'
+  ]);
+});
+
+test('resolve the edited version of a snippet', () => {
+  const a = snippet('a', 'a = 1');
+  const b = snippet('b', 'b = 1', ['a']);
+  const edited = snippet('a', 'a = 2', ['b']);
+  expect(resolveDependencies(edited, [a, b]).cycle).toEqual([
+    'a_name',
+    'b_name',
+    'a_name'
+  ]);
+});
+
+test('find the snippets already present', () => {
+  const load = snippet('load', 'df = pd.read_csv(${1:path})\ndf.head()');
+  expect(isSnippetPresent(load, 'x = 1\n    df.head()')).toBe(true);
+  expect(isSnippetPresent(load, 'df.tail()')).toBe(false);
+  expect(isSnippetPresent(snippet('empty', '\n'), 'x = 1')).toBe(false);
+});
@@ -0,0 +1,25 @@
+import { diffLines, sideBySide } from '../src/CodeSnippetDiff';
+import 'jest';
+
+test('diff the lines of two texts', () => {
+  expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+    { type: 'equal', oldStart: 0, oldEnd: 1, newStart: 0, newEnd: 1 },
+    { type: 'change', oldStart: 1, oldEnd: 2, newStart: 1, newEnd: 2 },
+    { type: 'equal', oldStart: 2, oldEnd: 3, newStart: 2, newEnd: 3 },
+    { type: 'change', oldStart: 3, oldEnd: 3, newStart: 3, newEnd: 4 }
+  ]);
+  expect(diffLines([], [])).toEqual([]);
+});
+
+test('pair the removed and added lines side by side', () => {
+  expect(sideBySide('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+    { type: 'equal', oldLine: 'a', newLine: 'a' },
+    { type: 'changed', oldLine: 'b', newLine: 'B' },
+    { type: 'equal', oldLine: 'c', newLine: 'c' },
+    { type: 'added', oldLine: null, newLine: 'd' }
+  ]);
+  expect(sideBySide('a\nb', 'b')).toEqual([
+    { type: 'removed', oldLine: 'a', newLine: null },
+    { type: 'equal', oldLine: 'b', newLine: 'b' }
+  ]);
+});
@@ -0,0 +1,54 @@
+import {
+  changedFields,
+  createRevision,
+  recordRevision,
+  restoreRevision
+} from '../src/CodeSnippetHistory';
+import { ICodeSnippet } from '../src/CodeSnippetService';
+import 'jest';
+
+const SNIPPET: ICodeSnippet = {
+  name: 'load',
+  description: 'Load the data',
+  language: 'Python',
+  code: 'df = pd.read_csv(path)',
+  id: 'a1b2',
+  order: 3,
+  tags: ['data'],
+  library: 'personal'
+};
+
+test('record the code and the metadata of a snippet', () => {
+  expect(createRevision(SNIPPET, '2026-01-02T03:04:05.000Z')).toEqual({
+    timestamp: '2026-01-02T03:04:05.000Z',
+    code: 'df = pd.read_csv(path)',
+    metadata: {
+      name: 'load',
+      description: 'Load the data',
+      language: 'Python',
+      tags: ['data']
+    }
+  });
+});
+
+test('keep the latest revisions and skip unchanged saves', () => {
+  const first = createRevision(SNIPPET, '1');
+  const second = createRevision({ ...SNIPPET, code: 'df = None' }, '2');
+  const third = createRevision({ ...SNIPPET, name: 'read' }, '3');
+  let history = recordRevision([], first, 2);
+  history = recordRevision(history, createRevision(SNIPPET, '1b'), 2);
+  expect(history).toEqual([first]);
+  history = recordRevision(history, second, 2);
+  history = recordRevision(history, third, 2);
+  expect(history).toEqual([second, third]);
+  expect(changedFields(second, third)).toEqual(['name']);
+});
+
+test('restore the fields of a revision, clearing the ones it lacks', () => {
+  const revision = createRevision({ ...SNIPPET, tags: undefined }, '1');
+  const restored = restoreRevision(revision);
+  expect(restored.code).toBe(SNIPPET.code);
+  expect(restored.name).toBe('load');
+  expect('tags' in restored && restored.tags === undefined).toBe(true);
+  expect(restored.id).toBeUndefined();
+});
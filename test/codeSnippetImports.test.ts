@@ -0,0 +1,69 @@
+import {
+  getImportInsertion,
+  missingImports,
+  splitImports
+} from '../src/CodeSnippetImports';
+import 'jest';
+
+test('split Python imports from the rest of a snippet', () => {
+  const code = [
+    'import numpy as np',
+    'from os.path import (join,',
+    '                     exists)',
+    '',
+    'def f():',
+    '    import json',
+    'import sys; print(sys.argv)'
+  ].join('\n');
+  expect(splitImports(code, 'Python')).toEqual({
+    imports: [
+      'import numpy as np',
+      'from os.path import (join,\n                     exists)'
+    ],
+    code: 'def f():\n    import json\nimport sys; print(sys.argv)'
+  });
+});
+
+test('split R library calls from the rest of a snippet', () => {
+  const code = 'library(dplyr)\nsuppressPackageStartupMessages(library("ggplot2"))\nx <- 1';
+  expect(splitImports(code, 'R')).toEqual({
+    imports: [
+      'library(dplyr)',
+      'suppressPackageStartupMessages(library("ggplot2"))'
+    ],
+    code: 'x <- 1'
+  });
+});
+
+test('skip the imports already present', () => {
+  const existing = 'import numpy as np\nfrom os.path import join  # paths';
+  expect(
+    missingImports(
+      [
+        'import numpy as np',
+        'import pandas as pd',
+        'import pandas as pd',
+        'from os.path import join, exists'
+      ],
+      existing,
+      'python'
+    )
+  ).toEqual(['import pandas as pd', 'from os.path import exists']);
+  expect(
+    missingImports(['require(dplyr)', 'library(tidyr)'], 'library(dplyr)', 'r')
+  ).toEqual(['library(tidyr)']);
+});
+
+test('add imports after the last import or at the top', () => {
+  expect(
+    getImportInsertion('import os\nimport sys\n\nx = 1', ['import re'], 'python')
+  ).toEqual({ offset: 20, text: '\nimport re' });
+  expect(getImportInsertion('x = 1', ['import re'], 'python')).toEqual({
+    offset: 0,
+    text: 'import re\n'
+  });
+  expect(
+    getImportInsertion('#!/usr/bin/env python\nx = 1', ['import re'], 'python')
+  ).toEqual({ offset: 21, text: '\nimport re' });
+  expect(getImportInsertion('x = 1', [], 'python')).toBeNull();
+});
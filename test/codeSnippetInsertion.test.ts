@@ -0,0 +1,133 @@
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { CodeConsole } from '@jupyterlab/console';
+import { Notebook } from '@jupyterlab/notebook';
+import { ITerminal } from '@jupyterlab/terminal';
+
+import {
+  getInsertionIndex,
+  insertIntoConsole,
+  InsertionMode,
+  sendToTerminal
+} from '../src/CodeSnippetInsertion';
+import { SnippetSession } from '../src/CodeSnippetSession';
+import { expandTemplateFields } from '../src/CodeSnippetTemplate';
+import 'jest';
+
+jest.mock('@jupyterlab/apputils', () => ({
+  Dialog: {},
+  showDialog: jest.fn()
+}));
+
+jest.mock('../src/CodeSnippetService', () => ({ CodeSnippetService: {} }));
+
+jest.mock('../src/CodeSnippetSession', () => ({
+  SnippetSession: { start: jest.fn() }
+}));
+
+// a notebook of three cells
+function notebook(activeCellIndex: number): Notebook {
+  return {
+    activeCellIndex,
+    widgets: [{}, {}, {}]
+  } as unknown as Notebook;
+}
+
+function indexes(mode: InsertionMode): number[] {
+  return [0, 2].map(active => getInsertionIndex(notebook(active), mode));
+}
+
+test('insert above the first and the last cell', () => {
+  expect(indexes('above')).toEqual([0, 2]);
+});
+
+test('insert below the first and the last cell', () => {
+  expect(indexes('below')).toEqual([1, 3]);
+});
+
+test('insert the cells that cannot replace a selection below it', () => {
+  expect(indexes('replace')).toEqual([1, 3]);
+});
+
+test('insert at the end whatever the active cell', () => {
+  expect(indexes('end')).toEqual([3, 3]);
+});
+
+test('insert at the start of a notebook without an active cell', () => {
+  expect(getInsertionIndex(notebook(-1), 'above')).toBe(0);
+  expect(getInsertionIndex(notebook(-1), 'below')).toBe(0);
+});
+
+const TEMPLATE = expandTemplateFields('ls -${1:l} {{dir=/tmp}}', {
+  dir: '/home'
+});
+
+// an editor whose selection is `start` to `end`
+function editor(start: number, end: number) {
+  return {
+    getSelection: () => ({ start, end }),
+    getOffsetAt: (position: number) => position,
+    replaceSelection: jest.fn()
+  };
+}
+
+function terminal() {
+  const send = jest.fn();
+  return {
+    terminal: { session: { send } } as unknown as ITerminal.ITerminal,
+    send
+  };
+}
+
+test('send the filled template to a terminal', () => {
+  const { terminal: widget, send } = terminal();
+  sendToTerminal(widget, TEMPLATE.text, false);
+  expect(send).toHaveBeenCalledWith({
+    type: 'stdin',
+    content: ['ls -l /home']
+  });
+});
+
+test('send the filled template then Enter to run it in a terminal', () => {
+  const { terminal: widget, send } = terminal();
+  sendToTerminal(widget, TEMPLATE.text, true);
+  expect(send).toHaveBeenCalledWith({
+    type: 'stdin',
+    content: ['ls -l /home\r']
+  });
+});
+
+test('insert the filled template in the prompt of a console', async () => {
+  const prompt = editor(3, 1);
+  const execute = jest.fn();
+  const console = {
+    promptCell: { editor: prompt },
+    execute
+  } as unknown as CodeConsole;
+
+  expect(await insertIntoConsole(console, TEMPLATE, false)).toBe(true);
+  expect(prompt.replaceSelection).toHaveBeenCalledWith('ls -l /home');
+  expect(SnippetSession.start).toHaveBeenCalledWith(
+    prompt as unknown as CodeEditor.IEditor,
+    1,
+    TEMPLATE.fields
+  );
+  expect(execute).not.toHaveBeenCalled();
+});
+
+test('execute the filled template in a console when run', async () => {
+  const prompt = editor(0, 0);
+  const execute = jest.fn();
+  const console = {
+    promptCell: { editor: prompt },
+    execute
+  } as unknown as CodeConsole;
+
+  expect(await insertIntoConsole(console, TEMPLATE, true)).toBe(true);
+  expect(prompt.replaceSelection).toHaveBeenCalledWith('ls -l /home');
+  expect(execute).toHaveBeenCalledWith(true);
+});
+
+test('insert nothing in a console without a prompt', async () => {
+  const console = { promptCell: null } as unknown as CodeConsole;
+  expect(await insertIntoConsole(console, TEMPLATE, true)).toBe(false);
+});
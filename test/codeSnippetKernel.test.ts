@@ -0,0 +1,77 @@
+import { ISessionContext } from '@jupyterlab/apputils';
+
+import { evaluateExpression, parseKernelValue } from '../src/CodeSnippetKernel';
+import 'jest';
+
+test('split Python and JSON lists into their items', () => {
+  expect(parseKernelValue("['df', 'sales']")).toEqual(['df', 'sales']);
+  expect(parseKernelValue('["a, b", "c"]')).toEqual(['a, b', 'c']);
+  expect(parseKernelValue("('x', (1, 2), 3)")).toEqual(['x', '(1, 2)', '3']);
+  expect(parseKernelValue('[]')).toEqual([]);
+});
+
+test('split R vectors into their items', () => {
+  expect(parseKernelValue('[1] "iris"   "mtcars"\n[3] "cars"')).toEqual([
+    'iris',
+    'mtcars',
+    'cars'
+  ]);
+});
+
+test('keep a single value as it is', () => {
+  expect(parseKernelValue("'data.csv'")).toEqual(['data.csv']);
+  expect(parseKernelValue('42')).toEqual(['42']);
+});
+
+test('evaluate nothing without a kernel', async () => {
+  expect(await evaluateExpression(null, 'dir()')).toEqual({
+    values: null,
+    pending: false
+  });
+});
+
+// a session whose kernel answers with the given promise
+function session(done: Promise<unknown>) {
+  const future = { done, dispose: jest.fn() };
+  const requestExecute = jest.fn(() => future);
+  return {
+    sessionContext: {
+      session: { kernel: { requestExecute } }
+    } as unknown as ISessionContext,
+    requestExecute,
+    future
+  };
+}
+
+test('evaluate an expression in the kernel', async () => {
+  const { sessionContext, requestExecute, future } = session(
+    Promise.resolve({
+      content: {
+        status: 'ok',
+        user_expressions: {
+          value: { status: 'ok', data: { 'text/plain': "['df', 'sales']" } }
+        }
+      }
+    })
+  );
+  expect(await evaluateExpression(sessionContext, 'dir()')).toEqual({
+    values: ['df', 'sales'],
+    pending: false
+  });
+  expect(requestExecute).toHaveBeenCalledWith(
+    expect.objectContaining({
+      silent: true,
+      store_history: false,
+      user_expressions: { value: 'dir()' }
+    })
+  );
+  expect(future.dispose).toHaveBeenCalled();
+});
+
+test('tell that the expression is pending in a busy kernel', async () => {
+  const { sessionContext } = session(new Promise(() => undefined));
+  expect(await evaluateExpression(sessionContext, 'dir()', 10)).toEqual({
+    values: null,
+    pending: true
+  });
+});
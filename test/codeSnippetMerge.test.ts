@@ -0,0 +1,67 @@
+import { mergeLines, mergeSnippetLists } from '../src/CodeSnippetMerge';
+import { ICodeSnippet } from '../src/CodeSnippetService';
+import 'jest';
+
+function snippet(
+  id: string,
+  order: number,
+  fields: Partial<ICodeSnippet> = {}
+): ICodeSnippet {
+  return {
+    name: id,
+    language: 'Python',
+    code: 'a = 1\nb = 2\nc = 3',
+    id,
+    order,
+    ...fields
+  };
+}
+
+test('merge the lines changed on both sides', () => {
+  const base = 'a = 1\nb = 2\nc = 3\nd = 4';
+  expect(mergeLines(base, 'a = 0\nb = 2\nc = 3\nd = 4', base + '\ne = 5')).toBe(
+    'a = 0\nb = 2\nc = 3\nd = 4\ne = 5'
+  );
+  expect(
+    mergeLines(base, 'a = 1\nb = 20\nc = 3\nd = 4', 'a = 1\nb = 20\nc = 3')
+  ).toBe('a = 1\nb = 20\nc = 3');
+  expect(
+    mergeLines(base, 'a = 1\nb = 20\nc = 3\nd = 4', 'a = 1\nb = 21\nc = 3\nd = 4')
+  ).toBeNull();
+});
+
+test('merge the snippets changed here and in the storage', () => {
+  const base = [snippet('a', 0), snippet('b', 1), snippet('c', 2)];
+  const local = [
+    snippet('a', 0, { name: 'renamed' }),
+    snippet('b', 1),
+    snippet('c', 2),
+    snippet('d', 3)
+  ];
+  const remote = [
+    snippet('a', 0, { code: 'a = 1\nb = 2\nc = 30' }),
+    snippet('c', 1)
+  ];
+  const result = mergeSnippetLists(base, local, remote);
+  expect(result.conflicts).toEqual([]);
+  expect(result.snippets).toEqual([
+    snippet('a', 0, { name: 'renamed', code: 'a = 1\nb = 2\nc = 30' }),
+    snippet('c', 1),
+    snippet('d', 3)
+  ]);
+});
+
+test('report the snippets changed on both sides', () => {
+  const base = [snippet('a', 0), snippet('b', 1)];
+  const local = [snippet('a', 0, { name: 'mine' })];
+  const remote = [
+    snippet('a', 0, { name: 'theirs' }),
+    snippet('b', 1, { tags: ['x'] })
+  ];
+  const result = mergeSnippetLists(base, local, remote);
+  expect(result.snippets).toEqual([]);
+  expect(result.conflicts).toEqual([
+    { base: base[0], local: local[0], remote: remote[0] },
+    { base: base[1], local: undefined, remote: remote[1] }
+  ]);
+});
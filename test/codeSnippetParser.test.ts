@@ -0,0 +1,172 @@
+import { parseSnippets, validateSnippet } from '../src/CodeSnippetParser';
+import {
+  BUNDLE_VERSION,
+  createBundle,
+  toBundledSnippet
+} from '../src/CodeSnippetBundle';
+import 'jest';
+
+const SNIPPET = {
+  name: 'carbon_emissions',
+  description: 'Total carbon dioxide',
+  language: 'R',
+  code: ['co2_regions <- nations %>%', '  filter(year <= 2014)'],
+  id: 15,
+  tags: ['Countries Project']
+};
+
+test('parse a snippet with code as an array of lines', () => {
+  const result = parseSnippets(JSON.stringify(SNIPPET), 'a.json');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets.length).toBe(1);
+  expect(result.snippets[0].code).toBe(
+    'co2_regions <- nations %>%\n  filter(year <= 2014)'
+  );
+  // numeric ids of older versions are their position
+  expect(result.snippets[0].id).toBe('');
+  expect(result.snippets[0].order).toBe(15);
+});
+
+test('parse an array of snippets and report the invalid ones', () => {
+  const content = JSON.stringify([
+    { ...SNIPPET, code: 'print(1)', id: 'abc' },
+    { name: 'no_language', code: '' },
+    { ...SNIPPET, extra: true }
+  ]);
+  const result = parseSnippets(content, 'b.json');
+  expect(result.snippets.map(snippet => snippet.id)).toEqual(['abc']);
+  expect(result.errors).toEqual([
+    'b.json[1]: "language" must be a non-empty string',
+    'b.json[2]: unknown property "extra"'
+  ]);
+});
+
+test('report invalid JSON', () => {
+  const result = parseSnippets('{', 'c.json');
+  expect(result.snippets).toEqual([]);
+  expect(result.errors).toEqual(['c.json: invalid JSON']);
+});
+
+test('validate tags and code types', () => {
+  expect(validateSnippet({ ...SNIPPET, tags: [1] })).toBe(
+    '"tags" must be an array of strings'
+  );
+  expect(validateSnippet({ ...SNIPPET, code: 3 })).toBe(
+    '"code" must be a string or an array of strings'
+  );
+  expect(validateSnippet(SNIPPET)).toBeNull();
+});
+
+test('parse the kind of prompt snippets', () => {
+  const prompt = { ...SNIPPET, language: 'Markdown', kind: 'prompt' };
+  const result = parseSnippets(JSON.stringify(prompt), 'a.json');
+  expect(result.snippets[0].kind).toBe('prompt');
+  expect(validateSnippet({ ...SNIPPET, kind: 'text' })).toBe(
+    '"kind" must be "code" or "prompt"'
+  );
+});
+
+test('parse a bundle created by the export', () => {
+  const bundle = createBundle(
+    [
+      {
+        name: 'hello',
+        language: 'Python',
+        code: 'import os\nprint(1)',
+        id: 'abc',
+        order: 0
+      }
+    ],
+    'All snippets',
+    new Date(0)
+  );
+  expect(bundle.version).toBe(BUNDLE_VERSION);
+  expect(bundle.exported).toBe('1970-01-01T00:00:00.000Z');
+  expect(bundle.snippets[0].code).toEqual(['import os', 'print(1)']);
+
+  const result = parseSnippets(JSON.stringify(bundle), 'bundle.json');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets[0].code).toBe('import os\nprint(1)');
+  expect(result.snippets[0].id).toBe('abc');
+
+  const newer = { ...bundle, version: BUNDLE_VERSION + 1 };
+  expect(parseSnippets(JSON.stringify(newer), 'new.json').errors).toEqual([
+    `new.json: unsupported bundle version ${BUNDLE_VERSION + 1}`
+  ]);
+});
+
+test('export a snippet without the fields of its library', () => {
+  const exported = toBundledSnippet({
+    name: 'hello',
+    language: 'Python',
+    code: 'print(2)',
+    id: 'abc',
+    order: 3,
+    created: '2026-01-01T00:00:00.000Z',
+    history: [{ timestamp: '', code: 'print(1)', metadata: {} }],
+    library: 'folder:team'
+  });
+  expect(JSON.parse(JSON.stringify(exported))).toEqual({
+    name: 'hello',
+    description: '',
+    language: 'Python',
+    code: ['print(2)'],
+    id: 'abc',
+    tags: []
+  });
+
+  // the exported file can be imported
+  const result = parseSnippets(JSON.stringify(exported), 'hello.json');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets[0].library).toBeUndefined();
+});
+
+test('parse the cells of multi-cell snippets', () => {
+  const cells = [
+    { cell_type: 'markdown', source: ['# Load', 'the data'] },
+    { cell_type: 'code', source: 'df.head()', metadata: { tags: ['setup'] } }
+  ];
+  const result = parseSnippets(JSON.stringify({ ...SNIPPET, cells }), 'a');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets[0].cells).toEqual([
+    { cell_type: 'markdown', source: '# Load\nthe data' },
+    { cell_type: 'code', source: 'df.head()', metadata: { tags: ['setup'] } }
+  ]);
+  expect(
+    validateSnippet({ ...SNIPPET, cells: [{ cell_type: 'raw', source: '' }] })
+  ).toBe('cells[0]: "cell_type" must be "code" or "markdown"');
+});
+
+test('parse the snippets a snippet requires', () => {
+  const requires = ['a1b2', 'c3d4'];
+  const result = parseSnippets(JSON.stringify({ ...SNIPPET, requires }), 'a');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets[0].requires).toEqual(requires);
+  expect(validateSnippet({ ...SNIPPET, requires: 'a1b2' })).toBe(
+    '"requires" must be an array of snippet ids'
+  );
+});
+
+test('parse the history of a snippet', () => {
+  const history = [
+    { timestamp: '', code: ['x = 1', 'y = 2'], metadata: { name: 'xy' } }
+  ];
+  const result = parseSnippets(JSON.stringify({ ...SNIPPET, history }), 'a');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets[0].history).toEqual([
+    { timestamp: '', code: 'x = 1\ny = 2', metadata: { name: 'xy' } }
+  ]);
+  expect(validateSnippet({ ...SNIPPET, history: [{ code: '' }] })).toBe(
+    'history[0]: "timestamp" must be a string'
+  );
+});
+
+test('parse the creation date of a snippet', () => {
+  const created = '2026-03-01T09:00:00.000Z';
+  const result = parseSnippets(JSON.stringify({ ...SNIPPET, created }), 'a');
+  expect(result.errors).toEqual([]);
+  expect(result.snippets[0].created).toBe(created);
+  expect(validateSnippet({ ...SNIPPET, created: 1 })).toBe(
+    '"created" must be a date string'
+  );
+});
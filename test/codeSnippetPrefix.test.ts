@@ -0,0 +1,50 @@
+import { matchSnippets, tokenBefore } from '../src/CodeSnippetPrefix';
+import 'jest';
+
+function snippet(name: string, language: string, prefix?: string) {
+  return { id: name, name, code: '', language, order: 0, prefix };
+}
+
+const SNIPPETS = [
+  snippet('pandas', 'Python', 'imppd'),
+  snippet('numpy', 'Python', 'impnp'),
+  snippet('dplyr', 'R', 'impdp'),
+  snippet('plot', 'Python', 'Plot-Line'),
+  snippet('no prefix', 'Python')
+];
+
+function names(token: string, language?: string): string[] {
+  return matchSnippets(SNIPPETS, token, language).map(item => item.name);
+}
+
+test('match the prefixes starting with the token, ignoring case', () => {
+  expect(names('imp')).toEqual(['dplyr', 'numpy', 'pandas']);
+  expect(names('IMPP')).toEqual(['pandas']);
+  expect(names('plot-l')).toEqual(['plot']);
+  expect(names('mpp')).toEqual([]);
+  expect(names('imppd2')).toEqual([]);
+});
+
+test('match nothing without a token', () => {
+  expect(names('')).toEqual([]);
+});
+
+test('match the snippets of a language only', () => {
+  expect(names('imp', 'python')).toEqual(['numpy', 'pandas']);
+  expect(names('imp', 'R')).toEqual(['dplyr']);
+  expect(names('imp', 'julia')).toEqual([]);
+});
+
+test('take the word before the cursor as the token', () => {
+  expect(tokenBefore('x = imppd', 9)).toBe('imppd');
+  expect(tokenBefore('x = imppd', 7)).toBe('imp');
+  expect(tokenBefore('df.plot-line', 12)).toBe('plot-line');
+  expect(tokenBefore('print(snake_case', 16)).toBe('snake_case');
+  expect(tokenBefore('a = b\nimp', 9)).toBe('imp');
+});
+
+test('take no token after a space or a symbol', () => {
+  expect(tokenBefore('x = ', 4)).toBe('');
+  expect(tokenBefore('print(', 6)).toBe('');
+  expect(tokenBefore('', 0)).toBe('');
+});
@@ -0,0 +1,123 @@
+import { AddressInfo } from 'net';
+import * as http from 'http';
+
+import {
+  extractCode,
+  getChatResponseText,
+  sendPrompt
+} from '../src/CodeSnippetPrompt';
+import 'jest';
+
+/**
+ * A local stand-in for a chat completions endpoint, answering every request
+ * with the next status and body, and allowing the requests of any origin.
+ */
+class StandIn {
+  async start(): Promise<void> {
+    this._server = http.createServer();
+    this._server.on(
+      'request',
+      (request: http.IncomingMessage, response: http.ServerResponse) => {
+        let body = '';
+        request.on('data', (chunk: Buffer) => (body += chunk));
+        request.on('end', () => {
+          this.requests.push({
+            method: request.method as string,
+            headers: request.headers,
+            body
+          });
+          response.writeHead(this.status, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+          });
+          response.end(JSON.stringify(this.reply));
+        });
+      }
+    );
+    await new Promise<void>(resolve =>
+      this._server.listen(0, '127.0.0.1', resolve)
+    );
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this._server.close(resolve));
+  }
+
+  get endpoint(): string {
+    const port = (this._server.address() as AddressInfo).port;
+    return `http://127.0.0.1:${port}/v1/chat/completions`;
+  }
+
+  status = 200;
+  reply: unknown = {};
+  requests: {
+    method: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }[] = [];
+  private _server: ReturnType<typeof http.createServer>;
+}
+
+const STAND_IN = new StandIn();
+
+beforeAll(() => STAND_IN.start());
+
+afterAll(() => STAND_IN.stop());
+
+beforeEach(() => {
+  STAND_IN.requests = [];
+});
+
+function settings(apiKey = '') {
+  return { endpoint: STAND_IN.endpoint, model: 'stand-in', apiKey };
+}
+
+test('post the prompt as a chat completions request', async () => {
+  STAND_IN.status = 200;
+  STAND_IN.reply = {
+    choices: [{ message: { role: 'assistant', content: 'df.head()' } }]
+  };
+  expect(await sendPrompt('Explain df', settings('secret'))).toBe('df.head()');
+
+  const request = STAND_IN.requests[0];
+  expect(request.method).toBe('POST');
+  expect(request.headers['authorization']).toBe('Bearer secret');
+  expect(request.headers['content-type']).toBe('application/json');
+  expect(JSON.parse(request.body)).toEqual({
+    model: 'stand-in',
+    messages: [{ role: 'user', content: 'Explain df' }]
+  });
+});
+
+test('send no key to local servers', async () => {
+  STAND_IN.status = 200;
+  STAND_IN.reply = { choices: [{ message: { content: 'ok' } }] };
+  expect(await sendPrompt('Hi', settings())).toBe('ok');
+  expect(STAND_IN.requests[0].headers['authorization']).toBeUndefined();
+});
+
+test('report the errors of the endpoint', async () => {
+  STAND_IN.status = 401;
+  STAND_IN.reply = { error: { message: 'Invalid API key' } };
+  await expect(sendPrompt('Hi', settings())).rejects.toThrow('Invalid API key');
+  expect(() => getChatResponseText({ choices: [] })).toThrow(
+    'The reply of the endpoint has no message'
+  );
+});
+
+test('report an endpoint that cannot be reached', async () => {
+  const endpoint = 'http://127.0.0.1:1/v1/chat/completions';
+  await expect(sendPrompt('Hi', { ...settings(), endpoint })).rejects.toThrow(
+    `Cannot reach ${endpoint}: check that it is running and allows requests from`
+  );
+});
+
+test('extract the code blocks of a response', () => {
+  const response =
+    'Use:\n```python\nimport pandas as pd\n```\nthen\n```\npd.read_csv(path)\n```';
+  expect(extractCode(response)).toBe(
+    'import pandas as pd\n\npd.read_csv(path)'
+  );
+  expect(extractCode(' df.head() \n')).toBe('df.head()');
+});
@@ -0,0 +1,95 @@
+import {
+  ISnippetQuery,
+  matchesQuery,
+  parseQuery
+} from '../src/CodeSnippetQuery';
+import 'jest';
+
+function snippet(name: string, code: string, tags: string[], modified = '') {
+  return {
+    id: name,
+    name,
+    code,
+    tags,
+    language: 'Python',
+    order: 0,
+    history: modified ? [{ timestamp: modified, code, metadata: {} }] : []
+  };
+}
+
+const PLOT = snippet(
+  'plot_hist',
+  'df.hist()',
+  ['import statements', 'plots'],
+  new Date(2026, 2, 15, 12).toISOString()
+);
+const READ = snippet('read csv', 'pd.read_csv(path)', ['deprecated']);
+
+function parse(input: string): ISnippetQuery {
+  const { query, error } = parseQuery(input);
+  expect(error).toBeNull();
+  return query as ISnippetQuery;
+}
+
+function matching(input: string) {
+  const query = parse(input);
+  return [PLOT, READ]
+    .filter((item) => matchesQuery(item, query))
+    .map((item) => item.id);
+}
+
+test('split free text from qualifiers', () => {
+  const query = parse('read  lang:python "data frame" np.array:');
+  expect(query.text).toBe('read data frame np.array:');
+  expect(query.filters.map((filter) => filter.field)).toEqual(['lang']);
+});
+
+test('filter by language and tags, ignoring case', () => {
+  expect(matching('lang:PYTHON')).toEqual(['plot_hist', 'read csv']);
+  expect(matching('lang:r')).toEqual([]);
+  expect(matching('tag:"import statements"')).toEqual(['plot_hist']);
+  expect(matching('tag:plot*')).toEqual(['plot_hist']);
+  expect(matching('-tag:deprecated')).toEqual(['plot_hist']);
+});
+
+test('filter by name and code', () => {
+  expect(matching('name:plot*')).toEqual(['plot_hist']);
+  expect(matching('name:csv')).toEqual(['read csv']);
+  expect(matching('name:csv*')).toEqual([]);
+  expect(matching('code:/read_\\w+\\(/')).toEqual(['read csv']);
+  expect(matching('code:/HIST/i')).toEqual(['plot_hist']);
+});
+
+test('filter by the day snippets were last saved', () => {
+  expect(matching('modified:>2026-03-14')).toEqual(['plot_hist']);
+  expect(matching('modified:>2026-03-15')).toEqual([]);
+  expect(matching('modified:<=2026-03-15')).toEqual(['plot_hist']);
+  expect(matching('modified:2026-03-15')).toEqual(['plot_hist']);
+  expect(matching('-modified:2026-03-15')).toEqual(['read csv']);
+});
+
+test('filter the snippets without history by the day they were created', () => {
+  const created = {
+    ...snippet('bar', 'df.plot.bar()', []),
+    created: new Date(2026, 2, 20, 12).toISOString()
+  };
+  const query = parse('modified:>2026-03-15');
+  expect(matchesQuery(created, query)).toBe(true);
+  expect(matchesQuery(READ, query)).toBe(false);
+});
+
+test('report invalid queries', () => {
+  expect(parseQuery('tag:"import').error).toBe(
+    'Missing closing " for the quote at column 5'
+  );
+  expect(parseQuery('code:/(/').error).toBe(
+    'Invalid regular expression in "code:/(/" at column 1'
+  );
+  expect(parseQuery('x modified:2026-02-30').error).toBe(
+    'Invalid date in "modified:2026-02-30" at column 3'
+  );
+  expect(parseQuery('lang: python').error).toBe(
+    'Missing value after "lang:" at column 1'
+  );
+  expect(parseQuery('lang: python').query).toBeNull();
+});
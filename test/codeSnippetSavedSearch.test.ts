@@ -0,0 +1,36 @@
+import {
+  ISavedSearch,
+  addSavedSearch,
+  getSavedQuery,
+  removeSavedSearch
+} from '../src/CodeSnippetSavedSearch';
+import 'jest';
+
+function search(name: string, query: string): ISavedSearch {
+  return {
+    name,
+    query,
+    tagFilter: { tags: [], excludedTags: [], languages: [], mode: 'any' }
+  };
+}
+
+test('add saved searches, replacing the one with the same name in place', () => {
+  const plots = search('plots', 'tag:plots');
+  const io = search('io', 'read');
+  const searches = addSavedSearch(addSavedSearch([], plots), io);
+  expect(searches).toEqual([plots, io]);
+
+  const newPlots = search('plots', 'name:plot*');
+  expect(addSavedSearch(searches, newPlots)).toEqual([newPlots, io]);
+  expect(searches).toEqual([plots, io]);
+});
+
+test('remove a saved search by name', () => {
+  const searches = [search('plots', ''), search('io', '')];
+  expect(removeSavedSearch(searches, 'plots')).toEqual([searches[1]]);
+});
+
+test('parse the query of a saved search', () => {
+  expect(getSavedQuery(search('plots', 'read lang:r'))?.text).toBe('read');
+  expect(getSavedQuery(search('broken', 'tag:"plots'))).toBeNull();
+});
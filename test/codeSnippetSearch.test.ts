@@ -0,0 +1,83 @@
+import {
+  findRanges,
+  getSearchTerms,
+  searchSnippets,
+  tokenize
+} from '../src/CodeSnippetSearch';
+import 'jest';
+
+function snippet(
+  id: string,
+  name: string,
+  code: string,
+  description = '',
+  tags: string[] = []
+) {
+  return { id, name, code, description, tags, language: 'Python', order: 0 };
+}
+
+const SNIPPETS = [
+  snippet('code', 'load data', 'import pandas as pd\npd.read_csv(path)'),
+  snippet('description', 'load', 'x = 1', 'read a pandas frame'),
+  snippet('tag', 'frame', 'x = 2', '', ['pandas']),
+  snippet('name', 'pandas frame', 'x = 3')
+];
+
+test('split a query into unique lowercase terms', () => {
+  expect(getSearchTerms('  Read  CSV read ')).toEqual(['read', 'csv']);
+  expect(getSearchTerms('   ')).toEqual([]);
+});
+
+test('split identifiers into their parts', () => {
+  expect(tokenize('pd.read_csv(readExcel)')).toEqual([
+    'pd',
+    'read_csv',
+    'read',
+    'csv',
+    'readexcel',
+    'read',
+    'excel'
+  ]);
+});
+
+test('rank the matches in the name first, then tags, description and code', () => {
+  const results = searchSnippets(SNIPPETS, 'pandas');
+  expect(results.map((result) => result.snippet.id)).toEqual([
+    'name',
+    'tag',
+    'description',
+    'code'
+  ]);
+});
+
+test('match all the terms of a query, in any field', () => {
+  const results = searchSnippets(SNIPPETS, 'frame pandas');
+  expect(results.map((result) => result.snippet.id)).toEqual([
+    'name',
+    'tag',
+    'description'
+  ]);
+  expect(searchSnippets(SNIPPETS, 'csv pd').map((r) => r.snippet.id)).toEqual([
+    'code'
+  ]);
+  expect(searchSnippets(SNIPPETS, 'pandas missing')).toEqual([]);
+});
+
+test('find the matches to highlight in each field', () => {
+  const [result] = searchSnippets([SNIPPETS[0]], 'csv');
+  expect(result.matches.name).toEqual([]);
+  expect(result.matches.code).toEqual({
+    line: 'pd.read_csv(path)',
+    ranges: [[8, 11]]
+  });
+  expect(searchSnippets([SNIPPETS[2]], 'pan')[0].matches.tags).toEqual([
+    { tag: 'pandas', ranges: [[0, 3]] }
+  ]);
+});
+
+test('merge overlapping ranges', () => {
+  expect(findRanges('Read a CSV', ['read', 'ead a', 'csv'])).toEqual([
+    [0, 6],
+    [7, 10]
+  ]);
+});
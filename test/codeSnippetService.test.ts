@@ -0,0 +1,399 @@
+jest.mock('../src/CodeSnippetWidget', () => ({ CodeSnippetWidget: class {} }));
+jest.mock('../src/CodeSnippetConflict', () => ({
+  resolveEditConflict: jest.fn()
+}));
+
+import { JupyterFrontEnd } from '@jupyterlab/application';
+import { Contents, ContentsManager } from '@jupyterlab/services';
+import { Settings } from '@jupyterlab/settingregistry';
+import { JSONExt, JSONValue } from '@lumino/coreutils';
+import { Signal } from '@lumino/signaling';
+import { resolveEditConflict } from '../src/CodeSnippetConflict';
+import { CodeSnippetContentsService } from '../src/CodeSnippetContentsService';
+import { searchSnippets } from '../src/CodeSnippetSearch';
+import { CodeSnippetService } from '../src/CodeSnippetService';
+import 'jest';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const DEFAULTS: { [key: string]: JSONValue } = {
+  snippetStorage: 'settings',
+  snippetFolder: 'snippets',
+  snippetFolderPollInterval: 0,
+  snippetLibraries: [],
+  snippetTrash: [],
+  trashRetentionDays: 30,
+  snippetPreviewFontSize: 14
+};
+
+/**
+ * The settings of the extension, kept in memory.
+ */
+class TestSettings {
+  constructor(values: { [key: string]: JSONValue }) {
+    this.values = values;
+  }
+
+  // the values are copies, as in JupyterLab
+  get(key: string): { composite: JSONValue; user: JSONValue | undefined } {
+    const user = this.values[key];
+    return {
+      composite: JSONExt.deepCopy(user ?? DEFAULTS[key]),
+      user: user === undefined ? undefined : JSONExt.deepCopy(user)
+    };
+  }
+
+  default(key: string): JSONValue {
+    return DEFAULTS[key];
+  }
+
+  async set(key: string, value: JSONValue): Promise<void> {
+    if (this.failingKeys.includes(key)) {
+      throw new Error(`Cannot save ${key}`);
+    }
+    this.values[key] = JSONExt.deepCopy(value);
+    this.changed.emit(undefined);
+  }
+
+  values: { [key: string]: JSONValue };
+  failingKeys: string[] = [];
+  changed = new Signal<this, void>(this);
+  registry = { reload: async (): Promise<void> => undefined };
+  id = '@jupyterlab/code_snippet:snippets';
+}
+
+/**
+ * The files of the snippet folders, kept in memory.
+ */
+class TestContents {
+  async get(path: string): Promise<Contents.IModel> {
+    if (this.files.has(path)) {
+      return this.model(path, this.files.get(path) as string);
+    }
+    const children = Array.from(this.files.keys()).filter(key =>
+      key.startsWith(path + '/')
+    );
+    return {
+      ...this.model(path, null),
+      type: 'directory',
+      content: children.map(child => this.model(child, null))
+    };
+  }
+
+  async save(
+    path: string,
+    options: Partial<Contents.IModel>
+  ): Promise<Contents.IModel> {
+    if (this.failingSaves) {
+      throw new Error(`Cannot save ${path}`);
+    }
+    if (options.type === 'file') {
+      this.files.set(path, options.content);
+    }
+    return this.model(path, null);
+  }
+
+  async delete(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+
+  private model(path: string, content: string | null): Contents.IModel {
+    return {
+      name: path.split('/').pop() as string,
+      path,
+      type: 'file',
+      created: '',
+      last_modified: '',
+      writable: true,
+      mimetype: 'application/json',
+      content,
+      format: 'text'
+    };
+  }
+
+  files = new Map<string, string>();
+  failingSaves = false;
+}
+
+const APP = {
+  shell: { widgets: () => ({ iter: () => ({ next: (): void => undefined }) }) }
+} as unknown as JupyterFrontEnd;
+
+/**
+ * Wait for the pending loads and saves of the service.
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+async function createService(
+  settings: TestSettings
+): Promise<CodeSnippetService> {
+  // a new service for every test
+  (CodeSnippetService as any).codeSnippetService = undefined;
+  CodeSnippetService.init(settings as unknown as Settings, APP);
+  await flush();
+  return CodeSnippetService.getCodeSnippetService();
+}
+
+function snippet(name: string, id: JSONValue, order?: number): JSONValue {
+  const result: { [key: string]: JSONValue } = {
+    name,
+    description: '',
+    language: 'Python',
+    code: `print("${name}")`,
+    id
+  };
+  if (order !== undefined) {
+    result.order = order;
+  }
+  return result;
+}
+
+test('give the snippets saved with numeric ids a UUID and keep their order', async () => {
+  const settings = new TestSettings({
+    snippets: [snippet('second', 1), snippet('first', 0), snippet('third', 2)]
+  });
+  const service = await createService(settings);
+
+  expect(service.snippets.map(item => item.name)).toEqual([
+    'first',
+    'second',
+    'third'
+  ]);
+  expect(service.snippets.map(item => item.order)).toEqual([0, 1, 2]);
+  for (const item of service.snippets) {
+    expect(item.id).toMatch(UUID_PATTERN);
+  }
+  expect(new Set(service.snippets.map(item => item.id)).size).toBe(3);
+
+  // the upgrade is saved, without the library of the snippets
+  const stored = settings.values.snippets as any[];
+  expect(stored.map(item => item.id)).toEqual(
+    service.snippets.map(item => item.id)
+  );
+  expect(stored.every(item => item.library === undefined)).toBe(true);
+});
+
+test('give a new id to the snippets with an id already in use', async () => {
+  const settings = new TestSettings({
+    snippets: [
+      snippet('original', 'abc', 0),
+      snippet('copy', 'abc', 1),
+      snippet('empty', '', 2)
+    ]
+  });
+  const service = await createService(settings);
+
+  const ids = service.snippets.map(item => item.id);
+  expect(ids[0]).toBe('abc');
+  expect(ids[1]).toMatch(UUID_PATTERN);
+  expect(ids[2]).toMatch(UUID_PATTERN);
+  expect(service.snippets.map(item => item.name)).toEqual([
+    'original',
+    'copy',
+    'empty'
+  ]);
+});
+
+test('keep the snippets that need no upgrade as they are stored', async () => {
+  const snippets = [snippet('a', 'id-a', 0), snippet('b', 'id-b', 1)];
+  const settings = new TestSettings({ snippets: JSONExt.deepCopy(snippets) });
+  const set = jest.spyOn(settings, 'set');
+  const service = await createService(settings);
+
+  expect(service.snippets.map(item => item.id)).toEqual(['id-a', 'id-b']);
+  expect(set).not.toHaveBeenCalledWith('snippets', expect.anything());
+  expect(settings.values.snippets).toEqual(snippets);
+});
+
+test('find a renamed snippet by its new name only', async () => {
+  const service = await createService(
+    new TestSettings({
+      snippets: [{ ...(snippet('histogram', 'a', 0) as any), code: 'pass' }]
+    })
+  );
+  const names = (query: string) =>
+    searchSnippets(service.snippets, query).map(result => result.snippet.name);
+  expect(names('histogram')).toEqual(['histogram']);
+
+  expect(await service.renameSnippet('a', 'scatter')).toBe(true);
+  expect(names('scatter')).toEqual(['scatter']);
+  expect(names('histogram')).toEqual([]);
+});
+
+describe('usage of the snippets', () => {
+  const USED = { count: 4, lastUsed: '2026-01-01T00:00:00.000Z' };
+
+  test('keep the usage of the snippets not loaded when counting an insertion', async () => {
+    const settings = new TestSettings({
+      snippets: [snippet('plot', 'a', 0)],
+      snippetUsage: { 'not-loaded': USED }
+    });
+    const service = await createService(settings);
+
+    expect(await service.recordUsage('a')).toBe(true);
+    expect(Object.keys(service.usage).sort()).toEqual(['a', 'not-loaded']);
+  });
+
+  test('keep the usage of a deleted snippet until the trash is emptied', async () => {
+    const settings = new TestSettings({
+      snippets: [snippet('plot', 'a', 0), snippet('bar', 'b', 1)],
+      snippetUsage: { a: USED, b: USED }
+    });
+    const service = await createService(settings);
+
+    expect(await service.deleteSnippet('a')).toBe(true);
+    expect(Object.keys(service.usage).sort()).toEqual(['a', 'b']);
+
+    expect(await service.emptyTrash()).toBe(true);
+    expect(Object.keys(service.usage)).toEqual(['b']);
+  });
+
+  test('drop the usage of the snippets deleted for longer than the retention period', async () => {
+    const trashed = (id: string, deleted: string) => ({
+      snippet: snippet(id, id, 0),
+      library: 'personal',
+      deleted
+    });
+    const settings = new TestSettings({
+      snippetTrash: [
+        trashed('old', '2000-01-01T00:00:00.000Z'),
+        trashed('new', new Date().toISOString())
+      ],
+      snippetUsage: { old: USED, new: USED }
+    });
+    const service = await createService(settings);
+
+    expect(service.trash.map(entry => entry.snippet.id)).toEqual(['new']);
+    expect(Object.keys(service.usage)).toEqual(['new']);
+  });
+});
+
+describe('with a snippet changed here and elsewhere', () => {
+  // a service whose change of the snippet is not saved yet when the settings
+  // change to the remote snippets
+  async function changeBoth(remote: JSONValue[]): Promise<CodeSnippetService> {
+    const settings = new TestSettings({ snippets: [snippet('plot', 'a', 0)] });
+    const service = await createService(settings);
+    settings.failingKeys = ['snippets'];
+    await service.modifyExistingSnippet('a', {
+      ...service.snippets[0],
+      code: 'mine'
+    });
+    settings.values.snippets = remote;
+    settings.changed.emit(undefined);
+    await flush();
+    expect(resolveEditConflict).toHaveBeenCalledTimes(1);
+    return service;
+  }
+
+  beforeEach(() => {
+    (resolveEditConflict as jest.Mock).mockClear();
+    (resolveEditConflict as jest.Mock).mockResolvedValue('both');
+  });
+
+  test('keep both versions as two snippets', async () => {
+    const service = await changeBoth([
+      { ...(snippet('plot', 'a', 0) as any), code: 'theirs' }
+    ]);
+    expect(service.snippets.map(item => [item.name, item.code])).toEqual([
+      ['plot', 'mine'],
+      ['plot_1', 'theirs']
+    ]);
+  });
+
+  test('keep both versions of a snippet deleted elsewhere as the changed one', async () => {
+    const service = await changeBoth([]);
+    expect(service.snippets.map(item => [item.id, item.code])).toEqual([
+      ['a', 'mine']
+    ]);
+  });
+});
+
+describe('with a snippet folder', () => {
+  let contents: TestContents;
+
+  beforeEach(() => {
+    contents = new TestContents();
+    CodeSnippetContentsService.getInstance().contentsManager =
+      contents as unknown as ContentsManager;
+  });
+
+  function createSettings(readOnly = false): TestSettings {
+    return new TestSettings({
+      snippets: [snippet('plot', 'personal-plot', 0)],
+      snippetLibraries: [{ name: 'Team', path: 'team', readOnly }]
+    });
+  }
+
+  test('keep a snippet in its library when the target cannot be saved', async () => {
+    const settings = createSettings();
+    const service = await createService(settings);
+    contents.failingSaves = true;
+
+    expect(
+      await service.moveSnippetToLibrary('personal-plot', 'folder:team')
+    ).toBe(false);
+    expect(service.snippets.map(item => [item.id, item.library])).toEqual([
+      ['personal-plot', 'personal']
+    ]);
+    expect((settings.values.snippets as any[]).map(item => item.id)).toEqual([
+      'personal-plot'
+    ]);
+
+    // saving the library again does not lose the snippet
+    expect(await service.orderSnippets()).toBe(true);
+    expect((settings.values.snippets as any[]).map(item => item.id)).toEqual([
+      'personal-plot'
+    ]);
+  });
+
+  test('move a snippet to another library', async () => {
+    const settings = createSettings();
+    const service = await createService(settings);
+
+    expect(
+      await service.moveSnippetToLibrary('personal-plot', 'folder:team')
+    ).toBe(true);
+    expect(service.snippets.map(item => [item.id, item.library])).toEqual([
+      ['personal-plot', 'folder:team']
+    ]);
+    expect(settings.values.snippets).toEqual([]);
+    expect(JSON.parse(contents.files.get('team/plot.json') as string).id).toBe(
+      'personal-plot'
+    );
+  });
+
+  test('rename the snippet with an id, not the first with its name', async () => {
+    contents.files.set(
+      'team/plot.json',
+      JSON.stringify(snippet('plot', 'team-plot', 0))
+    );
+    const settings = createSettings();
+    const service = await createService(settings);
+
+    expect(await service.renameSnippet('team-plot', 'team_plot')).toBe(true);
+    expect(service.snippets.map(item => [item.id, item.name])).toEqual([
+      ['personal-plot', 'plot'],
+      ['team-plot', 'team_plot']
+    ]);
+    expect(Array.from(contents.files.keys())).toEqual(['team/team_plot.json']);
+    expect((settings.values.snippets as any[])[0].name).toBe('plot');
+  });
+
+  test('rename a snippet with the name of a read-only snippet', async () => {
+    contents.files.set(
+      'team/plot.json',
+      JSON.stringify(snippet('plot', 'team-plot', 0))
+    );
+    const service = await createService(createSettings(true));
+
+    expect(await service.renameSnippet('team-plot', 'other')).toBe(false);
+    expect(await service.renameSnippet('personal-plot', 'other')).toBe(true);
+    expect(service.snippets.map(item => item.name)).toEqual(['other', 'plot']);
+  });
+});
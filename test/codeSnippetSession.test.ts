@@ -0,0 +1,127 @@
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { CodeMirrorEditor } from '@jupyterlab/codemirror';
+
+import CodeMirror from 'codemirror';
+
+import {
+  SNIPPET_SESSION_CLASS,
+  SnippetSession
+} from '../src/CodeSnippetSession';
+import { expandTemplateFields } from '../src/CodeSnippetTemplate';
+import 'jest';
+
+jest.mock('@jupyterlab/codemirror', () => ({ CodeMirrorEditor: class {} }));
+
+const TEMPLATE = 'for ${1:item} in ${2:items}:\n    print(${1})\n${0}';
+
+let cm: CodeMirror.Editor;
+
+beforeEach(() => {
+  document.body.innerHTML = '';
+  cm = CodeMirror(document.body, { value: '# loop\n' });
+});
+
+/**
+ * Insert the template at the end of the editor and start a session on it.
+ */
+function insert(): SnippetSession {
+  const editor = Object.assign(Object.create(CodeMirrorEditor.prototype), {
+    editor: cm,
+    focus: () => cm.focus()
+  }) as CodeEditor.IEditor;
+  const template = expandTemplateFields(TEMPLATE);
+  const offset = cm.getValue().length;
+  cm.getDoc().replaceRange(template.text, cm.getDoc().posFromIndex(offset));
+  return SnippetSession.start(
+    editor,
+    offset,
+    template.fields
+  ) as SnippetSession;
+}
+
+// the texts selected in the editor
+function selected(): string[] {
+  return cm.getDoc().getSelections();
+}
+
+// press a key bound to a session command, which acts on the session of the
+// focused editor
+function press(key: 'Tab' | 'Shift Tab' | 'Escape'): void {
+  const session = SnippetSession.current();
+  if (key === 'Tab') {
+    session?.next();
+  } else if (key === 'Shift Tab') {
+    session?.previous();
+  } else {
+    session?.dispose();
+  }
+}
+
+test('select the fields of the first tab stop', () => {
+  insert();
+  expect(cm.getValue()).toBe('# loop\nfor item in items:\n    print(item)\n');
+  expect(selected()).toEqual(['item', 'item']);
+  expect(SnippetSession.current()).toBeDefined();
+  expect(cm.getWrapperElement().classList.contains(SNIPPET_SESSION_CLASS)).toBe(
+    true
+  );
+});
+
+test('move between the tab stops with Tab and Shift-Tab', () => {
+  insert();
+  press('Tab');
+  expect(selected()).toEqual(['items']);
+  press('Shift Tab');
+  expect(selected()).toEqual(['item', 'item']);
+  press('Shift Tab');
+  expect(selected()).toEqual(['item', 'item']);
+});
+
+test('end the session at the last tab stop', () => {
+  const session = insert();
+  press('Tab');
+  press('Tab');
+  expect(session.isDisposed).toBe(false);
+  press('Tab');
+
+  expect(session.isDisposed).toBe(true);
+  expect(cm.getDoc().getCursor()).toEqual(
+    expect.objectContaining({ line: 3, ch: 0 })
+  );
+  expect(cm.getDoc().getAllMarks()).toEqual([]);
+});
+
+test('copy the text typed in a field to the fields of the same number', () => {
+  insert();
+  const doc = cm.getDoc();
+  // put the cursor in the first field only, then type over it
+  doc.setCursor({ line: 1, ch: 4 });
+  doc.replaceRange('row', { line: 1, ch: 4 }, { line: 1, ch: 8 }, '+input');
+
+  expect(cm.getValue()).toBe('# loop\nfor row in items:\n    print(row)\n');
+  press('Tab');
+  expect(selected()).toEqual(['items']);
+  press('Shift Tab');
+  expect(selected()).toEqual(['row', 'row']);
+});
+
+test('clear the fields when Escape ends the session', () => {
+  const session = insert();
+  expect(cm.getDoc().getAllMarks().length).toBe(4);
+
+  press('Escape');
+  expect(session.isDisposed).toBe(true);
+  expect(cm.getDoc().getAllMarks()).toEqual([]);
+  expect(cm.getWrapperElement().classList.contains(SNIPPET_SESSION_CLASS)).toBe(
+    false
+  );
+  expect(SnippetSession.current()).toBeUndefined();
+  expect(cm.getValue()).toBe('# loop\nfor item in items:\n    print(item)\n');
+});
+
+test('end the session when the cursor leaves the fields', () => {
+  const session = insert();
+  cm.getDoc().setCursor({ line: 0, ch: 2 });
+  expect(session.isDisposed).toBe(true);
+  expect(cm.getDoc().getAllMarks()).toEqual([]);
+});
@@ -0,0 +1,89 @@
+import { forgetUsage, recordUsage, sortSnippets } from '../src/CodeSnippetSort';
+import 'jest';
+
+function snippet(
+  id: string,
+  language: string,
+  created?: string,
+  modified?: string
+) {
+  return {
+    id,
+    name: id,
+    code: '',
+    language,
+    order: 0,
+    created,
+    history: modified ? [{ timestamp: modified, code: '', metadata: {} }] : []
+  };
+}
+
+const SNIPPETS = [
+  snippet('plot10', 'Python', '2026-01-03T00:00:00.000Z'),
+  snippet('Plot2', 'R', undefined, '2026-02-01T00:00:00.000Z'),
+  snippet('hist', 'Python', '2026-01-05T00:00:00.000Z', '2026-01-06T00:00:00.000Z'),
+  snippet('bar', 'R', '2026-01-01T00:00:00.000Z')
+];
+
+const USAGE = {
+  hist: { count: 2, lastUsed: '2026-03-01T00:00:00.000Z' },
+  bar: { count: 5, lastUsed: '2026-02-01T00:00:00.000Z' },
+  plot10: { count: 2, lastUsed: '2026-03-02T00:00:00.000Z' }
+};
+
+function sorted(mode: Parameters<typeof sortSnippets>[1]) {
+  return sortSnippets(SNIPPETS, mode, USAGE).map((item) => item.id);
+}
+
+test('keep the manual order', () => {
+  expect(sorted('manual')).toEqual(['plot10', 'Plot2', 'hist', 'bar']);
+});
+
+test('sort by name and by language', () => {
+  expect(sorted('name')).toEqual(['bar', 'hist', 'Plot2', 'plot10']);
+  expect(sorted('language')).toEqual(['hist', 'plot10', 'bar', 'Plot2']);
+});
+
+test('sort by use, the snippets never used last', () => {
+  expect(sorted('recentlyUsed')).toEqual(['plot10', 'hist', 'bar', 'Plot2']);
+  expect(sorted('mostUsed')).toEqual(['bar', 'plot10', 'hist', 'Plot2']);
+});
+
+test('sort by modification and creation dates, the undated snippets last', () => {
+  expect(sorted('recentlyModified')).toEqual([
+    'Plot2',
+    'hist',
+    'plot10',
+    'bar'
+  ]);
+  expect(sorted('created')).toEqual(['hist', 'plot10', 'bar', 'Plot2']);
+});
+
+test('take the creation date of the snippets without history as modified', () => {
+  const recent = snippet('recent', 'Python', '2026-03-01T00:00:00.000Z');
+  expect(
+    sortSnippets(SNIPPETS.concat(recent), 'recentlyModified', USAGE).map(
+      (item) => item.id
+    )
+  ).toEqual(['recent', 'Plot2', 'hist', 'plot10', 'bar']);
+});
+
+test('count the insertions of a snippet, keeping the usage of the others', () => {
+  const date = new Date('2026-04-01T00:00:00.000Z');
+  expect(recordUsage(USAGE, 'hist', date)).toEqual({
+    hist: { count: 3, lastUsed: '2026-04-01T00:00:00.000Z' },
+    bar: USAGE.bar,
+    plot10: USAGE.plot10
+  });
+  expect(recordUsage({}, 'bar', date)).toEqual({
+    bar: { count: 1, lastUsed: '2026-04-01T00:00:00.000Z' }
+  });
+});
+
+test('drop the usage of the snippets deleted for good', () => {
+  expect(forgetUsage(USAGE, ['hist', 'unknown'])).toEqual({
+    bar: USAGE.bar,
+    plot10: USAGE.plot10
+  });
+  expect(USAGE.hist).toBeDefined();
+});
@@ -0,0 +1,240 @@
+import {
+  Contents,
+  ContentsManager,
+  ServerConnection
+} from '@jupyterlab/services';
+import { Response } from 'node-fetch';
+import { CodeSnippetContentsService } from '../src/CodeSnippetContentsService';
+import { ICodeSnippet } from '../src/CodeSnippetService';
+import { FolderSnippetStorage } from '../src/CodeSnippetStorage';
+import 'jest';
+
+/**
+ * A contents manager keeping the files in memory.
+ */
+class TestContents {
+  constructor(files: { [path: string]: string } = {}) {
+    for (const path of Object.keys(files)) {
+      this.write(path, files[path]);
+    }
+  }
+
+  async get(path: string): Promise<Contents.IModel> {
+    if (this.files.has(path)) {
+      return this.model(path, true);
+    }
+    const prefix = path + '/';
+    const children = Array.from(this.files.keys()).filter(key =>
+      key.startsWith(prefix)
+    );
+    if (children.length === 0 && !this.folders.has(path)) {
+      throw new ServerConnection.ResponseError(
+        new Response('', { status: 404 }) as any
+      );
+    }
+    return {
+      ...this.model(path, false),
+      type: 'directory',
+      content: children.map(child => this.model(child, false))
+    };
+  }
+
+  async save(
+    path: string,
+    options: Partial<Contents.IModel>
+  ): Promise<Contents.IModel> {
+    if (options.type === 'directory') {
+      this.folders.add(path);
+      return this.model(path, false);
+    }
+    this.write(path, options.content);
+    return this.model(path, false);
+  }
+
+  async delete(path: string): Promise<void> {
+    if (this.failingDeletes) {
+      throw new Error(`Cannot delete ${path}`);
+    }
+    this.files.delete(path);
+  }
+
+  write(path: string, content: string): void {
+    this.files.set(path, { content, modified: `${this.clock++}` });
+  }
+
+  read(path: string): any {
+    return JSON.parse(this.files.get(path)!.content);
+  }
+
+  private model(path: string, content: boolean): Contents.IModel {
+    const file = this.files.get(path);
+    return {
+      name: path.split('/').pop()!,
+      path,
+      type: 'file',
+      created: '',
+      last_modified: file ? file.modified : '',
+      writable: true,
+      mimetype: 'application/json',
+      content: content && file ? file.content : null,
+      format: 'text'
+    };
+  }
+
+  files = new Map<string, { content: string; modified: string }>();
+  folders = new Set<string>();
+  failingDeletes = false;
+  private clock = 0;
+}
+
+function snippet(name: string, code: string, order: number): ICodeSnippet {
+  return {
+    name,
+    description: '',
+    language: 'Python',
+    code,
+    id: `id-${name}`,
+    order,
+    tags: []
+  };
+}
+
+function useContents(contents: TestContents): TestContents {
+  CodeSnippetContentsService.getInstance().contentsManager =
+    contents as unknown as ContentsManager;
+  return contents;
+}
+
+test('load the valid snippet files of a folder', async () => {
+  const contents = useContents(
+    new TestContents({
+      'lib/plot.json': JSON.stringify({
+        name: 'plot',
+        language: 'Python',
+        code: ['import matplotlib', 'plot()'],
+        id: 3
+      }),
+      'lib/broken.json': '{',
+      'lib/invalid.json': JSON.stringify({ name: 'invalid' }),
+      'lib/notes.txt': 'not a snippet'
+    })
+  );
+  const storage = new FolderSnippetStorage('lib', 0);
+  const snippets = await storage.load();
+
+  expect(snippets.length).toBe(1);
+  expect(snippets[0].name).toBe('plot');
+  expect(snippets[0].code).toBe('import matplotlib\nplot()');
+  expect(snippets[0].order).toBe(3);
+  expect(contents.files.size).toBe(4);
+});
+
+test('create the folder when it does not exist', async () => {
+  const contents = useContents(new TestContents());
+  expect(await new FolderSnippetStorage('new', 0).load()).toEqual([]);
+  expect(contents.folders.has('new')).toBe(true);
+  expect(await new FolderSnippetStorage('other', 0, true).load()).toEqual([]);
+  expect(contents.folders.has('other')).toBe(false);
+});
+
+test('save a snippet per file with the code as lines', async () => {
+  const contents = useContents(new TestContents());
+  const storage = new FolderSnippetStorage('lib', 0);
+  await storage.load();
+
+  const plot = { ...snippet('plot', 'a = 1\nplot(a)', 0), library: 'lib' };
+  expect(await storage.save([plot])).toBe(true);
+  expect(Array.from(contents.files.keys())).toEqual(['lib/plot.json']);
+  expect(contents.read('lib/plot.json')).toEqual({
+    name: 'plot',
+    description: '',
+    language: 'Python',
+    code: ['a = 1', 'plot(a)'],
+    id: 'id-plot',
+    order: 0,
+    tags: []
+  });
+
+  // the files read back are the snippets saved
+  const [loaded] = await new FolderSnippetStorage('lib', 0).load();
+  expect(loaded).toEqual(snippet('plot', 'a = 1\nplot(a)', 0));
+});
+
+test('name the files after their snippets', async () => {
+  const contents = useContents(new TestContents());
+  const storage = new FolderSnippetStorage('lib', 0);
+  await storage.load();
+
+  await storage.save([
+    snippet('a/b:c', '1', 0),
+    snippet('same', '2', 1),
+    { ...snippet('same', '3', 2), id: 'other' }
+  ]);
+  expect(Array.from(contents.files.keys()).sort()).toEqual([
+    'lib/a_b_c.json',
+    'lib/same-other.json',
+    'lib/same.json'
+  ]);
+});
+
+test('rename the file of a renamed snippet and delete the removed ones', async () => {
+  const contents = useContents(new TestContents());
+  const storage = new FolderSnippetStorage('lib', 0);
+  await storage.load();
+  const kept = snippet('kept', '1', 0);
+  await storage.save([kept, snippet('old', '2', 1), snippet('gone', '3', 2)]);
+  const modified = contents.files.get('lib/kept.json')!.modified;
+
+  const renamed = { ...snippet('old', '2', 1), name: 'new' };
+  expect(await storage.save([kept, renamed])).toBe(true);
+  expect(Array.from(contents.files.keys()).sort()).toEqual([
+    'lib/kept.json',
+    'lib/new.json'
+  ]);
+  expect(contents.read('lib/new.json').id).toBe('id-old');
+  // unchanged files are not written again
+  expect(contents.files.get('lib/kept.json')!.modified).toBe(modified);
+});
+
+test('only delete the files of snippets it saved or loaded', async () => {
+  const contents = useContents(
+    new TestContents({ 'lib/notes.txt': 'not a snippet', 'lib/bad.json': '{' })
+  );
+  const storage = new FolderSnippetStorage('lib', 0);
+  await storage.load();
+  await storage.save([snippet('a', '1', 0)]);
+  await storage.save([]);
+
+  expect(Array.from(contents.files.keys()).sort()).toEqual([
+    'lib/bad.json',
+    'lib/notes.txt'
+  ]);
+});
+
+test('report the files that cannot be deleted and try again', async () => {
+  const contents = useContents(new TestContents());
+  const storage = new FolderSnippetStorage('lib', 0);
+  await storage.load();
+  await storage.save([snippet('a', '1', 0)]);
+
+  contents.failingDeletes = true;
+  expect(await storage.save([])).toBe(false);
+  expect(contents.files.has('lib/a.json')).toBe(true);
+
+  contents.failingDeletes = false;
+  expect(await storage.save([])).toBe(true);
+  expect(contents.files.has('lib/a.json')).toBe(false);
+});
+
+test('never write a read-only folder', async () => {
+  const contents = useContents(
+    new TestContents({
+      'lib/a.json': JSON.stringify(snippet('a', '1', 0))
+    })
+  );
+  const storage = new FolderSnippetStorage('lib', 0, true);
+  await storage.load();
+
+  expect(await storage.save([])).toBe(false);
+  expect(contents.files.has('lib/a.json')).toBe(true);
+});
@@ -0,0 +1,84 @@
+import {
+  ITagFilter,
+  UNTAGGED,
+  isEmptyTagFilter,
+  matchesTagFilter
+} from '../src/CodeSnippetTagFilter';
+import 'jest';
+
+function snippet(id: string, language: string, tags?: string[]) {
+  return { id, name: id, code: '', language, tags, order: 0 };
+}
+
+const SNIPPETS = [
+  snippet('plot', 'Python', ['plots', 'pandas']),
+  snippet('hist', 'Python', ['plots']),
+  snippet('ggplot', 'R', ['plots', 'deprecated']),
+  snippet('untagged', 'Python')
+];
+
+function matching(filter: Partial<ITagFilter>) {
+  const tagFilter: ITagFilter = {
+    tags: [],
+    excludedTags: [],
+    languages: [],
+    mode: 'any',
+    ...filter
+  };
+  return SNIPPETS.filter((item) => matchesTagFilter(item, tagFilter)).map(
+    (item) => item.id
+  );
+}
+
+test('match any or all of the tags', () => {
+  expect(matching({ tags: ['pandas', 'deprecated'] })).toEqual([
+    'plot',
+    'ggplot'
+  ]);
+  expect(matching({ tags: ['plots', 'pandas'], mode: 'all' })).toEqual([
+    'plot'
+  ]);
+});
+
+test('filter by language, with or without tags', () => {
+  expect(matching({ languages: ['Python'] })).toEqual([
+    'plot',
+    'hist',
+    'untagged'
+  ]);
+  expect(matching({ languages: ['R', 'Python'], tags: ['pandas'] })).toEqual([
+    'plot'
+  ]);
+});
+
+test('exclude tags', () => {
+  expect(matching({ excludedTags: ['deprecated'] })).toEqual([
+    'plot',
+    'hist',
+    'untagged'
+  ]);
+  expect(matching({ tags: ['plots'], excludedTags: ['pandas'] })).toEqual([
+    'hist',
+    'ggplot'
+  ]);
+});
+
+test('match the snippets without tags with the untagged pseudo-tag', () => {
+  expect(matching({ tags: [UNTAGGED] })).toEqual(['untagged']);
+  expect(matching({ tags: [UNTAGGED, 'pandas'] })).toEqual([
+    'plot',
+    'untagged'
+  ]);
+  expect(matching({ excludedTags: [UNTAGGED] })).toEqual([
+    'plot',
+    'hist',
+    'ggplot'
+  ]);
+});
+
+test('keep all the snippets with an empty filter', () => {
+  expect(
+    isEmptyTagFilter({ tags: [], excludedTags: [], languages: [], mode: 'all' })
+  ).toBe(true);
+  expect(matching({})).toHaveLength(4);
+});
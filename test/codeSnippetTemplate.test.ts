@@ -0,0 +1,85 @@
+import {
+  expandTemplate,
+  expandTemplateFields,
+  getPlaceholders,
+  getTabStops,
+  hasPlaceholders,
+  tokenize
+} from '../src/CodeSnippetTemplate';
+import 'jest';
+
+test('list numbered and named placeholders in order', () => {
+  const code = 'df = ${1:dataframe}.groupby({{column}})\nprint(${1})';
+  expect(getPlaceholders(code)).toEqual([
+    { key: '1', default: 'dataframe' },
+    { key: 'column', default: '' }
+  ]);
+});
+
+test('named placeholders may have a default', () => {
+  expect(getPlaceholders('{{ path : data.csv }}')).toEqual([
+    { key: 'path', default: 'data.csv' }
+  ]);
+});
+
+test('named placeholders may have a kernel expression', () => {
+  const code = 'df = {{frame=dir()}}\n{{frame}}.head()';
+  expect(getPlaceholders(code)).toEqual([
+    { key: 'frame', default: '', expression: 'dir()' }
+  ]);
+  expect(expandTemplate(code, { frame: 'sales' })).toBe(
+    'df = sales\nsales.head()'
+  );
+});
+
+test('expand placeholders with values or defaults', () => {
+  const code = '${1:df}.plot(x={{x}})\n${1}.head()';
+  expect(expandTemplate(code, { x: "'year'" })).toBe(
+    "df.plot(x='year')\ndf.head()"
+  );
+  expect(expandTemplate(code, { '1': 'data', x: 'a' })).toBe(
+    'data.plot(x=a)\ndata.head()'
+  );
+});
+
+test('escaped placeholders and ordinary braces are kept', () => {
+  const code = 'echo \\${HOME} "{}".format(1) {{ }}';
+  expect(hasPlaceholders(code)).toBe(false);
+  expect(tokenize(code)).toEqual(['echo ${HOME} "{}".format(1) {{ }}']);
+});
+
+test('keep the parameter expansions of shell snippets', () => {
+  const code = [
+    '#!/bin/bash',
+    'name=${1:-world}',
+    'out=${OUTPUT_DIR:=/tmp}',
+    ': "${2:?missing input file}"',
+    'echo "Hello ${name}${3:+!}" > "$out/${HOME:1:4}-{{file:hello.txt}}"'
+  ].join('\n');
+  expect(getPlaceholders(code)).toEqual([
+    { key: 'file', default: 'hello.txt' }
+  ]);
+  expect(expandTemplate(code)).toBe(
+    code.replace('{{file:hello.txt}}', 'hello.txt')
+  );
+});
+
+test('locate the values of the placeholders', () => {
+  const result = expandTemplateFields('${2:b} = ${1:a} + ${2}\n{{c}}$0', {
+    c: 'x'
+  });
+  expect(result.text).toBe('b = a + b\nx$0');
+  expect(result.fields).toEqual([
+    { key: '2', start: 0, end: 1 },
+    { key: '1', start: 4, end: 5 },
+    { key: '2', start: 8, end: 9 },
+    { key: 'c', start: 10, end: 11 }
+  ]);
+});
+
+test('group numbered fields into tab stops with 0 last', () => {
+  const { fields } = expandTemplateFields('${0}${2:b}${1:a}${2}{{c}}');
+  expect(getTabStops(fields).map(stop => stop.map(field => field.key))).toEqual(
+    [['1'], ['2', '2'], ['0']]
+  );
+});
@@ -0,0 +1,128 @@
+import { ISessionContext, showDialog } from '@jupyterlab/apputils';
+
+import { askTemplateValues } from '../src/CodeSnippetTemplateDialog';
+import 'jest';
+
+jest.mock('@jupyterlab/apputils', () => {
+  const button =
+    (accept: boolean) =>
+    (options: { label?: string } = {}) => ({
+      accept,
+      label: options.label ?? (accept ? 'OK' : 'Cancel')
+    });
+  return {
+    Dialog: {
+      cancelButton: button(false),
+      okButton: button(true),
+      warnButton: button(true)
+    },
+    showDialog: jest.fn()
+  };
+});
+
+jest.mock('../src/CodeSnippetService', () => ({
+  PERSONAL_LIBRARY_ID: 'personal'
+}));
+
+const SHOW_DIALOG = showDialog as jest.Mock;
+
+function snippet(library: string) {
+  return {
+    id: 'head',
+    name: 'head',
+    language: 'Python',
+    code: "{{df=[n for n in dir() if n.startswith('d')]}}.head()",
+    order: 0,
+    library
+  };
+}
+
+// a kernel whose variables are `df` and `sales`
+function kernel() {
+  const requestExecute = jest.fn(() => ({
+    done: Promise.resolve({
+      content: {
+        status: 'ok',
+        user_expressions: {
+          value: { status: 'ok', data: { 'text/plain': "['df', 'sales']" } }
+        }
+      }
+    }),
+    dispose: jest.fn()
+  }));
+  return {
+    sessionContext: {
+      session: { kernel: { requestExecute } }
+    } as unknown as ISessionContext,
+    requestExecute
+  };
+}
+
+/**
+ * Answer the dialog asking to evaluate expressions with a button, and fill
+ * the form with the values it offers.
+ */
+function answer(evaluate: boolean) {
+  const asked: string[] = [];
+  SHOW_DIALOG.mockReset();
+  SHOW_DIALOG.mockImplementation(async options => {
+    if (options.title === 'Evaluate in the kernel?') {
+      asked.push(options.body.node.querySelector('pre').textContent);
+      return { button: options.buttons[evaluate ? 1 : 0], value: null };
+    }
+    const input = options.body.node.querySelector('input');
+    return {
+      button: { accept: true },
+      value: {
+        df: input.value,
+        choices: Array.from(
+          options.body.node.querySelectorAll('option'),
+          (option: HTMLOptionElement) => option.value
+        ).join(' ')
+      }
+    };
+  });
+  return asked;
+}
+
+test('evaluate the expressions of personal snippets without asking', async () => {
+  const asked = answer(false);
+  const { sessionContext, requestExecute } = kernel();
+
+  expect(
+    await askTemplateValues(snippet('personal'), {}, 'Insert', sessionContext)
+  ).toEqual({ df: 'df', choices: 'df sales' });
+  expect(asked).toEqual([]);
+  expect(requestExecute).toHaveBeenCalledTimes(1);
+});
+
+test('show the expressions of shared snippets before evaluating them', async () => {
+  const asked = answer(true);
+  const { sessionContext, requestExecute } = kernel();
+
+  expect(
+    await askTemplateValues(
+      snippet('folder:team'),
+      {},
+      'Insert',
+      sessionContext
+    )
+  ).toEqual({ df: 'df', choices: 'df sales' });
+  expect(asked).toEqual(["df = [n for n in dir() if n.startswith('d')]"]);
+  expect(requestExecute).toHaveBeenCalledTimes(1);
+});
+
+test('type the values when the expressions are not to be evaluated', async () => {
+  answer(false);
+  const { sessionContext, requestExecute } = kernel();
+
+  expect(
+    await askTemplateValues(
+      snippet('folder:team'),
+      {},
+      'Insert',
+      sessionContext
+    )
+  ).toEqual({ df: '', choices: '' });
+  expect(requestExecute).not.toHaveBeenCalled();
+});
@@ -0,0 +1,32 @@
+import { getDaysLeft, purgeTrash } from '../src/CodeSnippetTrash';
+import 'jest';
+
+const NOW = new Date('2026-03-31T12:00:00.000Z');
+
+function trashed(deleted: string) {
+  return {
+    snippet: {
+      name: 'plot',
+      language: 'Python',
+      code: 'df.plot()',
+      id: deleted,
+      order: 0
+    },
+    library: 'personal',
+    deleted
+  };
+}
+
+test('count the days before a deleted snippet is purged', () => {
+  expect(getDaysLeft(trashed('2026-03-30T12:00:00.000Z'), 30, NOW)).toBe(29);
+  expect(getDaysLeft(trashed('2026-03-31T11:00:00.000Z'), 30, NOW)).toBe(30);
+  expect(getDaysLeft(trashed('2026-01-01T00:00:00.000Z'), 30, NOW)).toBe(0);
+  expect(getDaysLeft(trashed('2026-01-01T00:00:00.000Z'), 0, NOW)).toBeNull();
+});
+
+test('purge the snippets deleted too long ago', () => {
+  const recent = trashed('2026-03-20T00:00:00.000Z');
+  const old = trashed('2026-02-01T00:00:00.000Z');
+  expect(purgeTrash([old, recent], 30, NOW)).toEqual([recent]);
+  expect(purgeTrash([old, recent], 0, NOW)).toEqual([old, recent]);
+});
@@ -0,0 +1,77 @@
+import { Dialog, showDialog } from '@jupyterlab/apputils';
+
+import { resolveNameConflict } from '../src/CodeSnippetUtilities';
+import 'jest';
+
+jest.mock('@jupyterlab/apputils', () => {
+  const button =
+    (accept: boolean) =>
+    (options: { label: string }): Dialog.IButton =>
+      ({ accept, ...options } as Dialog.IButton);
+  return {
+    Dialog: {
+      createButton: button(true),
+      cancelButton: button(false),
+      okButton: button(true),
+      warnButton: button(true)
+    },
+    showDialog: jest.fn()
+  };
+});
+
+jest.mock('../src/CodeSnippetLanguages', () => ({ SUPPORTED_LANGUAGES: [] }));
+
+/**
+ * Answer the next dialog as JupyterLab does: the value of its body is only
+ * read for the buttons that accept it, and Escape gives a cancel button.
+ */
+function answer(label: string | null, applyToAll: boolean): void {
+  (showDialog as jest.Mock).mockImplementationOnce(async options => {
+    options.body.node.querySelector('input').checked = applyToAll;
+    const button =
+      label === null
+        ? { label: 'Cancel', accept: false }
+        : options.buttons.find((item: Dialog.IButton) => item.label === label);
+    return {
+      button,
+      value: button.accept ? options.body.getValue() : null
+    };
+  });
+}
+
+test('skip all the next clashes', async () => {
+  answer('Skip', true);
+  expect(await resolveNameConflict('plot', true)).toEqual({
+    action: 'skip',
+    applyToAll: true
+  });
+});
+
+test('skip one clash', async () => {
+  answer('Skip', false);
+  expect(await resolveNameConflict('plot', true)).toEqual({
+    action: 'skip',
+    applyToAll: false
+  });
+});
+
+test('skip only this clash when the dialog is dismissed', async () => {
+  answer(null, true);
+  expect(await resolveNameConflict('plot', true)).toEqual({
+    action: 'skip',
+    applyToAll: false
+  });
+});
+
+test('rename or overwrite all the next clashes', async () => {
+  answer('Rename', true);
+  expect(await resolveNameConflict('plot', true)).toEqual({
+    action: 'rename',
+    applyToAll: true
+  });
+  answer('Overwrite', true);
+  expect(await resolveNameConflict('plot', true)).toEqual({
+    action: 'overwrite',
+    applyToAll: true
+  });
+});